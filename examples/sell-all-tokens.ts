@@ -31,73 +31,47 @@ async function sellAllTokens(privateKey: string, backendUrl?: string) {
   });
   
   try {
-    // Get all tokens from backend
-    console.log('📥 Fetching all tokens from backend...');
-    const response = await client.discoverTokens();
-    const tokens = response.tokens;
-    console.log(`   Found ${tokens.length} tokens\n`);
+    // Reconstruct holdings from on-chain Transfer logs (platform tokens only)
+    console.log('📥 Scanning wallet transfers on-chain...');
+    const portfolio = await client.getPortfolio({ quote: false });
+    console.log(`   Found ${portfolio.holdings.length} token(s) with a balance (blocks ${portfolio.fromBlock}-${portfolio.toBlock})\n`);
     
-    if (tokens.length === 0) {
+    if (portfolio.holdings.length === 0) {
       console.log('✅ No tokens found. Nothing to sell.');
       return;
     }
     
-    // Check balance for each token
-    console.log('💰 Checking balances on-chain...');
     const results: SellResult[] = [];
     
-    // ERC-20 ABI for balanceOf
-    const erc20Abi = ['function balanceOf(address owner) view returns (uint256)'];
-    
-    // Connect to provider
-    const provider = new ethers.JsonRpcProvider(
-      process.env.RPC_URL || 'https://sepolia.base.org'
-    );
-    
-    for (const token of tokens) {
+    for (const holding of portfolio.holdings) {
+      console.log(`   ✓ ${holding.name}: ${ethers.formatEther(holding.balance)} tokens`);
+      
+      // Sell this token (amounts above the facilitator limit are split automatically)
       try {
-        // Query balance directly from contract
-        const tokenContract = new ethers.Contract(token.address, erc20Abi, provider);
-        const balance = await tokenContract.balanceOf(wallet.address);
+        console.log(`     🔄 Selling...`);
+        const sellResponse = await client.sellTokens({
+          tokenAddress: holding.tokenAddress,
+          tokenAmount: holding.balance
+        });
         
-        if (balance > BigInt(0)) {
-          console.log(`   ✓ ${token.name}: ${ethers.formatEther(balance)} tokens`);
-          
-          // Sell this token
-          try {
-            console.log(`     🔄 Selling...`);
-            const sellResponse = await client.sellTokens({
-              tokenAddress: token.address,
-              tokenAmount: balance.toString()
-            });
-            
-            results.push({
-              tokenAddress: token.address,
-              tokenName: token.name,
-              balance: ethers.formatEther(balance),
-              success: true,
-              usdcReceived: sellResponse.usdcReceived
-            });
-            
-            console.log(`     ✅ Sold! Received: ${sellResponse.usdcReceived} USDC\n`);
-          } catch (sellError: any) {
-            console.log(`     ❌ Failed: ${sellError.message}\n`);
-            results.push({
-              tokenAddress: token.address,
-              tokenName: token.name,
-              balance: ethers.formatEther(balance),
-              success: false,
-              error: sellError.message
-            });
-          }
-        } else {
-          console.log(`   - ${token.name}: 0 tokens (skip)`);
-        }
+        results.push({
+          tokenAddress: holding.tokenAddress,
+          tokenName: holding.name,
+          balance: ethers.formatEther(holding.balance),
+          success: true,
+          usdcReceived: sellResponse.usdcReceived
+        });
         
-        // Small delay to avoid overwhelming the RPC
-        await new Promise(resolve => setTimeout(resolve, 100));
-      } catch (error: any) {
-        console.log(`   ⚠️  ${token.name}: Could not check balance - ${error.message}`);
+        console.log(`     ✅ Sold! Received: ${sellResponse.usdcReceived} USDC\n`);
+      } catch (sellError: any) {
+        console.log(`     ❌ Failed: ${sellError.message}\n`);
+        results.push({
+          tokenAddress: holding.tokenAddress,
+          tokenName: holding.name,
+          balance: ethers.formatEther(holding.balance),
+          success: false,
+          error: sellError.message
+        });
       }
     }
     
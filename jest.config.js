@@ -0,0 +1,10 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // tsconfig.json leaves jest types out of the build
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { types: ['node', 'jest'] } }],
+  },
+};
@@ -20,6 +20,7 @@ import {
   AgentExecutionResult,
   AgentLifecycleHooks,
   AgentPosition,
+  FailedExecutionResult,
 } from "./interfaces";
 import { X402AIProvider } from "./ai-provider";
 import {
@@ -28,6 +29,28 @@ import {
 } from "./openrouter-provider";
 import { DashboardClient } from "./dashboard-client";
 import { RobustProvider } from "./rpc-provider";
+import {
+  AgentPadSigner,
+  WalletConfig,
+  resolveSigner,
+} from "../signer";
+import { resolvePaymentPolicy } from "../payment-policy";
+import { PaymentLedger, PaymentLedgerStorage } from "../payment-ledger";
+import { OperationJournal, OperationJournalStorage } from "../operation-journal";
+import { DEFAULT_CHAIN_ID, getNetwork } from "../networks";
+import { TokenDiscoveryFilter, TokenInfo } from "../types";
+import { pricePerToken } from "../cost-basis";
+import { Logger, noopLogger } from "../logger";
+import { ClientMiddleware } from "../middleware";
+import { ImageStorageAdapter, createPlaceholderImage } from "../launch-metadata";
+import {
+  CurveCompletedError,
+  InsufficientAllowanceError,
+  InsufficientLiquidityError,
+  NonceUsedError,
+  SignatureExpiredError,
+  X402LaunchError,
+} from "../errors";
 
 export class AgentRunner {
   private client: X402LaunchClient;
@@ -47,61 +70,91 @@ export class AgentRunner {
   // Store chain config for balance queries
   private chainId: number;
   private rpcUrl: string;
-  private wallet: ethers.Wallet;
+  private signer: AgentPadSigner;
   private ethersProvider: ethers.Provider;
   private robustProvider: RobustProvider;
 
-  // USDC address by chain
-  private static USDC_ADDRESSES: Record<number, string> = {
-    84532: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", // Base Sepolia
-    8453: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // Base Mainnet
-  };
+  private usdcAddress: string;
+  private completedCurves = new Set<string>(); // Tokens whose bonding curve no longer trades
+  private logger: Logger;
 
+  /**
+   * @param wallet Private key, any ethers.Signer / AgentPadSigner, or a WalletConfig
+   */
   constructor(
     config: AgentConfig,
-    privateKey: string,
+    wallet: string | AgentPadSigner | WalletConfig,
     clientConfig?: {
       baseUrl?: string;
       chainId?: number;
       rpcUrl?: string;
+      paymentLedger?: PaymentLedger | PaymentLedgerStorage;
+      operationJournal?: OperationJournal | OperationJournalStorage;
+      middleware?: ClientMiddleware[];
+      imageStorage?: ImageStorageAdapter;
+      backendSigner?: string;
     },
     hooks?: AgentLifecycleHooks
   ) {
     this.config = config;
     this.hooks = hooks || {};
 
-    // Initialize client
-    this.chainId = clientConfig?.chainId || 84532;
+    // Every SDK component logs through the agent's logger, tagged with agentId
+    const rootLogger = (config.logger || noopLogger).child({ agentId: config.agentId });
+    this.logger = rootLogger.child({ component: "AgentRunner" });
+
+    // Initialize client (chain must be in the network registry)
+    this.chainId = clientConfig?.chainId || DEFAULT_CHAIN_ID;
+    const network = getNetwork(this.chainId);
     const baseUrl =
       clientConfig?.baseUrl || "https://api.launch.x402agentpad.io";
-    this.rpcUrl = clientConfig?.rpcUrl || "https://sepolia.base.org";
+    this.rpcUrl = clientConfig?.rpcUrl || network.rpcUrls[0];
+    this.usdcAddress = network.usdc.address;
+
+    // Resolve the signer once and share it with the client and AI providers
+    const { signer, address } = resolveSigner(wallet);
+    this.signer = signer;
+
+    // One policy and ledger shared by trades and model calls
+    const paymentPolicy = resolvePaymentPolicy(this.config.paymentPolicy);
 
     this.client = new X402LaunchClient({
-      wallet: { privateKey },
+      wallet: { signer, address },
       baseUrl,
       chainId: this.chainId,
       rpcUrl: this.rpcUrl,
+      paymentPolicy,
+      paymentLedger: clientConfig?.paymentLedger,
+      operationJournal: clientConfig?.operationJournal,
+      middleware: clientConfig?.middleware,
+      imageStorage: clientConfig?.imageStorage,
+      backendSigner: clientConfig?.backendSigner,
+      maxSlippageBps: this.config.maxSlippageBps,
+      logger: rootLogger,
     });
 
-    // Initialize wallet and robust provider with retry logic
-    this.wallet = new ethers.Wallet(privateKey);
+    // Initialize robust provider with retry logic
     // Create robust provider with multiple RPC fallbacks
-    this.robustProvider = new RobustProvider(this.rpcUrl, this.chainId, {
-      maxRetries: 3,
-      baseDelayMs: 1000,
-      maxDelayMs: 10000,
-    });
+    this.robustProvider = new RobustProvider(
+      this.rpcUrl,
+      this.chainId,
+      {
+        maxRetries: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 10000,
+      },
+      rootLogger
+    );
     this.ethersProvider = this.robustProvider.getProvider();
-    const usdcAddress =
-      AgentRunner.USDC_ADDRESSES[this.chainId] ||
-      AgentRunner.USDC_ADDRESSES[84532];
 
     // Initialize default AI provider (x402)
     this.aiProvider = new X402AIProvider(
-      this.wallet,
+      this.signer,
       this.ethersProvider,
       this.chainId,
-      usdcAddress
+      this.usdcAddress,
+      this.client.getPaymentGuards(),
+      rootLogger
     );
 
     // Initialize OpenRouter provider if explicitly configured
@@ -110,14 +163,16 @@ export class AgentRunner {
         this.config.openRouterConfig || createOpenRouterConfig("balanced");
       this.openRouterProvider = new OpenRouterProvider(
         openRouterConfig,
-        this.wallet,
+        this.signer,
         this.ethersProvider,
         this.chainId,
-        usdcAddress
-      );
-      console.log(
-        `🤖 OpenRouter initialized with ${openRouterConfig.models.length} models`
+        this.usdcAddress,
+        this.client.getPaymentGuards(),
+        rootLogger
       );
+      this.logger.info("OpenRouter initialized", {
+        models: openRouterConfig.models.length,
+      });
     }
 
     // Initialize state
@@ -150,7 +205,8 @@ export class AgentRunner {
     if (this.config.dashboardUrl) {
       this.dashboard = new DashboardClient(
         this.config.dashboardUrl,
-        this.config.agentId
+        this.config.agentId,
+        rootLogger
       );
     }
 
@@ -162,12 +218,12 @@ export class AgentRunner {
    * Log configuration summary
    */
   private logConfiguration(): void {
-    console.log(`\n📋 Agent Configuration:`);
-    console.log(`   Agent ID: ${this.config.agentId}`);
-    console.log(`   Review Interval: ${this.config.reviewIntervalMs / 1000}s`);
-    console.log(`   Max Position Size: ${Number(this.config.maxPositionSizeUSDC) / 1e6} USDC`);
-    console.log(`   Max Positions: ${this.config.maxPositions}`);
-    console.log(`   Model: ${this.config.modelName || 'openai/gpt-4o-mini'}`);
+    this.logger.info("Agent configuration", {
+      reviewIntervalMs: this.config.reviewIntervalMs,
+      maxPositionSizeUSDC: this.config.maxPositionSizeUSDC,
+      maxPositions: this.config.maxPositions,
+      model: this.config.modelName || "openai/gpt-4o-mini",
+    });
   }
 
   /**
@@ -193,10 +249,7 @@ export class AgentRunner {
         await this.hooks.onStart?.();
         await this.config.onStart?.();
       } catch (error: any) {
-        console.error(
-          `Agent ${this.config.agentId} onStart hook error:`,
-          error
-        );
+        this.logger.error("onStart hook error", { error: error.message });
       }
     }
 
@@ -224,21 +277,16 @@ export class AgentRunner {
       const ethBalance = await this.client.getEthBalance();
       const ethBalanceFormatted = (Number(ethBalance) / 1e18).toFixed(4);
 
-      console.log(`\n💰 Execution Mode: ${selectedMode.toUpperCase()}`);
-      console.log(`   ETH Balance: ${ethBalanceFormatted} ETH`);
-      if (selectedMode === "gasless") {
-        console.log(
-          `   💸 Using Gasless (Premium): No ETH required, 2 USDC per trade`
-        );
-      } else {
-        console.log(
-          `   ⚡ Using Self-Execute (Economy): Agent pays gas, 0.01 USDC per trade`
-        );
-      }
+      // Gasless (Premium): no ETH required; Self-Execute (Economy): agent pays gas
+      this.logger.info("Execution mode selected", {
+        mode: selectedMode,
+        ethBalance: ethBalanceFormatted,
+        explicit: false,
+      });
     } else {
       // Use explicit mode from config
       this.client.setExecutionMode(mode);
-      console.log(`\n💰 Execution Mode: ${mode.toUpperCase()} (explicit)`);
+      this.logger.info("Execution mode selected", { mode, explicit: true });
     }
   }
 
@@ -257,7 +305,7 @@ export class AgentRunner {
         await this.hooks.onStop?.();
         await this.config.onStop?.();
       } catch (error: any) {
-        console.error(`Agent ${this.config.agentId} onStop hook error:`, error);
+        this.logger.error("onStop hook error", { error: error.message });
       }
     }
 
@@ -278,10 +326,7 @@ export class AgentRunner {
       try {
         await this.hooks.onPause();
       } catch (error: any) {
-        console.error(
-          `Agent ${this.config.agentId} onPause hook error:`,
-          error
-        );
+        this.logger.error("onPause hook error", { error: error.message });
       }
     }
   }
@@ -301,10 +346,7 @@ export class AgentRunner {
       try {
         await this.hooks.onResume();
       } catch (error: any) {
-        console.error(
-          `Agent ${this.config.agentId} onResume hook error:`,
-          error
-        );
+        this.logger.error("onResume hook error", { error: error.message });
       }
     }
   }
@@ -323,6 +365,13 @@ export class AgentRunner {
     return { ...this.state };
   }
 
+  /**
+   * Get the ledger of x402 payments made by this agent (trades, launches, model calls)
+   */
+  getPaymentLedger(): PaymentLedger {
+    return this.client.payments;
+  }
+
   /**
    * Set initial execution history (useful for loading from database on restart)
    * This allows the agent to "remember" past failures even after restart
@@ -331,7 +380,7 @@ export class AgentRunner {
     if (history && history.length > 0) {
       // Keep only recent history (last 10)
       this.state.executionHistory = history.slice(-10);
-      console.log(`[AgentRunner] Loaded ${history.length} execution history records`);
+      this.logger.info("Loaded execution history", { records: history.length });
     }
   }
 
@@ -356,7 +405,7 @@ export class AgentRunner {
       try {
         await this.config.onPhaseChange(phase, details);
       } catch (error) {
-        console.error(`[AgentRunner] onPhaseChange callback error:`, error);
+        this.logger.error("onPhaseChange callback error", { error });
       }
     }
     
@@ -415,10 +464,7 @@ export class AgentRunner {
             await this.hooks.onExecution?.(result);
             await this.config.onExecution?.(result);
           } catch (error: any) {
-            console.error(
-              `Agent ${this.config.agentId} onExecution hook error:`,
-              error
-            );
+            this.logger.error("onExecution hook error", { error: error.message });
           }
         }
 
@@ -435,14 +481,12 @@ export class AgentRunner {
         // Phase: Waiting for next cycle
         await this.setPhase('waiting', `Next review in ${(nextInterval / 1000).toFixed(0)}s`);
 
-        console.log(
-          `⏱️  Next execution in ${(nextInterval / 1000).toFixed(1)}s`
-        );
+        this.logger.debug("Waiting for next execution", { delayMs: nextInterval });
 
         // Wait for next interval
         await this.sleep(nextInterval);
       } catch (error: any) {
-        console.error(`Agent ${this.config.agentId} execution error:`, error);
+        this.logger.error("Execution error", { error: error.message });
 
         await this.setPhase('error', error.message);
         this.status.lastError = error;
@@ -470,10 +514,7 @@ export class AgentRunner {
             await this.hooks.onExecution?.(errorResult);
             await this.config.onExecution?.(errorResult);
           } catch (hookError: any) {
-            console.error(
-              `Agent ${this.config.agentId} error execution logging failed:`,
-              hookError
-            );
+            this.logger.error("Error execution logging failed", { error: hookError.message });
           }
         }
 
@@ -483,10 +524,7 @@ export class AgentRunner {
             await this.hooks.onError?.(error);
             await this.config.onError?.(error);
           } catch (hookError: any) {
-            console.error(
-              `Agent ${this.config.agentId} onError hook error:`,
-              hookError
-            );
+            this.logger.error("onError hook error", { error: hookError.message });
           }
         }
 
@@ -558,10 +596,7 @@ export class AgentRunner {
         try {
           await this.hooks.onLowBalance(balanceBefore);
         } catch (error: any) {
-          console.error(
-            `Agent ${this.config.agentId} onLowBalance hook error:`,
-            error
-          );
+          this.logger.error("onLowBalance hook error", { error: error.message });
         }
       }
 
@@ -653,10 +688,7 @@ export class AgentRunner {
       try {
         await this.hooks.onDecision(decision);
       } catch (error: any) {
-        console.error(
-          `Agent ${this.config.agentId} onDecision hook error:`,
-          error
-        );
+        this.logger.error("onDecision hook error", { error: error.message });
       }
     }
 
@@ -691,15 +723,22 @@ export class AgentRunner {
    */
   private async getMarketData(): Promise<{ tokens: any[]; fetchError?: string }> {
     try {
-      const { tokens } = await this.client.discoverTokens({
-        page: 1,
-        limit: 10,
+      // Default to the 10 newest tokens; discoveryFilter overrides any field
+      const filter: TokenDiscoveryFilter = {
         sortBy: "launchTime",
         sortOrder: "desc",
-      });
+        maxResults: 10,
+        ...this.config.discoveryFilter,
+      };
+      const tokens: TokenInfo[] = [];
+      for await (const token of this.client.iterateTokens(filter)) {
+        if (!this.completedCurves.has(token.address.toLowerCase())) {
+          tokens.push(token);
+        }
+      }
       return { tokens };
     } catch (error: any) {
-      console.warn(`Failed to get market data: ${error.message}`);
+      this.logger.warn("Failed to get market data", { error: error.message });
       return { 
         tokens: [], 
         fetchError: `Could not fetch market data: ${error.message}. Proceed with launch or other actions that don't require market data.`
@@ -745,20 +784,18 @@ export class AgentRunner {
           let buyAmount = BigInt(usdcAmountStr);
 
           if (buyAmount > maxPositionSize) {
-            console.log(
-              `[AgentRunner] ⚠️ AI requested ${
-                Number(buyAmount) / 1e6
-              } USDC but max is ${Number(maxPositionSize) / 1e6} USDC - capping`
-            );
+            this.logger.warn("Buy amount above max position size - capping", {
+              requested: buyAmount,
+              maxPositionSize,
+            });
             buyAmount = maxPositionSize;
             usdcAmountStr = maxPositionSize.toString();
           }
 
-          console.log(
-            `[AgentRunner] Buying with ${
-              Number(buyAmount) / 1e6
-            } USDC (${usdcAmountStr} atomic units)`
-          );
+          this.logger.info("Buying", {
+            tokenAddress: decision.params.tokenAddress,
+            usdcAmount: usdcAmountStr,
+          });
 
           // Validate buy amount doesn't exceed balance
           const balance = BigInt(this.state.balance);
@@ -779,29 +816,32 @@ export class AgentRunner {
               usdcAmount: usdcAmountStr,
             });
           } else {
-            const signedData = await this.client.buyTokensSelfExecute({
-              tokenAddress: decision.params.tokenAddress,
-              usdcAmount: usdcAmountStr,
-            });
-            const txHash = await this.client.executeBuyTransaction(signedData);
-            buyResult = {
-              transactionHash: txHash,
-              buyer: this.client.getWalletAddress(),
-              tokenAddress: decision.params.tokenAddress,
-              tokenAmount: "0",
-              usdcPaid: usdcAmountStr,
-              averagePricePerToken: "0",
-            };
+            const tokenAddress = decision.params.tokenAddress;
+            // Actual fill decoded from the transaction receipt
+            buyResult = await this.executeSelfExecute(
+              () =>
+                this.client.buyTokensSelfExecute({
+                  tokenAddress,
+                  usdcAmount: usdcAmountStr,
+                }),
+              (signedData) => this.client.executeBuyTransaction(signedData)
+            );
           }
 
+          // Entry price from the real fill (tokens received for USDC paid)
+          const entryPrice =
+            buyResult.tokenAmount && buyResult.tokenAmount !== "0"
+              ? pricePerToken(buyResult.usdcPaid, buyResult.tokenAmount)
+              : buyResult.averagePricePerToken;
+
           // Track position
           const newPosition: AgentPosition = {
             tokenAddress: decision.params.tokenAddress,
             tokenAmount: buyResult.tokenAmount,
             usdcInvested: buyResult.usdcPaid,
-            entryPrice: buyResult.averagePricePerToken,
+            entryPrice,
             entryTime: Date.now(),
-            currentPrice: buyResult.averagePricePerToken,
+            currentPrice: entryPrice,
             unrealizedPL: "0",
             status: "open",
           };
@@ -829,9 +869,10 @@ export class AgentRunner {
           }
 
           tokenAmountStr = Math.floor(decimalTokenAmount * 1e18).toString();
-          console.log(
-            `[AgentRunner] Selling ${decision.params.tokenAmount} tokens (${tokenAmountStr} atomic units)`
-          );
+          this.logger.info("Selling", {
+            tokenAddress: decision.params.tokenAddress,
+            tokenAmount: tokenAmountStr,
+          });
 
           // Execute sell based on execution mode
           const sellExecutionMode = this.client.getExecutionMode();
@@ -843,18 +884,15 @@ export class AgentRunner {
               tokenAmount: tokenAmountStr,
             });
           } else {
-            const signedData = await this.client.sellTokensSelfExecute({
-              tokenAddress: decision.params.tokenAddress,
-              tokenAmount: tokenAmountStr,
-            });
-            const txHash = await this.client.executeSellTransaction(signedData);
-            sellResult = {
-              transactionHash: txHash,
-              seller: this.client.getWalletAddress(),
-              tokenAddress: decision.params.tokenAddress,
-              tokenAmount: tokenAmountStr,
-              usdcReceived: "0",
-            };
+            const tokenAddress = decision.params.tokenAddress;
+            sellResult = await this.executeSelfExecute(
+              () =>
+                this.client.sellTokensSelfExecute({
+                  tokenAddress,
+                  tokenAmount: tokenAmountStr,
+                }),
+              (signedData) => this.client.executeSellTransaction(signedData)
+            );
           }
 
           // Update positions
@@ -889,11 +927,11 @@ export class AgentRunner {
             name: decision.params.name,
             ticker: ticker.toUpperCase(),
             description: decision.params.description,
-            image:
-              decision.params.image ||
-              `https://via.placeholder.com/400/000000/FFFFFF?text=${encodeURIComponent(
-                ticker
-              )}`,
+            // Without a hosted image, upload a generated placeholder
+            image: decision.params.image || undefined,
+            imageFile: decision.params.image
+              ? undefined
+              : createPlaceholderImage(ticker),
             initialSupply: decision.params.initialSupply,
           });
 
@@ -929,9 +967,73 @@ export class AgentRunner {
             message: "No action taken",
           };
       }
+    } catch (error) {
+      return this.handleExecutionError(decision, error);
+    }
+  }
+
+  /**
+   * Request a backend signature and execute it, retrying once with a fresh
+   * signature if it expired, its nonce was used or the allowance fell short
+   * (the retry pays the x402 fee again)
+   */
+  private async executeSelfExecute<S, R>(
+    request: () => Promise<S>,
+    execute: (signedData: S) => Promise<R>
+  ): Promise<R> {
+    try {
+      return await execute(await request());
     } catch (error: any) {
-      return { success: false, error: error.message };
+      if (
+        !(error instanceof SignatureExpiredError) &&
+        !(error instanceof NonceUsedError) &&
+        !(error instanceof InsufficientAllowanceError)
+      ) {
+        throw error;
+      }
+      this.logger.warn("Retrying with a fresh signature", {
+        reason: error.name,
+        error: error.message,
+      });
+      return execute(await request());
+    }
+  }
+
+  /**
+   * Turn a failed decision into a result, reacting to the revert cause
+   */
+  private handleExecutionError(
+    decision: AgentDecision,
+    error: unknown
+  ): FailedExecutionResult {
+    const message = error instanceof Error ? error.message : String(error);
+    const tokenAddress = decision.params?.tokenAddress;
+
+    if (error instanceof CurveCompletedError && tokenAddress) {
+      this.completedCurves.add(tokenAddress.toLowerCase());
+      this.logger.info("Bonding curve complete - excluding token from market data", {
+        tokenAddress,
+      });
+      return {
+        success: false,
+        error: `${message} (bonding curve completed - token can no longer be traded here)`,
+        errorCode: error.code,
+      };
+    }
+
+    if (error instanceof InsufficientLiquidityError) {
+      return {
+        success: false,
+        error: `${message} (not enough liquidity - try a smaller amount)`,
+        errorCode: error.code,
+      };
     }
+
+    return {
+      success: false,
+      error: message,
+      errorCode: error instanceof X402LaunchError ? error.code : undefined,
+    };
   }
 
   /**
@@ -940,9 +1042,7 @@ export class AgentRunner {
   private async getBalance(): Promise<string> {
     try {
       const walletAddress = this.client.getWalletAddress();
-      const usdcAddress =
-        AgentRunner.USDC_ADDRESSES[this.chainId] ||
-        AgentRunner.USDC_ADDRESSES[84532];
+      const usdcAddress = this.usdcAddress;
 
       const usdcABI = [
         "function balanceOf(address account) view returns (uint256)",
@@ -963,7 +1063,7 @@ export class AgentRunner {
 
       return balanceString;
     } catch (error: any) {
-      console.warn(`Failed to get balance: ${error.message}`);
+      this.logger.warn("Failed to get balance", { error: error.message });
       return this.state.balance || "0";
     }
   }
@@ -995,16 +1095,14 @@ export class AgentRunner {
     }> = [];
 
     const positions = [...this.state.positions];
-    console.log(`[AgentRunner] Selling all ${positions.length} positions...`);
+    this.logger.info("Selling all positions", { positions: positions.length });
 
     for (const position of positions) {
       try {
         const tokenAddress = position.tokenAddress;
         const tokenAmount = position.tokenAmount;
 
-        console.log(
-          `[AgentRunner] Selling ${tokenAmount} of ${tokenAddress.slice(0, 10)}...`
-        );
+        this.logger.info("Selling position", { tokenAddress, tokenAmount });
 
         const executionMode = this.client.getExecutionMode();
         let sellResult: any;
@@ -1015,12 +1113,10 @@ export class AgentRunner {
             tokenAmount,
           });
         } else {
-          const signedData = await this.client.sellTokensSelfExecute({
-            tokenAddress,
-            tokenAmount,
-          });
-          const txHash = await this.client.executeSellTransaction(signedData);
-          sellResult = { transactionHash: txHash };
+          sellResult = await this.executeSelfExecute(
+            () => this.client.sellTokensSelfExecute({ tokenAddress, tokenAmount }),
+            (signedData) => this.client.executeSellTransaction(signedData)
+          );
         }
 
         // Remove from positions
@@ -1038,16 +1134,15 @@ export class AgentRunner {
           txHash: sellResult.transactionHash,
         });
 
-        console.log(
-          `[AgentRunner] ✅ Sold ${tokenAddress.slice(0, 10)} - TX: ${
-            sellResult.transactionHash
-          }`
-        );
+        this.logger.info("Sold position", {
+          tokenAddress,
+          transactionHash: sellResult.transactionHash,
+        });
       } catch (error: any) {
-        console.error(
-          `[AgentRunner] ❌ Failed to sell ${position.tokenAddress}:`,
-          error.message
-        );
+        this.logger.error("Failed to sell position", {
+          tokenAddress: position.tokenAddress,
+          error: error.message,
+        });
         results.push({
           tokenAddress: position.tokenAddress,
           success: false,
@@ -1058,11 +1153,10 @@ export class AgentRunner {
 
     this.status.openPositions = this.state.positions.length;
 
-    console.log(
-      `[AgentRunner] Sell all complete. ${
-        results.filter((r) => r.success).length
-      }/${positions.length} sold successfully.`
-    );
+    this.logger.info("Sell all complete", {
+      sold: results.filter((r) => r.success).length,
+      positions: positions.length,
+    });
 
     return results;
   }
@@ -6,7 +6,13 @@
 
 import { ethers } from "ethers";
 import { AgentConfig, IAIModelProvider } from "./interfaces";
-import { createX402PaymentHeader } from "../payment";
+import {
+  X402PaymentGuards,
+  recordPaymentOutcome,
+  signPaymentRequirements,
+} from "../payment";
+import { AgentPadSigner } from "../signer";
+import { Logger, noopLogger } from "../logger";
 
 /**
  * X402 AI Model Provider
@@ -15,21 +21,27 @@ import { createX402PaymentHeader } from "../payment";
  * No API keys needed - payments handled automatically
  */
 export class X402AIProvider implements IAIModelProvider {
-  private wallet: ethers.Wallet;
+  private signer: AgentPadSigner;
   private provider: ethers.Provider;
   private chainId: number;
   private usdcAddress: string;
+  private guards: X402PaymentGuards;
+  private logger: Logger;
 
   constructor(
-    wallet: ethers.Wallet,
+    signer: AgentPadSigner,
     provider: ethers.Provider,
     chainId: number,
-    usdcAddress: string
+    usdcAddress: string,
+    guards: X402PaymentGuards = {},
+    logger: Logger = noopLogger
   ) {
-    this.wallet = wallet;
+    this.signer = signer;
     this.provider = provider;
     this.chainId = chainId;
     this.usdcAddress = usdcAddress;
+    this.guards = guards;
+    this.logger = logger.child({ component: "AIProvider" });
   }
 
   /**
@@ -74,26 +86,42 @@ export class X402AIProvider implements IAIModelProvider {
         throw new Error("Payment required but no payment details provided");
       }
 
-      const paymentInfo = paymentDetails.accepts[0] as any;
-
-      // Create x402 payment header
-      const paymentHeader = await createX402PaymentHeader(this.wallet, {
-        amount: paymentInfo.maxAmountRequired,
-        recipient: paymentInfo.payTo,
-        asset: paymentInfo.asset || this.usdcAddress,
-        chainId: this.chainId,
-        provider: this.provider,
-      });
+      // Pick the best usable option and create the x402 payment header
+      // (checked against the payment policy)
+      const payment = await signPaymentRequirements(
+        this.signer,
+        paymentDetails.accepts,
+        {
+          chainId: this.chainId,
+          provider: this.provider,
+          category: "model",
+          defaultAsset: this.usdcAddress,
+          resource: modelApiUrl,
+          guards: this.guards,
+          logger: this.logger,
+        }
+      );
 
       // Retry with payment
       response = await this.fetchWithRetry(modelApiUrl, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
-          "X-PAYMENT": paymentHeader,
+          "X-PAYMENT": payment.header,
         },
         body: JSON.stringify(requestBody),
       });
+
+      await recordPaymentOutcome(
+        this.guards,
+        payment,
+        {
+          ok: response.ok,
+          settlementHeader: response.headers.get("X-PAYMENT-RESPONSE"),
+          error: `HTTP ${response.status}`,
+        },
+        this.logger
+      );
     }
 
     if (!response.ok) {
@@ -127,10 +155,9 @@ export class X402AIProvider implements IAIModelProvider {
     } else if (typeof data === "string") {
       responseText = data;
     } else {
-      console.error(
-        "Unexpected response format:",
-        JSON.stringify(data, null, 2)
-      );
+      this.logger.error("Unexpected response format", {
+        response: JSON.stringify(data).substring(0, 1000),
+      });
       throw new Error(
         `Unexpected response format from AI model API: ${JSON.stringify(
           data
@@ -164,9 +191,12 @@ export class X402AIProvider implements IAIModelProvider {
       
       // Retry on server errors (500-599) if retries remaining
       if (!response.ok && response.status >= 500 && response.status < 600 && retries > 0) {
-        console.warn(
-          `[AI Provider] Server error ${response.status} (${response.statusText}), retrying in ${backoff}ms... (${retries} retries left)`
-        );
+        this.logger.warn("Server error, retrying", {
+          status: response.status,
+          statusText: response.statusText,
+          delayMs: backoff,
+          retriesLeft: retries,
+        });
         await new Promise((resolve) => setTimeout(resolve, backoff));
         return this.fetchWithRetry(url, options, retries - 1, backoff * 2);
       }
@@ -181,9 +211,11 @@ export class X402AIProvider implements IAIModelProvider {
         error.message.includes("network timeout");
 
       if (retries > 0 && isRetryable) {
-        console.warn(
-          `[AI Provider] Network error (${error.message}), retrying in ${backoff}ms... (${retries} retries left)`
-        );
+        this.logger.warn("Network error, retrying", {
+          error: error.message,
+          delayMs: backoff,
+          retriesLeft: retries,
+        });
         await new Promise((resolve) => setTimeout(resolve, backoff));
         return this.fetchWithRetry(url, options, retries - 1, backoff * 2);
       }
@@ -388,10 +420,9 @@ ${decisionGuidance}
     try {
       const jsonMatch = response.match(/\{[\s\S]*\}/);
       if (!jsonMatch) {
-        console.warn(
-          "[AI Provider] No JSON found in response:",
-          response.substring(0, 200)
-        );
+        this.logger.warn("No JSON found in response", {
+          response: response.substring(0, 200),
+        });
         return {
           action: "wait",
           params: { reason: "Invalid response format" },
@@ -406,7 +437,7 @@ ${decisionGuidance}
       try {
         parsed = JSON.parse(jsonStr);
       } catch (parseError: any) {
-        console.warn("[AI Provider] JSON parse error:", parseError.message);
+        this.logger.warn("JSON parse error", { error: parseError.message });
 
         const actionMatch = jsonStr.match(/"action"\s*:\s*"([^"]+)"/);
         const action = actionMatch ? actionMatch[1] : null;
@@ -415,9 +446,7 @@ ${decisionGuidance}
           action &&
           ["buy", "sell", "launch", "discover", "analyze", "wait", "stop"].includes(action)
         ) {
-          console.warn(
-            `[AI Provider] Using fallback: extracted action "${action}" from malformed JSON`
-          );
+          this.logger.warn("Using action extracted from malformed JSON", { action });
           return {
             action: action,
             params: {},
@@ -439,7 +468,7 @@ ${decisionGuidance}
         "stop",
       ];
       if (!validActions.includes(parsed.action)) {
-        console.warn(`[AI Provider] Invalid action: ${parsed.action}`);
+        this.logger.warn("Invalid action", { action: parsed.action });
         return {
           action: "wait",
           params: { reason: "Invalid action" },
@@ -454,7 +483,7 @@ ${decisionGuidance}
         confidence: parsed.confidence || 0.5,
       };
     } catch (error: any) {
-      console.error("[AI Provider] Failed to parse decision:", error.message);
+      this.logger.error("Failed to parse decision", { error: error.message });
       return {
         action: "wait",
         params: { reason: "Parse error" },
@@ -5,14 +5,17 @@
  */
 
 import axios from 'axios';
+import { Logger, noopLogger } from '../logger';
 
 export class DashboardClient {
   private dashboardUrl: string;
   private agentId: string;
+  private logger: Logger;
 
-  constructor(dashboardUrl: string, agentId: string) {
+  constructor(dashboardUrl: string, agentId: string, logger: Logger = noopLogger) {
     this.dashboardUrl = dashboardUrl.replace(/\/$/, ''); // Remove trailing slash
     this.agentId = agentId;
+    this.logger = logger.child({ component: 'Dashboard' });
   }
 
   /**
@@ -27,9 +30,9 @@ export class DashboardClient {
       }, {
         timeout: 2000, // 2 second timeout
       });
-    } catch (error) {
-      // Silently fail - dashboard is optional
-      // console.warn(`[Dashboard] Failed to send update:`, error.message);
+    } catch (error: any) {
+      // Dashboard is optional - never fail the agent over it
+      this.logger.debug('Failed to send update', { type, error: error.message });
     }
   }
 
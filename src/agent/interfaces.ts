@@ -5,7 +5,9 @@
  */
 
 import { X402LaunchClient } from "../client";
-import { TokenInfo } from "../types";
+import { TokenDiscoveryFilter, TokenInfo } from "../types";
+import { PaymentPolicyConfig } from "../payment-policy";
+import { Logger } from "../logger";
 
 /**
  * Execution phases for real-time status tracking
@@ -39,10 +41,13 @@ export interface AgentConfig {
   maxPositionSizeUSDC: string; // Max position size in USDC (6 decimals)
   maxPositions: number; // Max concurrent positions
   minBalanceUSDC?: string; // Minimum balance to continue (default: 0.01 USDC)
+  paymentPolicy?: PaymentPolicyConfig; // Spend limits for x402 payments (trades, model calls, launches)
+  maxSlippageBps?: number; // Slippage limit for every trade the agent makes (100 = 1%)
 
   // Execution
   reviewIntervalMs: number; // How often to review portfolio
   executionMode?: "gasless" | "self-execute" | "auto"; // Default: 'auto' (detect based on ETH balance)
+  discoveryFilter?: TokenDiscoveryFilter; // Tokens shown to the model (default: 10 newest)
 
   // AI Model configuration
   modelProvider?: string; // 'x402' (recommended), 'openrouter', 'custom'
@@ -59,6 +64,9 @@ export interface AgentConfig {
   // Dashboard (optional - for local monitoring)
   dashboardUrl?: string; // e.g. 'http://localhost:3030'
 
+  // Logging (default: silent; shared with the client and AI providers, tagged with agentId)
+  logger?: Logger;
+
   // Optional callbacks
   onStart?: () => void | Promise<void>;
   onStop?: () => void | Promise<void>;
@@ -151,6 +159,15 @@ export interface AgentExecutionResult {
   gasUsed?: string; // Gas used (self-execute mode)
 }
 
+/**
+ * executionResult of a decision that threw
+ */
+export interface FailedExecutionResult {
+  success: false;
+  error: string;
+  errorCode?: string; // X402LaunchError code, when the cause was an SDK error
+}
+
 /**
  * Agent status
  */
@@ -8,17 +8,21 @@
  */
 
 import { ethers } from 'ethers';
-import { createX402PaymentHeader } from '../payment';
+import { X402PaymentGuards, recordPaymentOutcome, signPaymentRequirements } from '../payment';
+import { AgentPadSigner } from '../signer';
+import { Logger, noopLogger } from '../logger';
 
 export interface AgentPadLLMConfig {
-  /** Wallet for x402 payments */
-  wallet: ethers.Wallet;
+  /** Signer for x402 payments (any ethers.Signer works) */
+  signer: AgentPadSigner;
   /** Ethereum provider */
   ethProvider: ethers.Provider;
   /** Chain ID (84532 for Base Sepolia) */
   chainId: number;
   /** USDC contract address */
   usdcAddress: string;
+  /** Payment policy and other safeguards for x402 payments */
+  guards?: X402PaymentGuards;
   /** x402 AI Service URL */
   aiServiceUrl?: string;
   /** AI provider (openai, anthropic, etc.) */
@@ -29,6 +33,8 @@ export interface AgentPadLLMConfig {
   temperature?: number;
   /** Max tokens */
   maxTokens?: number;
+  /** Structured logger, e.g. the AgentRunner's (default: silent) */
+  logger?: Logger;
 }
 
 /**
@@ -40,10 +46,12 @@ export interface AgentPadLLMConfig {
  * @internal
  */
 export class AgentPadLLM {
-  private wallet: ethers.Wallet;
+  private signer: AgentPadSigner;
   private ethProvider: ethers.Provider;
   private chainId: number;
   private usdcAddress: string;
+  private guards: X402PaymentGuards;
+  private logger: Logger;
   public aiServiceUrl: string;
   public provider: string;
   public modelName: string;
@@ -51,10 +59,12 @@ export class AgentPadLLM {
   public maxTokens: number;
 
   constructor(config: AgentPadLLMConfig) {
-    this.wallet = config.wallet;
+    this.signer = config.signer;
     this.ethProvider = config.ethProvider;
     this.chainId = config.chainId;
     this.usdcAddress = config.usdcAddress;
+    this.guards = config.guards || {};
+    this.logger = (config.logger || noopLogger).child({ component: 'AgentPadLLM' });
     this.aiServiceUrl = config.aiServiceUrl || 'https://api.ai.x402agentpad.io/v1/chat';
     this.provider = config.provider || 'openai';
     this.modelName = config.modelName || 'gpt-4';
@@ -100,15 +110,15 @@ export class AgentPadLLM {
         throw new Error('Payment required but no payment details provided');
       }
 
-      const paymentInfo = paymentDetails.accepts[0] as any;
-
-      // Create x402 payment header
-      const paymentHeader = await createX402PaymentHeader(this.wallet, {
-        amount: paymentInfo.maxAmountRequired,
-        recipient: paymentInfo.payTo,
-        asset: paymentInfo.asset || this.usdcAddress,
+      // Pick the best usable option and create the x402 payment header
+      const payment = await signPaymentRequirements(this.signer, paymentDetails.accepts, {
         chainId: this.chainId,
         provider: this.ethProvider,
+        category: 'model',
+        defaultAsset: this.usdcAddress,
+        resource: this.aiServiceUrl,
+        guards: this.guards,
+        logger: this.logger,
       });
 
       // Retry with payment
@@ -116,10 +126,21 @@ export class AgentPadLLM {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-PAYMENT': paymentHeader,
+          'X-PAYMENT': payment.header,
         },
         body: JSON.stringify(requestBody),
       });
+
+      await recordPaymentOutcome(
+        this.guards,
+        payment,
+        {
+          ok: response.ok,
+          settlementHeader: response.headers.get('X-PAYMENT-RESPONSE'),
+          error: `HTTP ${response.status}`,
+        },
+        this.logger
+      );
     }
 
     if (!response.ok) {
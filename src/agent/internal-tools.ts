@@ -8,6 +8,7 @@
 
 import { z } from 'zod';
 import { X402LaunchClient } from '../client';
+import { createPlaceholderImage } from '../launch-metadata';
 
 export interface AgentPadTool {
   id: string;
@@ -154,7 +155,8 @@ export function createAgentPadTools(client: X402LaunchClient): AgentPadTool[] {
             name,
             ticker: ticker.toUpperCase(),
             description,
-            image: image || `https://via.placeholder.com/400/000000/FFFFFF?text=${encodeURIComponent(ticker)}`,
+            image: image || undefined,
+            imageFile: image ? undefined : createPlaceholderImage(ticker),
           });
           return {
             success: true,
@@ -7,7 +7,10 @@
 
 import { ethers } from 'ethers';
 import { AgentConfig, IAIModelProvider, OpenRouterConfig, OpenRouterModel } from './interfaces';
-import { createX402PaymentHeader } from '../payment';
+import { X402PaymentGuards, recordPaymentOutcome, signPaymentRequirements } from '../payment';
+import { AgentPadSigner } from '../signer';
+import { DEFAULT_CHAIN_ID, getNetwork } from '../networks';
+import { Logger, noopLogger } from '../logger';
 
 /**
  * Model cost information (per 1M tokens)
@@ -78,19 +81,23 @@ const TASK_RECOMMENDATIONS: Record<string, string[]> = {
  */
 export class OpenRouterProvider implements IAIModelProvider {
   private config: OpenRouterConfig;
-  private wallet?: ethers.Wallet;
+  private signer?: AgentPadSigner;
   private provider?: ethers.Provider;
   private chainId: number;
   private usdcAddress: string;
   private baseUrl: string;
   private retryCount: Map<string, number> = new Map();
+  private guards: X402PaymentGuards;
+  private logger: Logger;
 
   constructor(
     config: OpenRouterConfig,
-    wallet?: ethers.Wallet,
+    signer?: AgentPadSigner,
     provider?: ethers.Provider,
-    chainId: number = 84532,
-    usdcAddress: string = '0x036CbD53842c5426634e7929541eC2318f3dCF7e'
+    chainId: number = DEFAULT_CHAIN_ID,
+    usdcAddress: string = getNetwork(chainId).usdc.address,
+    guards: X402PaymentGuards = {},
+    logger: Logger = noopLogger
   ) {
     this.config = {
       baseUrl: 'https://openrouter.ai/api/v1',
@@ -99,10 +106,12 @@ export class OpenRouterProvider implements IAIModelProvider {
       maxRetriesPerModel: 2,
       ...config,
     };
-    this.wallet = wallet;
+    this.signer = signer;
     this.provider = provider;
     this.chainId = chainId;
     this.usdcAddress = usdcAddress;
+    this.guards = guards;
+    this.logger = logger.child({ component: 'OpenRouter' });
     this.baseUrl = this.config.baseUrl || 'https://openrouter.ai/api/v1';
   }
 
@@ -119,7 +128,7 @@ export class OpenRouterProvider implements IAIModelProvider {
         this.retryCount.delete(model.id); // Reset on success
         return response;
       } catch (error: any) {
-        console.warn(`[OpenRouter] Model ${model.id} failed: ${error.message}`);
+        this.logger.warn('Model failed', { model: model.id, error: error.message });
         lastError = error;
 
         // Track retries
@@ -128,7 +137,7 @@ export class OpenRouterProvider implements IAIModelProvider {
 
         // Check if we should try next model
         if (retries >= (this.config.maxRetriesPerModel || 2)) {
-          console.log(`[OpenRouter] Max retries for ${model.id}, trying next model`);
+          this.logger.info('Max retries reached, trying next model', { model: model.id });
           continue;
         }
 
@@ -165,10 +174,11 @@ export class OpenRouterProvider implements IAIModelProvider {
           return costA - costB;
         });
 
-      case 'round-robin':
+      case 'round-robin': {
         // Rotate through models
         const rotation = Date.now() % models.length;
         return [...models.slice(rotation), ...models.slice(0, rotation)];
+      }
 
       case 'task-based':
         // This would be set dynamically based on task type
@@ -192,7 +202,7 @@ export class OpenRouterProvider implements IAIModelProvider {
   private async callSingleModel(
     model: OpenRouterModel,
     prompt: string,
-    agentConfig: AgentConfig
+    _agentConfig: AgentConfig
   ): Promise<string> {
     const requestBody = {
       model: model.id,
@@ -229,27 +239,39 @@ export class OpenRouterProvider implements IAIModelProvider {
     });
 
     // Handle 402 Payment Required (x402)
-    if (response.status === 402 && this.wallet && this.provider) {
+    if (response.status === 402 && this.signer && this.provider) {
       const paymentDetails = await response.json() as any;
 
       if (paymentDetails.accepts && paymentDetails.accepts.length > 0) {
-        const paymentInfo = paymentDetails.accepts[0];
-
-        const paymentHeader = await createX402PaymentHeader(this.wallet, {
-          amount: paymentInfo.maxAmountRequired,
-          recipient: paymentInfo.payTo,
-          asset: paymentInfo.asset || this.usdcAddress,
+        // Pick the best usable option and check it against the payment policy
+        const payment = await signPaymentRequirements(this.signer, paymentDetails.accepts, {
           chainId: this.chainId,
           provider: this.provider,
+          category: 'model',
+          defaultAsset: this.usdcAddress,
+          resource: `${this.baseUrl}/chat/completions`,
+          guards: this.guards,
+          logger: this.logger,
         });
 
-        headers['X-PAYMENT'] = paymentHeader;
+        headers['X-PAYMENT'] = payment.header;
 
         response = await fetch(`${this.baseUrl}/chat/completions`, {
           method: 'POST',
           headers,
           body: JSON.stringify(requestBody),
         });
+
+        await recordPaymentOutcome(
+          this.guards,
+          payment,
+          {
+            ok: response.ok,
+            settlementHeader: response.headers.get('X-PAYMENT-RESPONSE'),
+            error: `HTTP ${response.status}`,
+          },
+          this.logger
+        );
       }
     }
 
@@ -4,21 +4,8 @@
  */
 
 import { ethers } from 'ethers';
-
-// Free RPC endpoints for Base Sepolia (fallback order)
-const BASE_SEPOLIA_RPCS = [
-  'https://sepolia.base.org',
-  'https://base-sepolia-rpc.publicnode.com',
-  'https://base-sepolia.blockpi.network/v1/rpc/public',
-  'https://rpc.notadegen.com/base/sepolia',
-];
-
-// Free RPC endpoints for Base Mainnet
-const BASE_MAINNET_RPCS = [
-  'https://mainnet.base.org',
-  'https://base.publicnode.com',
-  'https://base.meowrpc.com',
-];
+import { DEFAULT_CHAIN_ID, getNetwork } from '../networks';
+import { Logger, noopLogger } from '../logger';
 
 export interface RetryConfig {
   maxRetries: number;
@@ -58,25 +45,31 @@ export class RobustProvider {
   private chainId: number;
   private retryConfig: RetryConfig;
   private rpcUrls: string[];
+  private logger: Logger;
 
   constructor(
     rpcUrl?: string,
-    chainId: number = 84532,
-    retryConfig: Partial<RetryConfig> = {}
+    chainId: number = DEFAULT_CHAIN_ID,
+    retryConfig: Partial<RetryConfig> = {},
+    logger: Logger = noopLogger
   ) {
     this.chainId = chainId;
     this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+    this.logger = logger.child({ component: 'RobustProvider' });
 
-    // Build RPC list: user-provided first, then fallbacks
-    const fallbacks = chainId === 8453 ? BASE_MAINNET_RPCS : BASE_SEPOLIA_RPCS;
-    this.rpcUrls = rpcUrl ? [rpcUrl, ...fallbacks] : fallbacks;
+    // Build RPC list: user-provided first, then the network's fallbacks
+    // (getNetwork throws for chains that are not registered)
+    const fallbacks = getNetwork(chainId).rpcUrls;
+    this.rpcUrls = rpcUrl
+      ? [rpcUrl, ...fallbacks.filter(url => url !== rpcUrl)]
+      : [...fallbacks];
 
     // Create providers for each RPC
     this.providers = this.rpcUrls.map(
       url => new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true })
     );
 
-    console.log(`[RobustProvider] Initialized with ${this.providers.length} RPC endpoints`);
+    this.logger.debug('Initialized', { chainId, endpoints: this.providers.length });
   }
 
   /**
@@ -95,7 +88,10 @@ export class RobustProvider {
       // We've cycled through all providers
       return false;
     }
-    console.log(`[RobustProvider] Switching from ${this.rpcUrls[this.currentIndex]} to ${this.rpcUrls[nextIndex]}`);
+    this.logger.warn('Switching RPC', {
+      from: this.rpcUrls[this.currentIndex],
+      to: this.rpcUrls[nextIndex],
+    });
     this.currentIndex = nextIndex;
     return true;
   }
@@ -136,9 +132,13 @@ export class RobustProvider {
 
           if (isRateLimited || isNetworkError) {
             const delay = getBackoffDelay(attempt, this.retryConfig);
-            console.warn(
-              `[RobustProvider] ${operationName} failed (attempt ${attempt + 1}/${this.retryConfig.maxRetries}): ${errorMessage.slice(0, 100)}. Retrying in ${delay}ms...`
-            );
+            this.logger.warn('RPC call failed, retrying', {
+              operation: operationName,
+              attempt: attempt + 1,
+              maxRetries: this.retryConfig.maxRetries,
+              delayMs: Math.round(delay),
+              error: errorMessage.slice(0, 200),
+            });
             await sleep(delay);
             continue;
           }
@@ -216,8 +216,9 @@ export class RobustProvider {
 export function createRobustProvider(
   rpcUrl?: string,
   chainId?: number,
-  retryConfig?: Partial<RetryConfig>
+  retryConfig?: Partial<RetryConfig>,
+  logger?: Logger
 ): RobustProvider {
-  return new RobustProvider(rpcUrl, chainId, retryConfig);
+  return new RobustProvider(rpcUrl, chainId, retryConfig, logger);
 }
 
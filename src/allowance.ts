@@ -0,0 +1,39 @@
+/**
+ * Allowance strategies
+ *
+ * How self-execute trades get the bonding curve allowed to move the wallet's
+ * USDC or tokens:
+ * - exact: approve exactly the trade amount every time (one approval per trade)
+ * - infinite: approve MaxUint256 once and reuse it
+ * - capped: approve `allowanceCap` once and reuse it until it runs out
+ *
+ * There is no EIP-2612 permit strategy: the bonding curve has no entry point
+ * that takes a permit, so one would cost a transaction just like approve.
+ */
+
+import { ethers } from 'ethers';
+
+export type AllowanceStrategy = 'exact' | 'infinite' | 'capped';
+
+export const ALLOWANCE_ABI = [
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+  'function approve(address spender, uint256 amount) external returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+];
+
+export const allowanceInterface = new ethers.Interface(ALLOWANCE_ABI);
+
+export const APPROVAL_TOPIC = allowanceInterface.getEvent('Approval')!.topicHash;
+
+/**
+ * Amount to approve for a trade that needs `required`
+ */
+export function getApprovalAmount(
+  strategy: AllowanceStrategy,
+  required: bigint,
+  cap?: bigint
+): bigint {
+  if (strategy === 'infinite') return ethers.MaxUint256;
+  if (strategy === 'capped' && cap !== undefined && cap > required) return cap;
+  return required;
+}
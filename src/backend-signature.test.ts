@@ -0,0 +1,61 @@
+import { ethers } from 'ethers';
+import { getSignedTradeHash, recoverTradeSigner, SignedTrade } from './backend-signature';
+import type { SelfExecuteBuyResponse } from './types';
+
+const backend = ethers.Wallet.createRandom();
+const buyer = '0x00000000000000000000000000000000000000bb';
+const token = '0x00000000000000000000000000000000000000aa';
+const nonce = `0x${'11'.repeat(32)}`;
+
+async function signedBuy(): Promise<{ side: 'buy'; data: SelfExecuteBuyResponse }> {
+  const data: SelfExecuteBuyResponse = {
+    signature: '0x',
+    bondingCurveAddress: '0x00000000000000000000000000000000000000cc',
+    usdcAmount: '5000000',
+    buyerAddress: buyer,
+    tokenAddress: token,
+    nonce,
+    expiry: 1700000000,
+  };
+  const hash = getSignedTradeHash({ side: 'buy', data });
+  return { side: 'buy', data: { ...data, signature: await backend.signMessage(ethers.getBytes(hash)) } };
+}
+
+describe('backend trade signatures', () => {
+  it('hashes the packed trade arguments in contract order', () => {
+    const trade: SignedTrade = {
+      side: 'sell',
+      data: {
+        signature: '0x',
+        bondingCurveAddress: '0x00000000000000000000000000000000000000cc',
+        tokenAmount: '1000',
+        sellerAddress: buyer,
+        tokenAddress: token,
+        nonce,
+        expiry: 1700000000,
+      },
+    };
+    const packed = ethers.concat([
+      ethers.toBeHex(1000, 32),
+      buyer,
+      token,
+      nonce,
+      ethers.toBeHex(1700000000, 32),
+    ]);
+    expect(getSignedTradeHash(trade)).toBe(ethers.keccak256(packed));
+  });
+
+  it('recovers the EIP-191 signer', async () => {
+    expect(recoverTradeSigner(await signedBuy())).toBe(backend.address);
+  });
+
+  it('recovers a different address when a field was changed', async () => {
+    const trade = await signedBuy();
+    expect(recoverTradeSigner({ side: 'buy', data: { ...trade.data, usdcAmount: '6000000' } })).not.toBe(backend.address);
+  });
+
+  it('returns null for a malformed signature', async () => {
+    const trade = await signedBuy();
+    expect(recoverTradeSigner({ side: 'buy', data: { ...trade.data, signature: '0x1234' } })).toBeNull();
+  });
+});
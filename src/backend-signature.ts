@@ -0,0 +1,54 @@
+/**
+ * Backend trade signatures
+ *
+ * Self-execute trades carry a signature (v, r, s) from the AgentPad backend
+ * that the bonding curve checks on-chain in
+ *
+ *   buyTokensWithUSDC(usdcAmount, buyer, tokenAddress, nonce, expiry, v, r, s)
+ *   sellTokensForUSDC(tokenAmount, seller, tokenAddress, nonce, expiry, v, r, s)
+ *
+ * The digest is assumed to be the EIP-191 (personal_sign) hash of the packed
+ * arguments in that order:
+ *
+ *   keccak256(abi.encodePacked(amount, trader, token, nonce, expiry))
+ *
+ * This is not confirmed against the deployed contract's source, so the
+ * client only checks it when a `backendSigner` is configured (and logs a
+ * warning on the first self-execute trade otherwise). If every trade
+ * then fails with INVALID_BACKEND_SIGNATURE while the contract accepts them,
+ * the contract uses a different digest.
+ */
+
+import { ethers } from 'ethers';
+import type { SelfExecuteBuyResponse, SelfExecuteSellResponse } from './types';
+
+export type SignedTrade =
+  | { side: 'buy'; data: SelfExecuteBuyResponse }
+  | { side: 'sell'; data: SelfExecuteSellResponse };
+
+/**
+ * Hash the backend signs for a self-execute trade (before the EIP-191 prefix)
+ */
+export function getSignedTradeHash(trade: SignedTrade): string {
+  const { data } = trade;
+  const amount = trade.side === 'buy' ? trade.data.usdcAmount : trade.data.tokenAmount;
+  const trader = trade.side === 'buy' ? trade.data.buyerAddress : trade.data.sellerAddress;
+  return ethers.solidityPackedKeccak256(
+    ['uint256', 'address', 'address', 'bytes32', 'uint256'],
+    [amount, trader, data.tokenAddress, data.nonce, data.expiry]
+  );
+}
+
+/**
+ * Address that signed a self-execute trade, or null if the signature is malformed
+ */
+export function recoverTradeSigner(trade: SignedTrade): string | null {
+  try {
+    return ethers.verifyMessage(
+      ethers.getBytes(getSignedTradeHash(trade)),
+      trade.data.signature
+    );
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+import { BondingCurveModel } from './bonding-curve';
+import { X402LaunchClient } from './client';
+import { CurveCompletedError, InsufficientLiquidityError } from './errors';
+import { noopLogger } from './logger';
+import { FakeLaunchServer } from './testing';
+
+describe('BondingCurveModel', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let client: X402LaunchClient;
+  let tokenAddress: string;
+  let curve: BondingCurveModel;
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer({ fees: { buy: '0' } });
+    await server.start();
+    server.fundUsdc(wallet.address, '20000000000'); // Enough to buy out the curve
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+    });
+    curve = await client.getBondingCurveModel(tokenAddress);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('quotes buys like the API', async () => {
+    for (const usdcAmount of ['1000000', '250000000', '5000000000']) {
+      const quote = await client.getBuyQuote({ tokenAddress, usdcAmount });
+
+      expect(curve.quoteBuy(usdcAmount).tokenAmount).toBe(quote.estimatedTokenAmount);
+    }
+  });
+
+  it('quotes sells like the API', async () => {
+    await client.buyTokens({ tokenAddress, usdcAmount: '500000000' });
+    curve = await client.getBondingCurveModel(tokenAddress);
+
+    for (const tokenAmount of ['10000000000000000', '1000000000000000000000', curve.tokensSold.toString()]) {
+      const quote = await client.getSellQuote({ tokenAddress, tokenAmount });
+
+      expect(curve.quoteSell(tokenAmount).usdcAmount).toBe(quote.estimatedUsdcAmount);
+    }
+  });
+
+  it('quotes a buy that follows another like the API after the first fills', async () => {
+    const next = curve.afterBuy('1000000000').quoteBuy('1000000');
+
+    await client.buyTokens({ tokenAddress, usdcAmount: '1000000000' });
+    const quote = await client.getBuyQuote({ tokenAddress, usdcAmount: '1000000' });
+
+    expect(next.tokenAmount).toBe(quote.estimatedTokenAmount);
+    expect(next.priceBefore).toBe(quote.currentPricePerToken);
+  });
+
+  it('measures price impact against the marginal price', () => {
+    const small = curve.quoteBuy('1000000');
+    const large = curve.quoteBuy('1000000000');
+    const sell = curve.afterBuy('1000000000').quoteSell(large.tokenAmount);
+
+    expect(large.priceImpactPercent).toBeCloseTo(
+      (Number(large.averagePrice) / Number(large.priceBefore) - 1) * 100,
+      4
+    );
+    expect(small.priceImpactPercent).toBeLessThan(large.priceImpactPercent);
+    expect(Number(large.priceAfter)).toBeGreaterThan(Number(large.priceBefore));
+    expect(sell.priceImpactPercent).toBeCloseTo((1 - Number(sell.averagePrice) / Number(sell.priceBefore)) * 100, 4);
+  });
+
+  it('prices a buy that reaches the requested progress', async () => {
+    const usdcAmount = curve.getUsdcToReachProgress(25);
+
+    await client.buyTokens({ tokenAddress, usdcAmount: usdcAmount.toString() });
+    const after = await client.getBondingCurveModel(tokenAddress);
+
+    expect(after.progress).toBeGreaterThanOrEqual(25);
+    expect(curve.quoteBuy(usdcAmount - BigInt(1)).progressAfter).toBeLessThan(25);
+    expect(after.getUsdcToReachProgress(25)).toBe(BigInt(0));
+  });
+
+  it('prices completion as the largest buy the curve accepts', async () => {
+    const usdcAmount = curve.getUsdcToReachProgress(100);
+
+    const result = await client.buyTokens({ tokenAddress, usdcAmount: usdcAmount.toString() });
+    const after = await client.getBondingCurveModel(tokenAddress);
+
+    expect(result.usdcPaid).toBe(usdcAmount.toString());
+    expect(after.progress).toBeGreaterThan(99.99);
+    // What is left is less than one more atomic unit of USDC buys
+    expect(() => after.quoteBuy('1')).toThrow(after.migrated ? CurveCompletedError : InsufficientLiquidityError);
+  });
+
+  it('rejects buys and sells beyond the curve liquidity like the API', async () => {
+    const tooMuch = (curve.getUsdcToReachProgress(100) * BigInt(2)).toString();
+    const unsold = '1000000000000000000';
+
+    expect(() => curve.quoteBuy(tooMuch)).toThrow(InsufficientLiquidityError);
+    expect(() => curve.quoteSell(unsold)).toThrow(InsufficientLiquidityError);
+    await expect(client.getBuyQuote({ tokenAddress, usdcAmount: tooMuch })).rejects.toMatchObject({
+      code: 'INSUFFICIENT_LIQUIDITY',
+    });
+    await expect(client.getSellQuote({ tokenAddress, tokenAmount: unsold })).rejects.toMatchObject({
+      code: 'INSUFFICIENT_LIQUIDITY',
+    });
+  });
+
+  it('refuses to quote a completed curve like the API', async () => {
+    server.completeCurve(tokenAddress);
+    const completed = await client.getBondingCurveModel(tokenAddress);
+
+    expect(completed.migrated).toBe(true);
+    expect(() => completed.quoteBuy('1000000')).toThrow(CurveCompletedError);
+    expect(() => completed.quoteSell('1')).toThrow(CurveCompletedError);
+    expect(() => completed.getUsdcToReachProgress(100)).toThrow(CurveCompletedError);
+    await expect(client.getBuyQuote({ tokenAddress, usdcAmount: '1000000' })).rejects.toMatchObject({
+      code: 'CURVE_COMPLETED',
+    });
+  });
+});
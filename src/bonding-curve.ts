@@ -0,0 +1,284 @@
+/**
+ * Bonding Curve Model
+ *
+ * Local copy of a token's bonding curve: constant product over virtual
+ * reserves (virtualUsdc * virtualTokens stays constant, rounding in favor of
+ * the curve). Built once from the curve state (see client.getBondingCurveModel),
+ * it quotes buys and sells, price impact, marginal price and the USDC needed
+ * to reach a given progress without further round trips, so an agent can size
+ * positions offline. Amounts are atomic units (tokens: 18 decimals, USDC: 6).
+ */
+
+import { ethers } from 'ethers';
+import { CurveCompletedError, InsufficientLiquidityError } from './errors';
+import type { BondingCurveState } from './types';
+
+export interface CurveBuyQuote {
+  usdcAmount: string; // USDC paid
+  tokenAmount: string; // Tokens received
+  averagePrice: string; // USDC per token for this fill
+  priceBefore: string; // Marginal price before the trade
+  priceAfter: string; // Marginal price after the trade
+  priceImpactPercent: number; // How much worse the fill is than the marginal price
+  progressAfter: number;
+}
+
+export interface CurveSellQuote {
+  tokenAmount: string; // Tokens sold
+  usdcAmount: string; // USDC received
+  averagePrice: string;
+  priceBefore: string;
+  priceAfter: string;
+  priceImpactPercent: number;
+  progressAfter: number;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const ONE_TOKEN = BigInt(10) ** BigInt(18);
+// Prices carry 18 decimals so tiny early-curve prices stay readable
+const PRICE_SCALE = BigInt(10) ** BigInt(12);
+
+export class BondingCurveModel {
+  readonly tokenAddress: string;
+  readonly virtualUsdcReserve: bigint;
+  readonly virtualTokenReserve: bigint;
+  readonly tokensSold: bigint;
+  readonly curveSupply: bigint;
+  readonly usdcRaised: bigint;
+  readonly migrated: boolean;
+
+  constructor(state: BondingCurveState) {
+    this.tokenAddress = state.tokenAddress;
+    this.virtualUsdcReserve = BigInt(state.virtualUsdcReserve);
+    this.virtualTokenReserve = BigInt(state.virtualTokenReserve);
+    this.tokensSold = BigInt(state.tokensSold);
+    this.curveSupply = BigInt(state.curveSupply);
+    this.usdcRaised = BigInt(state.usdcRaised);
+    this.migrated = state.migrated;
+
+    if (this.virtualUsdcReserve <= ZERO || this.virtualTokenReserve <= ZERO || this.curveSupply <= ZERO) {
+      throw new Error(`Invalid bonding curve state for ${state.tokenAddress}: reserves and curve supply must be positive`);
+    }
+  }
+
+  /**
+   * Current marginal price, USDC per whole token
+   */
+  get price(): string {
+    return formatCurvePrice(this.virtualUsdcReserve, this.virtualTokenReserve);
+  }
+
+  /**
+   * Share of the curve supply sold, in percent (0-100, two decimals)
+   */
+  get progress(): number {
+    return toProgress(this.tokensSold, this.curveSupply);
+  }
+
+  /**
+   * Tokens still for sale before the curve completes
+   */
+  get remainingSupply(): bigint {
+    return this.curveSupply > this.tokensSold ? this.curveSupply - this.tokensSold : ZERO;
+  }
+
+  /**
+   * Tokens received for a USDC amount
+   *
+   * @throws {CurveCompletedError} If the curve no longer trades
+   * @throws {InsufficientLiquidityError} If the buy needs more tokens than are left
+   */
+  quoteBuy(usdcAmount: string | bigint): CurveBuyQuote {
+    this.assertTradable();
+    const usdcIn = toAmount(usdcAmount, 'usdcAmount');
+    const tokensOut = this.getBuyOutput(usdcIn);
+    if (tokensOut > this.remainingSupply) {
+      throw new InsufficientLiquidityError(
+        `Insufficient liquidity: buying ${tokensOut} tokens, only ${this.remainingSupply} left on the curve`
+      );
+    }
+
+    const after = this.afterTrade(usdcIn, -tokensOut, tokensOut);
+    return {
+      usdcAmount: usdcIn.toString(),
+      tokenAmount: tokensOut.toString(),
+      averagePrice: formatCurvePrice(usdcIn, tokensOut),
+      priceBefore: this.price,
+      priceAfter: after.price,
+      // Paying usdcIn for tokensOut vs. the marginal virtualUsdc / virtualTokens
+      priceImpactPercent: impactPercent(
+        usdcIn * this.virtualTokenReserve - tokensOut * this.virtualUsdcReserve,
+        tokensOut * this.virtualUsdcReserve
+      ),
+      progressAfter: after.progress,
+    };
+  }
+
+  /**
+   * USDC received for a token amount
+   *
+   * @throws {CurveCompletedError} If the curve no longer trades
+   * @throws {InsufficientLiquidityError} If more tokens are sold than the curve has sold
+   */
+  quoteSell(tokenAmount: string | bigint): CurveSellQuote {
+    this.assertTradable();
+    const tokensIn = toAmount(tokenAmount, 'tokenAmount');
+    if (tokensIn > this.tokensSold) {
+      throw new InsufficientLiquidityError(
+        `Insufficient liquidity: selling ${tokensIn} tokens, only ${this.tokensSold} were sold by the curve`
+      );
+    }
+    const usdcOut = this.getSellOutput(tokensIn);
+
+    const after = this.afterTrade(-usdcOut, tokensIn, -tokensIn);
+    return {
+      tokenAmount: tokensIn.toString(),
+      usdcAmount: usdcOut.toString(),
+      averagePrice: formatCurvePrice(usdcOut, tokensIn),
+      priceBefore: this.price,
+      priceAfter: after.price,
+      priceImpactPercent: impactPercent(
+        tokensIn * this.virtualUsdcReserve - usdcOut * this.virtualTokenReserve,
+        tokensIn * this.virtualUsdcReserve
+      ),
+      progressAfter: after.progress,
+    };
+  }
+
+  /**
+   * USDC a buy must pay to receive at least `tokenAmount` tokens
+   */
+  getBuyCost(tokenAmount: string | bigint): bigint {
+    const tokens = toAmount(tokenAmount, 'tokenAmount');
+    if (tokens === ZERO) return ZERO;
+    if (tokens >= this.virtualTokenReserve) {
+      throw new InsufficientLiquidityError(
+        `Insufficient liquidity: the curve cannot sell ${tokens} tokens`
+      );
+    }
+    // Smallest usdcIn with virtualTokens - ceil(k / (virtualUsdc + usdcIn)) >= tokens
+    const k = this.virtualUsdcReserve * this.virtualTokenReserve;
+    return ceilDiv(k, this.virtualTokenReserve - tokens) - this.virtualUsdcReserve;
+  }
+
+  /**
+   * USDC needed to move the curve to `progress` percent (0 if already there)
+   *
+   * Never more than the curve accepts: near 100 the result is the largest buy
+   * that fits the remaining supply, which can leave a dust amount unsold.
+   *
+   * @throws {CurveCompletedError} If the curve no longer trades
+   *
+   * @example
+   * ```typescript
+   * const curve = await client.getBondingCurveModel('0x...');
+   * const toHalfway = curve.getUsdcToReachProgress(50);
+   * const toCompletion = curve.getUsdcToReachProgress(100);
+   * ```
+   */
+  getUsdcToReachProgress(progress: number): bigint {
+    if (!Number.isFinite(progress) || progress < 0 || progress > 100) {
+      throw new Error(`progress must be between 0 and 100, got ${progress}`);
+    }
+    this.assertTradable();
+    // Basis points of the curve supply, rounded up so the target is reached
+    const target = ceilDiv(this.curveSupply * BigInt(Math.round(progress * 100)), BigInt(10000));
+    if (target <= this.tokensSold) return ZERO;
+
+    let cost = this.getBuyCost(target - this.tokensSold);
+    // Tokens come in whole steps of the price, so the last one can overshoot
+    while (cost > ZERO && this.getBuyOutput(cost) > this.remainingSupply) cost--;
+    return cost;
+  }
+
+  /**
+   * The curve after a buy, to quote trades that follow it
+   */
+  afterBuy(usdcAmount: string | bigint): BondingCurveModel {
+    const quote = this.quoteBuy(usdcAmount);
+    const tokensOut = BigInt(quote.tokenAmount);
+    return this.afterTrade(BigInt(quote.usdcAmount), -tokensOut, tokensOut);
+  }
+
+  /**
+   * The curve after a sell, to quote trades that follow it
+   */
+  afterSell(tokenAmount: string | bigint): BondingCurveModel {
+    const quote = this.quoteSell(tokenAmount);
+    const tokensIn = BigInt(quote.tokenAmount);
+    return this.afterTrade(-BigInt(quote.usdcAmount), tokensIn, -tokensIn);
+  }
+
+  toState(): BondingCurveState {
+    return {
+      tokenAddress: this.tokenAddress,
+      virtualUsdcReserve: this.virtualUsdcReserve.toString(),
+      virtualTokenReserve: this.virtualTokenReserve.toString(),
+      tokensSold: this.tokensSold.toString(),
+      curveSupply: this.curveSupply.toString(),
+      usdcRaised: this.usdcRaised.toString(),
+      migrated: this.migrated,
+    };
+  }
+
+  private getBuyOutput(usdcIn: bigint): bigint {
+    const k = this.virtualUsdcReserve * this.virtualTokenReserve;
+    return this.virtualTokenReserve - ceilDiv(k, this.virtualUsdcReserve + usdcIn);
+  }
+
+  private getSellOutput(tokensIn: bigint): bigint {
+    const k = this.virtualUsdcReserve * this.virtualTokenReserve;
+    return this.virtualUsdcReserve - ceilDiv(k, this.virtualTokenReserve + tokensIn);
+  }
+
+  private afterTrade(usdcDelta: bigint, tokenDelta: bigint, soldDelta: bigint): BondingCurveModel {
+    const tokensSold = this.tokensSold + soldDelta;
+    return new BondingCurveModel({
+      tokenAddress: this.tokenAddress,
+      virtualUsdcReserve: (this.virtualUsdcReserve + usdcDelta).toString(),
+      virtualTokenReserve: (this.virtualTokenReserve + tokenDelta).toString(),
+      tokensSold: tokensSold.toString(),
+      curveSupply: this.curveSupply.toString(),
+      usdcRaised: (this.usdcRaised + usdcDelta).toString(),
+      migrated: this.migrated || tokensSold >= this.curveSupply,
+    });
+  }
+
+  private assertTradable(): void {
+    if (this.migrated) {
+      throw new CurveCompletedError(`Bonding curve of ${this.tokenAddress} is complete; the token has migrated`);
+    }
+  }
+}
+
+/**
+ * USDC per whole token (decimal string) from atomic USDC and token amounts,
+ * at 18 decimals
+ */
+export function formatCurvePrice(usdcAmount: bigint, tokenAmount: bigint): string {
+  if (tokenAmount === ZERO) return '0';
+  return ethers.formatUnits((usdcAmount * ONE_TOKEN * PRICE_SCALE) / tokenAmount, 18);
+}
+
+function toProgress(tokensSold: bigint, curveSupply: bigint): number {
+  return Number((tokensSold * BigInt(10000)) / curveSupply) / 100;
+}
+
+function impactPercent(numerator: bigint, denominator: bigint): number {
+  if (denominator === ZERO) return 0;
+  // Four decimals of a percent
+  return Number((numerator * BigInt(1000000)) / denominator) / 10000;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - ONE) / b;
+}
+
+function toAmount(value: string | bigint, field: string): bigint {
+  const amount = BigInt(value);
+  if (amount < ZERO) {
+    throw new Error(`${field} must not be negative`);
+  }
+  return amount;
+}
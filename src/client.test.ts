@@ -0,0 +1,644 @@
+import { ethers } from 'ethers';
+import { X402LaunchClient } from './client';
+import { erc20Interface } from './contracts';
+import {
+  ApiSchemaError,
+  InsufficientLiquidityError,
+  NetworkError,
+  SlippageExceededError,
+  TransactionRevertedError,
+  UnknownFillError,
+} from './errors';
+import { noopLogger } from './logger';
+import type { ClientMiddleware } from './middleware';
+import { getNetwork } from './networks';
+import { InMemoryOperationStorage, OperationJournal } from './operation-journal';
+import { PaymentPolicy } from './payment-policy';
+import { FakeLaunchServer } from './testing';
+import type { ClientConfig } from './types';
+
+const RECEIPT_HASH = `0x${'ab'.repeat(32)}`;
+
+function transferLog(token: string, from: string, to: string, value: bigint) {
+  return { address: token, ...erc20Interface.encodeEventLog('Transfer', [from, to, value]) };
+}
+
+function receiptWith(logs: Array<ReturnType<typeof transferLog>>): ethers.TransactionReceipt {
+  return {
+    hash: RECEIPT_HASH,
+    blockNumber: 2,
+    gasUsed: BigInt(100000),
+    gasPrice: BigInt(1000000),
+    fee: BigInt(100000000000),
+    logs,
+  } as unknown as ethers.TransactionReceipt;
+}
+
+describe('X402LaunchClient simulation', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let client: X402LaunchClient;
+  let tokenAddress: string;
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer({ fees: { buy: '20000', launch: '1000000' } });
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('asks the write endpoint for its fee without paying', async () => {
+    const result = await client.buyTokens({ tokenAddress, usdcAmount: '5000000', simulate: true });
+
+    expect(result.success).toBe(true);
+    expect(result.expectedTokenAmount).toBeDefined();
+    expect(result.x402Fee).toMatchObject({ amount: '20000', payTo: server.backendAddress });
+    expect(server.trades).toHaveLength(0);
+    expect(server.payments).toHaveLength(0);
+  });
+
+  it('reports the fee of launches and self-execute trades before the first call', async () => {
+    const launch = await client.launchToken({
+      name: 'Moon',
+      ticker: 'MOON',
+      description: 'A token for the tests',
+      image: 'https://example.com/moon.png',
+      simulate: true,
+    });
+    const selfExecute = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', simulate: true });
+
+    expect(launch.x402Fee).toMatchObject({ amount: '1000000' });
+    expect(selfExecute.x402Fee).toMatchObject({ amount: '10000' });
+    expect(server.payments).toHaveLength(0);
+  });
+
+  it('reports the fee of the last 402 response without the buy amount', async () => {
+    await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+    const result = await client.buyTokens({ tokenAddress, usdcAmount: '1000000', simulate: true });
+
+    expect(result.x402Fee).toMatchObject({ amount: '20000', payTo: server.backendAddress });
+    expect(server.trades).toHaveLength(1);
+  });
+
+  it('reports no fee for gasless sells', async () => {
+    await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+    const result = await client.sellTokens({ tokenAddress, tokenAmount: '1000000000000000000', simulate: true });
+
+    expect(result.success).toBe(true);
+    expect(result.expectedUsdcAmount).toBeDefined();
+    expect(result.x402Fee).toBeUndefined();
+  });
+});
+
+describe('X402LaunchClient payment policy', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const HOUR_MS = 60 * 60 * 1000;
+  let server: FakeLaunchServer;
+  let policy: PaymentPolicy;
+  let client: X402LaunchClient;
+  let tokenAddress: string;
+  let usdc: string;
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer();
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+    usdc = getNetwork(server.chainId).usdc.address;
+    policy = new PaymentPolicy({ hourlyCap: '50000000' });
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+      paymentPolicy: policy,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('counts the payments of requests that succeeded', async () => {
+    await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+    expect(policy.getSpent(usdc, HOUR_MS)).toBe(BigInt(5010000));
+  });
+
+  it('releases the payment of a request the server rejected', async () => {
+    const launch = client.launchToken({
+      name: 'Moon',
+      ticker: 'MOON',
+      description: 'A token for the tests',
+      image: 'https://example.com/moon.png',
+      initialSupply: '1000000000000000000',
+    });
+    server.completeCurve(tokenAddress);
+    const buy = client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+    await expect(launch).resolves.toBeDefined();
+    await expect(buy).rejects.toMatchObject({ code: 'CURVE_COMPLETED' });
+    expect(server.payments).toHaveLength(1);
+    expect(policy.getSpent(usdc, HOUR_MS)).toBe(BigInt(1000000));
+  });
+});
+
+describe('X402LaunchClient API errors', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let client: X402LaunchClient;
+  let tokenAddress: string;
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer();
+    await server.start();
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('types relayed reverts of gasless trades', async () => {
+    server.fundUsdc(wallet.address, '100000000000');
+    const buy = client.buyTokens({ tokenAddress, usdcAmount: '90000000000' });
+
+    await expect(buy).rejects.toBeInstanceOf(InsufficientLiquidityError);
+  });
+
+  it('keeps the API error of other endpoints', async () => {
+    const quote = client.getSellQuote({ tokenAddress, tokenAmount: '1000000000000000000' });
+
+    await expect(quote).rejects.not.toBeInstanceOf(TransactionRevertedError);
+    await expect(quote).rejects.toMatchObject({ code: 'INSUFFICIENT_LIQUIDITY' });
+  });
+});
+
+describe('X402LaunchClient idempotency', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let tokenAddress: string;
+
+  function createClient(config: Partial<ClientConfig> = {}): X402LaunchClient {
+    return new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+      ...config,
+    });
+  }
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer();
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('answers a reused key with the first result without paying again', async () => {
+    const client = createClient();
+    const first = await client.buyTokens({ tokenAddress, usdcAmount: '5000000', idempotencyKey: 'k1' });
+
+    const second = await client.buyTokens({ tokenAddress, usdcAmount: '5000000', idempotencyKey: 'k1' });
+
+    expect(second).toEqual(first);
+    expect(server.trades).toHaveLength(1);
+    expect(server.payments).toHaveLength(1);
+    expect(await client.operations.get('k1')).toMatchObject({
+      status: 'completed',
+      transactionHash: first.transactionHash,
+    });
+  });
+
+  it('reuses the key of a self-execute request', async () => {
+    const client = createClient();
+    const first = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', idempotencyKey: 'k2' });
+
+    const second = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', idempotencyKey: 'k2' });
+
+    expect(second).toEqual(first);
+    expect(server.payments).toHaveLength(1);
+    expect(await client.operations.get('k2')).toMatchObject({ status: 'completed', endpoint: '/tokens/buy/self-execute' });
+  });
+
+  it('returns the landed result when the response of a write is lost', async () => {
+    let dropped = false;
+    // Deliver the paid request, then fail as if the connection dropped before the response
+    const dropResponse: ClientMiddleware = {
+      async beforeRequest(context) {
+        if (dropped || !context.paymentAttached) return;
+        dropped = true;
+        await fetch(context.url, {
+          method: context.method,
+          headers: { ...context.headers, 'Content-Type': 'application/json' },
+          body: JSON.stringify(context.body),
+        });
+        throw new NetworkError('socket hang up');
+      },
+    };
+    const client = createClient({ middleware: [dropResponse] });
+
+    const result = await client.buyTokens({ tokenAddress, usdcAmount: '5000000', idempotencyKey: 'k1' });
+
+    expect(result.transactionHash).toBe(server.trades[0].transactionHash);
+    expect(server.trades).toHaveLength(1);
+    expect(server.payments).toHaveLength(1);
+    expect(await client.operations.get('k1')).toMatchObject({ status: 'completed', attempts: 2 });
+  }, 10000);
+
+  it('reconciles operations left pending by a restart', async () => {
+    const storage = new InMemoryOperationStorage();
+    const landed = await createClient().buyTokens({
+      tokenAddress,
+      usdcAmount: '5000000',
+      idempotencyKey: 'k1',
+    });
+    // The process died after sending k1 and before sending k2
+    const journal = new OperationJournal(storage);
+    for (const key of ['k1', 'k2']) {
+      await journal.begin({ idempotencyKey: key, method: 'POST', endpoint: '/tokens/buy', category: 'trade' });
+    }
+
+    const operations = await createClient({ operationJournal: storage }).reconcileOperations();
+
+    expect(operations).toEqual([
+      expect.objectContaining({ idempotencyKey: 'k1', status: 'completed', transactionHash: landed.transactionHash }),
+      expect.objectContaining({ idempotencyKey: 'k2', status: 'pending' }),
+    ]);
+    expect(server.trades).toHaveLength(1);
+  });
+});
+
+describe('X402LaunchClient slippage', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const other = ethers.Wallet.createRandom();
+  const ONE_TOKEN = BigInt('1000000000000000000');
+  let server: FakeLaunchServer;
+  let tokenAddress: string;
+
+  function createClient(signer: { privateKey: string }, config: Partial<ClientConfig> = {}): X402LaunchClient {
+    return new X402LaunchClient({
+      wallet: { privateKey: signer.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+      maxSellChunk: (ONE_TOKEN * BigInt(1000000)).toString(), // Sell in one request
+      ...config,
+    });
+  }
+
+  /**
+   * Run a trade by another wallet right before the first request to `endpoint`
+   */
+  function frontRun(endpoint: string, trade: () => Promise<unknown>): ClientMiddleware {
+    let done = false;
+    return {
+      async beforeRequest(context) {
+        if (done || context.method !== 'POST' || context.endpoint !== endpoint) return;
+        if (endpoint === '/tokens/buy' && !context.paymentAttached) return;
+        done = true;
+        await trade();
+      },
+    };
+  }
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer({ fees: { buy: '0' } });
+    await server.start();
+    server.fundUsdc(wallet.address, '1000000000');
+    server.fundUsdc(other.address, '1000000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('gasless trades', () => {
+    it('refuses a buy whose quote is below the minimum', async () => {
+      const buy = createClient(wallet).buyTokens({ tokenAddress, usdcAmount: '5000000', minTokensOut: (ONE_TOKEN * BigInt(1000000)).toString() });
+
+      await expect(buy).rejects.toMatchObject({ stage: 'quote', side: 'buy' });
+      expect(server.trades).toHaveLength(0);
+    });
+
+    it('reports a buy filled below the limit after the trade', async () => {
+      const client = createClient(wallet, {
+        middleware: [frontRun('/tokens/buy', () => createClient(other).buyTokens({ tokenAddress, usdcAmount: '500000000' }))],
+      });
+
+      const error = await client.buyTokens({ tokenAddress, usdcAmount: '5000000', maxSlippageBps: 10 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SlippageExceededError);
+      expect(error).toMatchObject({ stage: 'fill', side: 'buy', transactionHash: server.trades[server.trades.length - 1].transactionHash });
+    });
+
+    it('refuses a sell whose quote is below the minimum', async () => {
+      const client = createClient(wallet);
+      const { tokenAmount } = await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+      const sell = client.sellTokens({ tokenAddress, tokenAmount, minUsdcOut: '5000000000' });
+
+      await expect(sell).rejects.toMatchObject({ stage: 'quote', side: 'sell' });
+      expect(server.trades).toHaveLength(1);
+    });
+
+    it('reports a sell filled below the limit after the trade', async () => {
+      const { tokenAmount: otherTokens } = await createClient(other).buyTokens({ tokenAddress, usdcAmount: '500000000' });
+      const client = createClient(wallet, {
+        middleware: [frontRun('/tokens/sell', () => createClient(other).sellTokens({ tokenAddress, tokenAmount: otherTokens }))],
+      });
+      const { tokenAmount } = await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+
+      const error = await client.sellTokens({ tokenAddress, tokenAmount, maxSlippageBps: 10 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SlippageExceededError);
+      expect(error).toMatchObject({ stage: 'fill', side: 'sell', transactionHash: server.trades[server.trades.length - 1].transactionHash });
+    });
+  });
+
+  describe('self-execute trades', () => {
+    let client: X402LaunchClient;
+    let send: jest.SpyInstance;
+    let usdc: string;
+
+    beforeEach(() => {
+      client = createClient(wallet);
+      usdc = getNetwork(server.chainId).usdc.address;
+      // No chain behind the fake server: approvals are skipped and the trade gets a scripted receipt
+      jest
+        .spyOn(client as unknown as { ensureAllowance(): Promise<void> }, 'ensureAllowance')
+        .mockResolvedValue(undefined);
+      send = jest.spyOn(client['transactions'], 'send');
+    });
+
+    it('refuses to request a signature when the quote is below the minimum', async () => {
+      const request = client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', minTokensOut: (ONE_TOKEN * BigInt(1000000)).toString() });
+
+      await expect(request).rejects.toMatchObject({ stage: 'quote', side: 'buy' });
+      expect(server.payments).toHaveLength(0);
+    });
+
+    it('carries the slippage limit to the buy and checks the fill', async () => {
+      const quoted = BigInt((await client.getBuyQuote({ tokenAddress, usdcAmount: '5000000' })).estimatedTokenAmount);
+      const signed = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', maxSlippageBps: 100 });
+      const curve = signed.bondingCurveAddress;
+
+      expect(signed.minTokensOut).toBe(((quoted * BigInt(9900)) / BigInt(10000)).toString());
+      send.mockResolvedValueOnce(
+        receiptWith([transferLog(usdc, wallet.address, curve, BigInt(5000000)), transferLog(tokenAddress, curve, wallet.address, quoted / BigInt(2))])
+      );
+      await expect(client.executeBuyTransaction(signed)).rejects.toMatchObject({
+        stage: 'fill',
+        minimumOut: signed.minTokensOut,
+        actualOut: (quoted / BigInt(2)).toString(),
+        transactionHash: RECEIPT_HASH,
+      });
+    });
+
+    it('returns a buy filled within the limit', async () => {
+      const signed = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000', maxSlippageBps: 100 });
+      const tokens = BigInt(signed.minTokensOut!);
+      send.mockResolvedValueOnce(
+        receiptWith([
+          transferLog(usdc, wallet.address, signed.bondingCurveAddress, BigInt(5000000)),
+          transferLog(tokenAddress, signed.bondingCurveAddress, wallet.address, tokens),
+        ])
+      );
+
+      const result = await client.executeBuyTransaction(signed);
+
+      expect(result).toMatchObject({ tokenAmount: tokens.toString(), usdcPaid: '5000000', fillSource: 'transfer' });
+    });
+
+    it('carries the slippage limit to the sell and checks the fill', async () => {
+      await client.buyTokens({ tokenAddress, usdcAmount: '5000000' });
+      const tokenAmount = ONE_TOKEN.toString();
+      const quoted = BigInt((await client.getSellQuote({ tokenAddress, tokenAmount })).estimatedUsdcAmount);
+      const signed = await client.sellTokensSelfExecute({ tokenAddress, tokenAmount, maxSlippageBps: 100 });
+
+      expect(signed.minUsdcOut).toBe(((quoted * BigInt(9900)) / BigInt(10000)).toString());
+      send.mockResolvedValueOnce(
+        receiptWith([
+          transferLog(tokenAddress, wallet.address, signed.bondingCurveAddress, ONE_TOKEN),
+          transferLog(usdc, signed.bondingCurveAddress, wallet.address, quoted / BigInt(2)),
+        ])
+      );
+      await expect(client.executeSellTransaction(signed)).rejects.toMatchObject({
+        stage: 'fill',
+        side: 'sell',
+        actualOut: (quoted / BigInt(2)).toString(),
+        transactionHash: RECEIPT_HASH,
+      });
+    });
+
+    it('warns once when the backend signer is not checked', async () => {
+      const warn = jest.fn();
+      client['logger'] = { ...noopLogger, warn };
+      const fill = (signed: { bondingCurveAddress: string; minTokensOut?: string }) =>
+        receiptWith([
+          transferLog(usdc, wallet.address, signed.bondingCurveAddress, BigInt(1000000)),
+          transferLog(tokenAddress, signed.bondingCurveAddress, wallet.address, ONE_TOKEN),
+        ]);
+
+      for (let i = 0; i < 2; i++) {
+        const signed = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '1000000' });
+        send.mockResolvedValueOnce(fill(signed));
+        await client.executeBuyTransaction(signed);
+      }
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toMatch(/NOT verified/);
+    });
+
+    it('checks the signer when backendSigner is set', async () => {
+      const checked = createClient(wallet, { backendSigner: server.backendAddress });
+      const spoofed = createClient(wallet, { backendSigner: other.address });
+      for (const c of [checked, spoofed]) {
+        jest.spyOn(c as unknown as { ensureAllowance(): Promise<void> }, 'ensureAllowance').mockResolvedValue(undefined);
+      }
+      const signed = await checked.buyTokensSelfExecute({ tokenAddress, usdcAmount: '1000000' });
+      jest.spyOn(checked['transactions'], 'send').mockResolvedValueOnce(
+        receiptWith([
+          transferLog(usdc, wallet.address, signed.bondingCurveAddress, BigInt(1000000)),
+          transferLog(tokenAddress, signed.bondingCurveAddress, wallet.address, ONE_TOKEN),
+        ])
+      );
+
+      await expect(spoofed.executeBuyTransaction(signed)).rejects.toMatchObject({ code: 'INVALID_BACKEND_SIGNATURE' });
+      await expect(checked.executeBuyTransaction(signed)).resolves.toMatchObject({ tokenAmount: ONE_TOKEN.toString() });
+    });
+
+    it('fails instead of reporting an empty fill when the receipt shows none', async () => {
+      const signed = await client.buyTokensSelfExecute({ tokenAddress, usdcAmount: '5000000' });
+      send.mockResolvedValueOnce(receiptWith([]));
+
+      const error = await client.executeBuyTransaction(signed).catch((e) => e);
+
+      expect(error).toBeInstanceOf(UnknownFillError);
+      expect(error).toMatchObject({ code: 'FILL_UNKNOWN', transactionHash: RECEIPT_HASH });
+    });
+  });
+});
+
+describe('X402LaunchClient chunked sells', () => {
+  const wallet = ethers.Wallet.createRandom();
+  const TOKENS = BigInt('1000000000000000000');
+  const CHUNK = TOKENS * BigInt(1000);
+  let server: FakeLaunchServer;
+  let client: X402LaunchClient;
+  let tokenAddress: string;
+
+  const sells = () => server.trades.filter((trade) => trade.side === 'sell');
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer({ fees: { buy: '0' } });
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+      maxSellChunk: CHUNK.toString(),
+    });
+    await client.buyTokens({ tokenAddress, usdcAmount: '5000000' }); // About 16,600 tokens
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('splits a sell above the chunk limit into even chunks', async () => {
+    const tokenAmount = CHUNK * BigInt(5) / BigInt(2) + BigInt(1);
+
+    const result = await client.sellTokens({ tokenAddress, tokenAmount: tokenAmount.toString() });
+
+    const base = tokenAmount / BigInt(3);
+    expect(result.chunks!.map((chunk) => chunk.tokenAmount)).toEqual(
+      [base + BigInt(1), base + BigInt(1), base].map(String)
+    );
+    expect(sells().map((trade) => trade.tokenAmount)).toEqual(result.chunks!.map((chunk) => chunk.tokenAmount));
+    const received = result.chunks!.reduce((sum, chunk) => sum + BigInt(chunk.usdcReceived!), BigInt(0));
+    expect(result).toMatchObject({
+      tokenAmount: tokenAmount.toString(),
+      requestedTokenAmount: tokenAmount.toString(),
+      usdcReceived: received.toString(),
+      transactionHash: sells()[2].transactionHash,
+      partialFill: false,
+    });
+    expect(result.chunks!.every((chunk) => chunk.success && chunk.quotedUsdcAmount === chunk.usdcReceived)).toBe(true);
+  });
+
+  it('sells an amount within the limit in one request', async () => {
+    const result = await client.sellTokens({ tokenAddress, tokenAmount: CHUNK.toString() });
+
+    expect(result.chunks).toBeUndefined();
+    expect(sells()).toHaveLength(1);
+  });
+
+  it('gives every chunk its own idempotency key', async () => {
+    const params = { tokenAddress, tokenAmount: (CHUNK * BigInt(2)).toString(), idempotencyKey: 'sell-1' };
+    const first = await client.sellTokens(params);
+
+    const retry = await client.sellTokens(params);
+
+    for (const key of ['sell-1:0', 'sell-1:1']) {
+      expect(await client.operations.get(key)).toMatchObject({ status: 'completed', endpoint: '/tokens/sell' });
+    }
+    expect(await client.operations.get('sell-1')).toBeUndefined();
+    expect(sells()).toHaveLength(2);
+    expect(retry.chunks!.map((chunk) => chunk.transactionHash)).toEqual(first.chunks!.map((chunk) => chunk.transactionHash));
+  });
+
+  it('stops with a partial fill when a chunk quotes below its share of minUsdcOut', async () => {
+    const tokenAmount = (CHUNK * BigInt(2)).toString();
+    // Met by the whole sell, but the second chunk sells lower on the curve than the first
+    const { estimatedUsdcAmount } = await client.getSellQuote({ tokenAddress, tokenAmount });
+
+    const result = await client.sellTokens({ tokenAddress, tokenAmount, minUsdcOut: estimatedUsdcAmount });
+
+    expect(sells()).toHaveLength(1);
+    expect(result).toMatchObject({
+      tokenAmount: CHUNK.toString(),
+      requestedTokenAmount: tokenAmount,
+      usdcReceived: sells()[0].usdcAmount,
+      partialFill: true,
+      error: expect.stringMatching(/^Chunk 2\/2 failed: Slippage/),
+    });
+    expect(result.chunks![1]).toMatchObject({ success: false, error: expect.stringMatching(/^Slippage/) });
+    expect(BigInt(result.chunks![1].quotedUsdcAmount!)).toBeLessThan(BigInt(estimatedUsdcAmount) / BigInt(2));
+  });
+});
+
+describe('X402LaunchClient portfolio', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let client: X402LaunchClient;
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer({ fees: { buy: '0' } });
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    client = new X402LaunchClient({
+      wallet: { privateKey: wallet.privateKey },
+      baseUrl: server.url,
+      rpcUrl: server.rpcUrl,
+      logger: noopLogger,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('keeps a holding whose token info is malformed and reports why', async () => {
+    const good = server.createToken({ name: 'Good', ticker: 'GOOD' }).address;
+    const broken = server.createToken({ name: 'Broken', ticker: 'BRKN' }).address;
+    await client.buyTokens({ tokenAddress: good, usdcAmount: '5000000' });
+    await client.buyTokens({ tokenAddress: broken, usdcAmount: '1000000' });
+    const getTokenInfo = client.getTokenInfo.bind(client);
+    jest.spyOn(client, 'getTokenInfo').mockImplementation(async (tokenAddress) => {
+      if (tokenAddress !== broken) return getTokenInfo(tokenAddress);
+      throw new ApiSchemaError('GET /tokens/:address', [{ field: 'price', message: 'Required' }]);
+    });
+
+    const portfolio = await client.getPortfolio({ tokens: [good, broken, ethers.Wallet.createRandom().address] });
+
+    expect(portfolio.holdings).toHaveLength(2);
+    expect(portfolio.holdings[0]).toMatchObject({ tokenAddress: good, ticker: 'GOOD' });
+    expect(portfolio.holdings[0].infoError).toBeUndefined();
+    expect(portfolio.holdings[1]).toMatchObject({
+      tokenAddress: broken,
+      name: 'Broken',
+      ticker: 'BRKN',
+      migrated: false,
+      infoError: expect.stringContaining('price: Required'),
+      estimatedUsdcValue: expect.any(String),
+    });
+  });
+});
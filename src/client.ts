@@ -6,8 +6,9 @@
  * type-safe methods for all platform operations.
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import { ethers } from "ethers";
+import { z } from "zod";
 import {
   ClientConfig,
   LaunchTokenParams,
@@ -16,10 +17,27 @@ import {
   BuyTokensResponse,
   SellTokensParams,
   SellTokensResponse,
+  SellChunkResult,
   TokenInfo,
+  TokenDiscoveryFilter,
+  DiscoverTokensOptions,
+  Portfolio,
+  PortfolioHolding,
+  PortfolioOptions,
+  TradeHistoryQuery,
+  TradeRecord,
+  SelfExecuteBuyResult,
+  SelfExecuteSellResult,
+  RevokeAllowancesOptions,
+  RevokedAllowance,
+  SimulatedPaymentFee,
+  SimulationResult,
+  SelfExecuteReceiptInfo,
   QuoteParams,
   BuyQuote,
   SellQuote,
+  BondingCurveQuery,
+  BondingCurveState,
   RegisterAgentParams,
   AgentRegistrationResponse,
   HostedAgentStatus,
@@ -31,44 +49,247 @@ import {
 import {
   X402LaunchError,
   PaymentRequiredError,
+  X402PaymentRequirements,
   RateLimitError,
   NetworkError,
+  SellExecutionError,
+  SellStep,
+  SlippageExceededError,
+  UnknownFillError,
+  SignatureExpiredError,
+  NonceUsedError,
+  OperationLandedError,
+  OperationPendingError,
 } from "./errors";
 import {
-  createX402PaymentHeader,
-  extractPaymentRequirements,
-  X402PaymentConfig,
+  extractPaymentOptions,
+  recordPaymentOutcome,
+  signPaymentRequirements,
+  X402PaymentGuards,
+  X402SignedPayment,
 } from "./payment";
-
-// USDC addresses by chain ID
-const USDC_ADDRESSES: Record<number, string> = {
-  84532: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", // Base Sepolia
-  8453: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", // Base Mainnet
-};
+import { PaymentLedger, resolvePaymentLedger } from "./payment-ledger";
+import {
+  OperationJournal,
+  OperationRecord,
+  createIdempotencyKey,
+  resolveOperationJournal,
+} from "./operation-journal";
+import {
+  ResponseValidationMode,
+  agentRegistrationResponseSchema,
+  backendAddressSchema,
+  bondingCurveStateSchema,
+  buyQuoteSchema,
+  buyTokensResponseSchema,
+  hostedAgentControlResponseSchema,
+  hostedAgentStatusSchema,
+  imageUploadResponseSchema,
+  launchTokenResponseSchema,
+  selfExecuteBuyResponseSchema,
+  selfExecuteSellResponseSchema,
+  sellQuoteSchema,
+  sellTokensResponseSchema,
+  tradeHistoryResponseSchema,
+  apiTradeEntrySchema,
+  operationStatusResponseSchema,
+  tokenInfoSchema,
+  tokenListSchema,
+  validateListItems,
+  validateResponse,
+} from "./schemas";
+import { DEFAULT_CHAIN_ID, getNetwork } from "./networks";
+import { matchesTokenFilter, toDiscoveryQuery, toUnixMs } from "./discovery";
+import { MarketEventStream, SubscribeOptions } from "./events";
+import {
+  ClientMiddleware,
+  HttpMethod,
+  RequestContext,
+  runAfterRequest,
+  runBeforeRequest,
+} from "./middleware";
+import { RobustProvider } from "./agent/rpc-provider";
+import {
+  BondingCurveTrade,
+  ERC20_ABI,
+  ReceiptFill,
+  bondingCurveStateInterface,
+  decodeTradeFill,
+  getBondingCurveTrades,
+  getLogsInRange,
+  getWalletTransferLogs,
+  parseBondingCurveTrade,
+} from "./contracts";
+import {
+  CostBasisMethod,
+  CostBasisReport,
+  computeCostBasis,
+  pricePerToken,
+} from "./cost-basis";
+import {
+  PaymentCategory,
+  PaymentPolicy,
+  resolvePaymentPolicy,
+} from "./payment-policy";
+import { AgentPadSigner, resolveSigner } from "./signer";
+import { TransactionManager } from "./transaction-manager";
+import { SignedTrade, recoverTradeSigner } from "./backend-signature";
+import { decodeApiRevert } from "./revert-decoder";
+import { BondingCurveModel } from "./bonding-curve";
+import {
+  ImageStorageAdapter,
+  LaunchImageFile,
+  loadLaunchImage,
+  validateLaunchParams,
+} from "./launch-metadata";
+import { Logger, noopLogger } from "./logger";
+import {
+  ALLOWANCE_ABI,
+  APPROVAL_TOPIC,
+  AllowanceStrategy,
+  allowanceInterface,
+  getApprovalAmount,
+} from "./allowance";
+
+// Facilitator limit for a single gasless sell (token atomic units)
+const FACILITATOR_SELL_LIMIT = BigInt("999999999999999999");
+
+// Default cache lifetime for the backend signer address used as sell recipient
+const BACKEND_ADDRESS_TTL_MS = 10 * 60 * 1000;
+
+const BONDING_CURVE_TRADE_INTERFACE = new ethers.Interface([
+  "function buyTokensWithUSDC(uint256 usdcAmount, address buyer, address tokenAddress, bytes32 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) external returns (uint256)",
+  "function sellTokensForUSDC(uint256 tokenAmount, address seller, address tokenAddress, bytes32 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) external returns (uint256)",
+  "function usedNonces(bytes32 nonce) view returns (bool)",
+]);
+
+// A signed trade must stay valid this long after broadcast to have time to confirm
+const MIN_EXPIRY_BUFFER_SECONDS = 60;
+
+// Log scans without a start block look back ~23 days of Base blocks (2s)
+const DEFAULT_LOOKBACK_BLOCKS = 1000000;
+
+// Writes whose response was lost are looked up this far back on-chain (~1 hour of Base blocks)
+const OPERATION_LOOKBACK_BLOCKS = 1800;
+
+// What became of a write whose response was lost
+type OperationOutcome<T> =
+  | { status: "completed"; result: T }
+  | { status: "landed"; transactionHash: string } // Found on-chain, response unavailable
+  | { status: "pending" }
+  | { status: "failed" }
+  | { status: "unknown" };
+
+// Minimum sellable amount - amounts smaller than this would return 0 USDC and revert
+// Set to 0.01 tokens (1e16 wei) to avoid bonding curve rounding to 0
+const MIN_SELL_AMOUNT = BigInt("10000000000000000"); // 0.01 tokens
 
 export class X402LaunchClient {
   private api: AxiosInstance;
-  private wallet: ethers.Wallet;
+  private middleware: ClientMiddleware[];
+  private responseValidation: ResponseValidationMode;
+  private imageStorage?: ImageStorageAdapter;
+  private signer: AgentPadSigner;
+  private walletAddress: string;
   private provider: ethers.Provider;
+  private rpcUrl: string;
+  private robustProvider?: RobustProvider;
   private chainId: number;
   private network: string;
   private usdcAddress: string;
   private executionMode: ExecutionMode;
+  private paymentPolicy?: PaymentPolicy;
+  private maxSellChunk: bigint;
+  private backendAddressTtlMs: number;
+  private backendAddressCache?: { address: string; expiresAt: number };
+  private maxSlippageBps?: number;
+  private allowanceStrategy: AllowanceStrategy;
+  private allowanceCap?: bigint;
+  private approvedSpenders = new Set<string>();
+  private backendSigner?: string;
+  private warnedUncheckedSigner = false;
+  private minExpiryBufferSeconds: number;
+  private usedTradeNonces = new Set<string>();
+  private paymentFees = new Map<string, SimulatedPaymentFee>(); // By endpoint, from past 402 responses
+  private rootLogger: Logger;
+  private logger: Logger;
+
+  /**
+   * Ledger of every x402 payment signed by this client
+   *
+   * @example
+   * ```typescript
+   * const payments = await client.payments.list({ since: Date.now() - 86400_000 });
+   * const perEndpoint = await client.payments.totals();
+   * ```
+   */
+  readonly payments: PaymentLedger;
+
+  /**
+   * Journal of API writes by idempotency key, pending until their outcome is known
+   *
+   * @example
+   * ```typescript
+   * const unresolved = await client.operations.list({ status: 'pending' });
+   * ```
+   */
+  readonly operations: OperationJournal;
+
+  /**
+   * Sends every on-chain write (approvals, self-execute trades) with nonce
+   * management, capped EIP-1559 fees, timeouts and speed-ups
+   */
+  readonly transactions: TransactionManager;
 
   constructor(config: ClientConfig) {
-    // Default values - users only need to provide private key
+    // Default values - users only need to provide a private key or signer
     const baseUrl = config.baseUrl || "https://api.launch.x402agentpad.io";
+    this.rootLogger = config.logger || noopLogger;
+    this.logger = this.rootLogger.child({ component: "SDK" });
+
+    const { signer, address } = resolveSigner(config.wallet);
+    this.signer = signer;
+    this.walletAddress = address;
+
+    // Resolve chain from the network registry (throws on unknown chains)
+    this.chainId = config.chainId || DEFAULT_CHAIN_ID; // Base Sepolia default
+    const networkDefinition = getNetwork(this.chainId);
+    const rpcUrl = config.rpcUrl || networkDefinition.rpcUrls[0];
+    this.rpcUrl = rpcUrl;
+    this.network = config.network || networkDefinition.name;
+    this.executionMode = config.executionMode || "gasless"; // Default to gasless
+    this.paymentPolicy = resolvePaymentPolicy(config.paymentPolicy);
+    this.payments = resolvePaymentLedger(config.paymentLedger);
+    this.operations = resolveOperationJournal(config.operationJournal);
+    this.maxSellChunk = config.maxSellChunk
+      ? BigInt(config.maxSellChunk)
+      : FACILITATOR_SELL_LIMIT;
+    if (this.maxSellChunk < MIN_SELL_AMOUNT) {
+      throw new X402LaunchError(
+        `maxSellChunk (${this.maxSellChunk}) must be at least the minimum sellable amount ${MIN_SELL_AMOUNT}`,
+        "INVALID_CONFIG"
+      );
+    }
 
-    this.wallet = new ethers.Wallet(config.wallet.privateKey);
+    this.backendAddressTtlMs = config.backendAddressTtlMs ?? BACKEND_ADDRESS_TTL_MS;
+    this.maxSlippageBps = validateSlippageBps(config.maxSlippageBps);
+    this.allowanceStrategy = config.allowanceStrategy || "exact";
+    this.allowanceCap = config.allowanceCap ? BigInt(config.allowanceCap) : undefined;
+    if (this.allowanceStrategy === "capped" && !this.allowanceCap) {
+      throw new X402LaunchError(
+        "allowanceStrategy 'capped' requires a positive allowanceCap",
+        "INVALID_CONFIG"
+      );
+    }
 
-    // Initialize provider from RPC URL or use default
-    const rpcUrl = config.rpcUrl || "https://sepolia.base.org";
-    this.chainId = config.chainId || 84532; // Base Sepolia default
-    this.network = config.network || "base-sepolia";
-    this.executionMode = config.executionMode || "gasless"; // Default to gasless
+    this.backendSigner = config.backendSigner
+      ? ethers.getAddress(config.backendSigner)
+      : undefined;
+    this.minExpiryBufferSeconds =
+      config.minExpiryBufferSeconds ?? MIN_EXPIRY_BUFFER_SECONDS;
 
-    // Get USDC address based on chain ID (hardcoded - we only support USDC)
-    this.usdcAddress = USDC_ADDRESSES[this.chainId] || USDC_ADDRESSES[84532]; // Default to Base Sepolia
+    // USDC address for this chain (we only support USDC)
+    this.usdcAddress = networkDefinition.usdc.address;
 
     const networkConfig = {
       name: this.network,
@@ -77,6 +298,12 @@ export class X402LaunchClient {
     this.provider = new ethers.JsonRpcProvider(rpcUrl, networkConfig, {
       staticNetwork: true,
     });
+    this.transactions = new TransactionManager(
+      this.signer,
+      this.provider,
+      config.transactions,
+      this.rootLogger
+    );
 
     const apiPrefix = config.apiPrefix || "api/v1";
 
@@ -88,79 +315,203 @@ export class X402LaunchClient {
       timeout: 60000, // 60 second timeout
     });
 
-    // Add response interceptor for error handling
-    this.api.interceptors.response.use(
-      (response: any) => response,
-      async (error: any) => {
-        if (error.response?.status === 402) {
-          // Payment required - extract requirements
-          const paymentRequirements = extractPaymentRequirements(
-            error.response.data
-          );
-          throw new PaymentRequiredError(
-            error.response.data?.error || "Payment required",
-            paymentRequirements || undefined
-          );
-        }
+    this.middleware = config.middleware || [];
+    this.responseValidation = config.responseValidation || "strict";
+    this.imageStorage = config.imageStorage;
+  }
 
-        if (error.response?.status === 429) {
-          const retryAfter = error.response.headers["retry-after"];
-          throw new RateLimitError(
-            "Rate limit exceeded",
-            retryAfter ? parseInt(retryAfter) : undefined
-          );
-        }
+  /**
+   * Send one API request through the middleware chain
+   *
+   * HTTP failures are converted to typed SDK errors (see toApiError).
+   *
+   * @param attempt 1-based attempt number reported to middleware
+   */
+  private async send<T>(
+    config: AxiosRequestConfig & { method: HttpMethod; url: string },
+    attempt = 1
+  ): Promise<AxiosResponse<T>> {
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string>) };
+    const context: RequestContext = {
+      method: config.method,
+      endpoint: config.url,
+      url: `${this.api.defaults.baseURL}${config.url}`,
+      attempt,
+      paymentAttached: !!headers["X-PAYMENT"],
+      headers,
+      params: config.params,
+      body: config.data,
+      state: {},
+    };
+    await runBeforeRequest(this.middleware, context);
 
-        if (!error.response) {
-          // Include the actual error code/message for debugging
-          const errorCode = error.code || 'UNKNOWN';
-          const errorMsg = error.message || 'No response received';
-          throw new NetworkError(
-            `Network error (${errorCode}): ${errorMsg}`
-          );
-        }
+    const startedAt = Date.now();
+    try {
+      const response = await this.api.request<T>({ ...config, headers: context.headers });
+      await runAfterRequest(
+        this.middleware,
+        "afterResponse",
+        {
+          ...context,
+          status: response.status,
+          latencyMs: Date.now() - startedAt,
+          responseHeaders: { ...(response.headers as Record<string, string>) },
+          data: response.data,
+        },
+        this.logger
+      );
+      return response;
+    } catch (error: any) {
+      const apiError = toApiError(error, config.url);
+      await runAfterRequest(
+        this.middleware,
+        "onError",
+        {
+          ...context,
+          error: apiError,
+          status: error.response?.status,
+          latencyMs: Date.now() - startedAt,
+        },
+        this.logger
+      );
+      throw apiError;
+    }
+  }
 
-        // Handle 404 specifically - API endpoint not found
-        if (error.response.status === 404) {
-          const baseUrl = error.config?.baseURL || "unknown";
-          const endpoint = error.config?.url || "unknown";
-          const fullUrl = endpoint.startsWith("http")
-            ? endpoint
-            : `${baseUrl}${endpoint}`;
-          throw new X402LaunchError(
-            `API endpoint not found (404): ${fullUrl}. Check if the endpoint '${endpoint}' exists or if the base URL '${baseUrl}' is correct.`,
-            "API_NOT_FOUND"
-          );
-        }
+  /**
+   * Check an API response against its schema (see responseValidation)
+   *
+   * @param endpoint Route for error messages, e.g. "GET /tokens/:address"
+   */
+  private parseResponse<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    data: unknown,
+    endpoint: string
+  ): T {
+    return validateResponse(schema, data, endpoint, this.responseValidation, this.logger);
+  }
 
-        throw new X402LaunchError(
-          error.response.data?.message ||
-            error.message ||
-            `HTTP ${error.response.status}: ${error.response.statusText}`,
-          error.response.data?.code || String(error.response.status)
-        );
-      }
-    );
+  /**
+   * Check the items of a list response one at a time (see responseValidation)
+   */
+  private parseItems<T>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    items: unknown[],
+    endpoint: string
+  ): T[] {
+    return validateListItems(schema, items, endpoint, this.responseValidation, this.logger);
   }
 
   /**
    * Make a request with automatic x402 payment handling
+   *
+   * Writes (anything but GET) carry an Idempotency-Key header that is reused
+   * across retries, and are journaled in `operations`. After a network failure
+   * a write is only resent once neither the platform nor the chain shows it
+   * landed; a resend also reuses the signed payment, so the fee cannot be paid twice.
+   *
+   * @param category What the payment is for (checked against the payment policy)
+   * @param idempotencyKey Key of a write (default: a new random key)
    */
   private async requestWithPayment<T>(
-    method: "GET" | "POST" | "PUT" | "DELETE",
+    method: HttpMethod,
     endpoint: string,
-    data?: any,
+    data: any,
+    category: PaymentCategory,
+    idempotencyKey?: string,
     retries = 3
   ): Promise<T> {
-    const config: AxiosRequestConfig = {
+    const config: AxiosRequestConfig & { method: HttpMethod; url: string } = {
       method,
       url: endpoint,
       data,
     };
+    if (method === "GET") {
+      return this.sendWithPayment<T>(config, category, retries);
+    }
+
+    const key = idempotencyKey || createIdempotencyKey();
+    config.headers = { "Idempotency-Key": key };
+    await this.operations.begin({
+      idempotencyKey: key,
+      method,
+      endpoint,
+      category,
+      request: data,
+    });
+
+    try {
+      const result = await this.sendWithPayment<T>(config, category, retries, key);
+      await this.operations.complete(key, getTransactionHash(result));
+      return result;
+    } catch (error: any) {
+      // Without a response the outcome is unknown - leave it pending for reconcileOperations()
+      if (
+        !(error instanceof NetworkError) &&
+        !(error instanceof OperationLandedError) &&
+        !(error instanceof OperationPendingError)
+      ) {
+        await this.operations.fail(key, error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request, paying the x402 fee and retrying rate limits and network errors
+   */
+  private async sendWithPayment<T>(
+    config: AxiosRequestConfig & { method: HttpMethod; url: string },
+    category: PaymentCategory,
+    retries: number,
+    idempotencyKey?: string
+  ): Promise<T> {
+    let payment: X402SignedPayment | undefined;
+    let unresolved = false; // The last attempt of a write failed without a response
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      if (unresolved && idempotencyKey) {
+        // The write may have landed - only resend once we know it did not
+        const outcome = await this.findOperationOutcome<T>(idempotencyKey);
+        if (outcome.status === "completed") {
+          if (payment) {
+            await recordPaymentOutcome(this.getPaymentGuards(), payment, { ok: true }, this.logger);
+          }
+          return outcome.result;
+        }
+        if (outcome.status === "landed") {
+          await this.operations.complete(idempotencyKey, outcome.transactionHash);
+          throw new OperationLandedError(idempotencyKey, outcome.transactionHash, config.url);
+        }
+        if (outcome.status === "pending") {
+          if (attempt === retries) {
+            throw new OperationPendingError(idempotencyKey, config.url);
+          }
+          const delay = Math.pow(2, attempt) * 1000;
+          await new Promise<void>((resolve) =>
+            setTimeout(() => resolve(), delay)
+          );
+          continue;
+        }
+        unresolved = false;
+      }
+
       try {
-        const response = await this.api.request<T>(config);
+        if (idempotencyKey) {
+          await this.operations.attempt(idempotencyKey);
+        }
+        const response = await this.send<T>(config, attempt + 1);
+        if (payment) {
+          await recordPaymentOutcome(
+            this.getPaymentGuards(),
+            payment,
+            {
+              ok: true,
+              settlementHeader: response.headers?.["x-payment-response"],
+            },
+            this.logger
+          );
+        }
         return response.data;
       } catch (error: any) {
         // Handle payment required - check both instance and name (for error propagation)
@@ -171,32 +522,32 @@ export class X402LaunchClient {
 
         if (isPaymentError && error.paymentDetails) {
           const requirements = error.paymentDetails;
+          this.rememberPaymentFee(config, requirements);
 
           // Only retry once for payment (don't loop)
           if (attempt === 0 && !config.headers?.["X-PAYMENT"]) {
-            // Determine asset: for sell operations, use token address; for buy operations, use USDC
-            // The backend sets requirements.asset to the token address for sell, USDC for buy
-            const asset = requirements.asset || this.usdcAddress;
-
-            // Create payment header
-            // Use extra.name/extra.version from backend if available (ensures exact match)
-            // Fallback to querying contract if not provided
-            const paymentHeader = await createX402PaymentHeader(this.wallet, {
-              amount: requirements.maxAmountRequired,
-              recipient: requirements.payTo,
-              asset: asset, // Use asset from requirements (token for sell, USDC for buy)
-              chainId: this.chainId,
-              provider: this.provider,
-              // Use backend-provided name/version if available (from extra field)
-              // This ensures the signature matches exactly what the backend expects
-              name: requirements.extra?.name,
-              version: requirements.extra?.version,
-            });
+            // Pick the best usable option (our chain, supported scheme, held asset, allowed by policy).
+            // The backend sets asset to the token address for sell, USDC for buy.
+            // Uses extra.name/extra.version from backend if available (ensures exact match),
+            // and checks the payment policy before anything is signed.
+            payment = await signPaymentRequirements(
+              this.signer,
+              error.paymentOptions?.length ? error.paymentOptions : [requirements],
+              {
+                chainId: this.chainId,
+                provider: this.provider,
+                category,
+                defaultAsset: this.usdcAddress,
+                resource: config.url,
+                guards: this.getPaymentGuards(),
+                logger: this.rootLogger,
+              }
+            );
 
             // Retry with payment header
             config.headers = {
               ...config.headers,
-              "X-PAYMENT": paymentHeader,
+              "X-PAYMENT": payment.header,
             };
 
             // Retry the request (continue loop to attempt retry)
@@ -205,6 +556,14 @@ export class X402LaunchClient {
             // Already tried payment or payment header exists - payment verification failed
             if (config.headers?.["X-PAYMENT"]) {
               // Payment was sent but still got 402 - verification failed
+              if (payment) {
+                await recordPaymentOutcome(
+                  this.getPaymentGuards(),
+                  payment,
+                  { ok: false, error: error.message },
+                  this.logger
+                );
+              }
               const assetType =
                 requirements?.asset === this.usdcAddress ? "USDC" : "tokens";
               throw new X402LaunchError(
@@ -235,13 +594,30 @@ export class X402LaunchClient {
         // Handle network errors with retry (transient failures)
         if (error instanceof NetworkError && attempt < retries) {
           const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s
-          console.log(`[SDK] Network error, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})...`);
+          this.logger.warn("Network error, retrying", {
+            endpoint: config.url,
+            delayMs: delay,
+            attempt: attempt + 1,
+            retries,
+          });
           await new Promise<void>((resolve) =>
             setTimeout(() => resolve(), delay)
           );
+          unresolved = true;
           continue;
         }
 
+        // The server answered with an error, so the payment was not charged
+        // (without a response the outcome is unknown and it stays counted)
+        if (payment && !(error instanceof NetworkError)) {
+          await recordPaymentOutcome(
+            this.getPaymentGuards(),
+            payment,
+            { ok: false, error: error.message },
+            this.logger
+          );
+        }
+
         // Re-throw other errors
         throw error;
       }
@@ -250,11 +626,136 @@ export class X402LaunchClient {
     throw new X402LaunchError("Request failed after retries");
   }
 
+  /**
+   * Whether a write whose response was lost landed
+   *
+   * Asks the platform (GET /operations/:key) first; when it cannot tell,
+   * gasless buys and sells are looked up on the bonding curve.
+   */
+  private async findOperationOutcome<T>(
+    idempotencyKey: string
+  ): Promise<OperationOutcome<T>> {
+    try {
+      const response = await this.send<unknown>({
+        method: "GET",
+        url: `/operations/${idempotencyKey}`,
+      });
+      const { status, result, transactionHash } = this.parseResponse(
+        operationStatusResponseSchema,
+        response.data,
+        "GET /operations/:key"
+      );
+      if (status === "completed" && result !== undefined) {
+        // Checked against the write's own schema by the caller
+        return { status: "completed", result: result as T };
+      }
+      if (status === "completed" && transactionHash) {
+        return { status: "landed", transactionHash };
+      }
+      if (status === "pending" || status === "processing") {
+        return { status: "pending" };
+      }
+      if (status === "failed") {
+        return { status: "failed" };
+      }
+    } catch (error) {
+      // No operations endpoint, an unknown key (404) or still offline - check the chain
+      this.logger.debug("Operation lookup on the platform failed", {
+        idempotencyKey,
+        error,
+      });
+    }
+
+    const record = await this.operations.get(idempotencyKey);
+    try {
+      const transactionHash = record && (await this.findTradeOnChain(record));
+      if (transactionHash) {
+        return { status: "landed", transactionHash };
+      }
+    } catch (error) {
+      this.logger.debug("Operation lookup on-chain failed", { idempotencyKey, error });
+    }
+    return { status: "unknown" };
+  }
+
+  /**
+   * Transaction of a journaled gasless buy/sell, found by side, token and amount
+   */
+  private async findTradeOnChain(record: OperationRecord): Promise<string | undefined> {
+    const side =
+      record.endpoint === "/tokens/buy"
+        ? "buy"
+        : record.endpoint === "/tokens/sell"
+        ? "sell"
+        : undefined;
+    const request = record.request as
+      | { tokenAddress?: string; usdcAmount?: string; tokenAmount?: string }
+      | undefined;
+    if (!side || !request?.tokenAddress || !getNetwork(this.chainId).contracts?.bondingCurve) {
+      return undefined;
+    }
+
+    const toBlock = await this.getRobustProvider().getBlockNumber();
+    const trades = await this.getTradeHistory({
+      token: request.tokenAddress,
+      source: "chain",
+      fromBlock: Math.max(0, toBlock - OPERATION_LOOKBACK_BLOCKS),
+      since: record.createdAt - 2000, // Block timestamps are whole seconds
+    });
+    const amount = side === "buy" ? request.usdcAmount : request.tokenAmount;
+    return trades.find(
+      (t) => t.side === side && (side === "buy" ? t.usdcAmount : t.tokenAmount) === amount
+    )?.transactionHash;
+  }
+
+  /**
+   * Resolve writes left pending by a network failure or a restart
+   *
+   * Each pending operation in the journal is looked up on the platform and,
+   * for gasless trades, on-chain. Operations that landed are marked completed,
+   * ones the platform reports as failed are marked failed, and the rest stay
+   * pending. Nothing is resent.
+   *
+   * @returns The operations that were pending, with their updated status
+   *
+   * @example
+   * ```typescript
+   * const client = new X402LaunchClient({
+   *   wallet: { privateKey },
+   *   operationJournal: new JsonFileOperationStorage('./data/operations.json'),
+   * });
+   * const operations = await client.reconcileOperations();
+   * ```
+   */
+  async reconcileOperations(): Promise<OperationRecord[]> {
+    const pending = await this.operations.list({ status: "pending" });
+    const resolved: OperationRecord[] = [];
+    for (const operation of pending) {
+      const key = operation.idempotencyKey;
+      const outcome = await this.findOperationOutcome<unknown>(key);
+      if (outcome.status === "completed") {
+        await this.operations.complete(key, getTransactionHash(outcome.result));
+      } else if (outcome.status === "landed") {
+        await this.operations.complete(key, outcome.transactionHash);
+      } else if (outcome.status === "failed") {
+        await this.operations.fail(key, "Reported as failed by the platform");
+      }
+      resolved.push((await this.operations.get(key)) || operation);
+    }
+    return resolved;
+  }
+
   /**
    * Launch a new token
    *
+   * All parameters are checked before anything is uploaded or paid. An
+   * `imageFile` (bytes or a local path) is uploaded first, through the
+   * configured imageStorage or the platform upload endpoint.
+   *
    * @param params Token launch parameters
    * @returns Token launch response with addresses and transaction hash
+   *          (a SimulationResult with the x402 fee when `simulate: true`; nothing is paid or uploaded)
+   * @throws {LaunchValidationError} If a parameter is invalid (see `issues` for every field)
    * @throws {PaymentRequiredError} If payment is required
    * @throws {X402LaunchError} For other errors
    *
@@ -264,46 +765,102 @@ export class X402LaunchClient {
    *   name: 'My Token',
    *   ticker: 'MTK',
    *   description: 'A token launched by my agent',
-   *   image: 'https://example.com/token.png',
+   *   imageFile: { path: './logo.png' }, // or image: 'https://example.com/token.png'
    * });
    * console.log(`Token launched: ${token.tokenAddress}`);
    * ```
    */
-  async launchToken(params: LaunchTokenParams): Promise<LaunchTokenResponse> {
-    // Ensure ticker is uppercase
-    const ticker = params.ticker.toUpperCase();
-
-    // Validate ticker format (letters and numbers allowed)
-    if (!/^[A-Z0-9]{3,10}$/.test(ticker)) {
-      throw new X402LaunchError(
-        `Invalid ticker: ${ticker}. Must be 3-10 uppercase letters or numbers.`,
-        "INVALID_TICKER"
+  launchToken(params: LaunchTokenParams & { simulate: true }): Promise<SimulationResult>;
+  launchToken(params: LaunchTokenParams & { simulate?: false }): Promise<LaunchTokenResponse>;
+  launchToken(params: LaunchTokenParams): Promise<LaunchTokenResponse | SimulationResult>;
+  async launchToken(
+    params: LaunchTokenParams
+  ): Promise<LaunchTokenResponse | SimulationResult> {
+    if (params.simulate) {
+      return this.simulateApiWrite(
+        { operation: "launch", mode: "gasless" },
+        {
+          endpoint: "/tokens/launch",
+          body: {
+            name: params.name,
+            ticker: params.ticker,
+            description: params.description,
+            image: params.image,
+            initialSupply: params.initialSupply,
+          },
+        },
+        async () => {
+          validateLaunchParams(params);
+          if (params.imageFile) await loadLaunchImage(params.imageFile);
+          return {};
+        }
       );
     }
 
-    // Default initial supply to 10M tokens (10,000,000 * 10^18)
-    const initialSupply = params.initialSupply || "10000000000000000000000000";
+    const launch = validateLaunchParams(params);
+    const image = launch.image ?? (await this.uploadImage(params.imageFile!));
 
     // Build request payload matching API requirements
     const payload: any = {
-      name: params.name,
-      ticker: ticker,
-      description: params.description,
-      image: params.image,
-      initialSupply: initialSupply,
+      name: launch.name,
+      ticker: launch.ticker,
+      description: launch.description,
+      image,
+      initialSupply: launch.initialSupply,
     };
 
     // Add optional fields if provided
-    if (params.website) payload.website = params.website;
-    if (params.twitter) payload.twitter = params.twitter;
-    if (params.telegram) payload.telegram = params.telegram;
-    if (params.discord) payload.discord = params.discord;
+    if (launch.website) payload.website = launch.website;
+    if (launch.twitter) payload.twitter = launch.twitter;
+    if (launch.telegram) payload.telegram = launch.telegram;
+    if (launch.discord) payload.discord = launch.discord;
 
-    return this.requestWithPayment<LaunchTokenResponse>(
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       "/tokens/launch",
-      payload
+      payload,
+      "launch",
+      params.idempotencyKey
+    );
+    return this.parseResponse(launchTokenResponseSchema, response, "POST /tokens/launch");
+  }
+
+  /**
+   * Upload a token image and return its hosted URL
+   *
+   * Uses the configured imageStorage adapter, or the platform upload endpoint.
+   *
+   * @param image Image bytes or a local file (png, jpeg, gif, webp or svg, up to 5 MB)
+   * @returns Public URL to pass as a launch `image`
+   * @throws {LaunchValidationError} If the image is unreadable, too large or not an image
+   *
+   * @example
+   * ```typescript
+   * const url = await client.uploadImage({ path: './logo.png' });
+   * ```
+   */
+  async uploadImage(image: LaunchImageFile): Promise<string> {
+    const loaded = await loadLaunchImage(image);
+    if (this.imageStorage) {
+      return this.imageStorage.upload(loaded);
+    }
+
+    // Backend expects: POST /uploads/image with the image base64-encoded
+    const response = await this.send<unknown>({
+      method: "POST",
+      url: "/uploads/image",
+      data: {
+        fileName: loaded.fileName,
+        contentType: loaded.contentType,
+        data: Buffer.from(loaded.data).toString("base64"),
+      },
+    });
+    const { url } = this.parseResponse(
+      imageUploadResponseSchema,
+      response.data,
+      "POST /uploads/image"
     );
+    return url;
   }
 
   /**
@@ -311,7 +868,9 @@ export class X402LaunchClient {
    *
    * @param params Buy parameters (token address and USDC amount)
    * @returns Buy response with transaction details
+   *          (a SimulationResult with quote and x402 fee when `simulate: true`; nothing is paid)
    * @throws {PaymentRequiredError} If payment is required
+   * @throws {SlippageExceededError} If the quote or the fill is below `minTokensOut` / `maxSlippageBps`
    * @throws {X402LaunchError} For other errors
    *
    * @example
@@ -319,15 +878,49 @@ export class X402LaunchClient {
    * const result = await client.buyTokens({
    *   tokenAddress: '0x...',
    *   usdcAmount: '1000000', // 1 USDC
+   *   maxSlippageBps: 100, // accept at most 1% fewer tokens than quoted
    * });
    * console.log(`Bought ${result.tokenAmount} tokens`);
    * ```
    */
-  async buyTokens(params: BuyTokensParams): Promise<BuyTokensResponse> {
-    return this.requestWithPayment<BuyTokensResponse>("POST", "/tokens/buy", {
-      tokenAddress: params.tokenAddress,
-      usdcAmount: params.usdcAmount,
-    });
+  buyTokens(params: BuyTokensParams & { simulate: true }): Promise<SimulationResult>;
+  buyTokens(params: BuyTokensParams & { simulate?: false }): Promise<BuyTokensResponse>;
+  buyTokens(params: BuyTokensParams): Promise<BuyTokensResponse | SimulationResult>;
+  async buyTokens(
+    params: BuyTokensParams
+  ): Promise<BuyTokensResponse | SimulationResult> {
+    if (params.simulate) {
+      return this.simulateTrade("buy", "gasless", params);
+    }
+
+    const minTokensOut = await this.getMinBuyOutput(params);
+
+    const result = this.parseResponse(
+      buyTokensResponseSchema,
+      await this.requestWithPayment<unknown>(
+        "POST",
+        "/tokens/buy",
+        {
+          tokenAddress: params.tokenAddress,
+          usdcAmount: params.usdcAmount,
+        },
+        "trade",
+        params.idempotencyKey
+      ),
+      "POST /tokens/buy"
+    );
+
+    if (minTokensOut !== undefined && BigInt(result.tokenAmount || "0") < minTokensOut) {
+      throw new SlippageExceededError(
+        "fill",
+        "buy",
+        params.tokenAddress,
+        minTokensOut.toString(),
+        result.tokenAmount,
+        result.transactionHash
+      );
+    }
+    return result;
   }
 
   /**
@@ -335,6 +928,7 @@ export class X402LaunchClient {
    *
    * @param params Sell parameters (token address and token amount)
    * @returns Sell response with transaction details
+   *          (a SimulationResult with quote and x402 fee when `simulate: true`; nothing is paid)
    * @throws {PaymentRequiredError} If payment is required
    * @throws {X402LaunchError} For other errors
    *
@@ -348,61 +942,217 @@ export class X402LaunchClient {
    * ```
    *
    * @note If amount exceeds facilitator limit (999999999999999999), the SDK automatically
-   *       splits the sell into multiple transactions to sell everything.
+   *       splits the sell into multiple transactions to sell everything. The result then
+   *       aggregates all chunks and lists them in `chunks`; if a chunk fails midway,
+   *       `partialFill` is true and `tokenAmount` is what was actually sold.
+   *       `minUsdcOut` applies to the whole sell; each chunk must quote at least its share.
    */
-  async sellTokens(params: SellTokensParams): Promise<SellTokensResponse> {
-    // Minimum sellable amount - amounts smaller than this would return 0 USDC and revert
-    // Set to 0.01 tokens (1e16 wei) to avoid bonding curve rounding to 0
-    const MIN_SELL_AMOUNT = BigInt("10000000000000000"); // 0.01 tokens
+  sellTokens(params: SellTokensParams & { simulate: true }): Promise<SimulationResult>;
+  sellTokens(params: SellTokensParams & { simulate?: false }): Promise<SellTokensResponse>;
+  sellTokens(params: SellTokensParams): Promise<SellTokensResponse | SimulationResult>;
+  async sellTokens(
+    params: SellTokensParams
+  ): Promise<SellTokensResponse | SimulationResult> {
+    if (params.simulate) {
+      return this.simulateTrade("sell", "gasless", params);
+    }
 
-    const requestedAmount = BigInt(params.tokenAmount);
+    const requestedAmount = checkSellAmount(params.tokenAmount);
+
+    const minUsdcOut = await this.getMinSellOutput(params);
+
+    const chunks = splitSellAmount(requestedAmount, this.maxSellChunk);
+    const result =
+      chunks.length === 1
+        ? await this.sellTokensOnce(
+            params.tokenAddress,
+            params.tokenAmount,
+            params.idempotencyKey
+          )
+        : await this.sellTokensInChunks(
+            params.tokenAddress,
+            requestedAmount,
+            chunks,
+            minUsdcOut,
+            params.idempotencyKey
+          );
 
-    // Check if amount is too small to sell
-    if (requestedAmount < MIN_SELL_AMOUNT) {
-      throw new Error(
-        `Amount too small to sell: ${params.tokenAmount} tokens (< 0.01 tokens). ` +
-          `This amount would return 0 USDC. Minimum sellable amount: ${MIN_SELL_AMOUNT.toString()} wei (0.01 tokens).`
-      );
+    if (minUsdcOut !== undefined) {
+      // A partial fill is held to the same price, pro rata
+      const required = (minUsdcOut * BigInt(result.tokenAmount)) / requestedAmount;
+      if (BigInt(result.usdcReceived || "0") < required) {
+        throw new SlippageExceededError(
+          "fill",
+          "sell",
+          params.tokenAddress,
+          required.toString(),
+          result.usdcReceived,
+          result.transactionHash
+        );
+      }
     }
+    return result;
+  }
 
-    // Generate EIP-3009 signature for token transfer
-    const nonce = ethers.hexlify(ethers.randomBytes(32));
-    const timestamp = Math.floor(Date.now() / 1000) - 10; // 10 seconds in the past
-    const validAfter = String(timestamp);
-    const validBefore = String(timestamp + 300); // 5 minutes
+  /**
+   * Sell an amount above the facilitator limit as sequential chunks
+   *
+   * Each chunk is quoted right before it is sold. If a chunk fails after
+   * earlier chunks went through, selling stops and a partial-fill result is
+   * returned; if the first chunk fails, its error is thrown.
+   */
+  private async sellTokensInChunks(
+    tokenAddress: string,
+    requestedAmount: bigint,
+    amounts: bigint[],
+    minUsdcOut?: bigint,
+    idempotencyKey?: string
+  ): Promise<SellTokensResponse> {
+    this.logger.info("Sell exceeds facilitator limit, splitting into chunks", {
+      tokenAddress,
+      tokenAmount: requestedAmount,
+      maxSellChunk: this.maxSellChunk,
+      chunks: amounts.length,
+    });
 
-    // Get token contract details for EIP-712 domain
-    const tokenABI = [
-      "function name() view returns (string)",
-      "function version() view returns (string)",
-    ];
-    const tokenContract = new ethers.Contract(
-      params.tokenAddress,
-      tokenABI,
-      this.provider
-    );
-    
-    // Get token name (required for EIP-712 domain)
+    const chunks: SellChunkResult[] = [];
+    let lastResponse: SellTokensResponse | undefined;
+    let soldAmount = BigInt(0);
+    let usdcReceived = BigInt(0);
+    let failure: string | undefined;
+
+    for (const [index, amount] of amounts.entries()) {
+      const chunk: SellChunkResult = {
+        index,
+        tokenAmount: amount.toString(),
+        success: false,
+      };
+      chunks.push(chunk);
+
+      try {
+        const quote = await this.getSellQuote({
+          tokenAddress,
+          tokenAmount: chunk.tokenAmount,
+        }).catch((error) => {
+          throw toSellError("quote", tokenAddress, error);
+        });
+        chunk.quotedUsdcAmount = quote.estimatedUsdcAmount;
+        if (minUsdcOut !== undefined) {
+          const chunkMin = (minUsdcOut * amount) / requestedAmount;
+          if (BigInt(quote.estimatedUsdcAmount) < chunkMin) {
+            throw new SlippageExceededError(
+              "quote",
+              "sell",
+              tokenAddress,
+              chunkMin.toString(),
+              quote.estimatedUsdcAmount
+            );
+          }
+        }
+
+        const response = await this.sellTokensOnce(
+          tokenAddress,
+          chunk.tokenAmount,
+          idempotencyKey && `${idempotencyKey}:${index}` // One key per chunk
+        );
+        chunk.success = true;
+        chunk.transactionHash = response.transactionHash;
+        chunk.usdcReceived = response.usdcReceived;
+
+        soldAmount += BigInt(response.tokenAmount || chunk.tokenAmount);
+        usdcReceived += BigInt(response.usdcReceived || "0");
+        lastResponse = response;
+      } catch (caught) {
+        // Already typed: SDK errors pass through, unknown ones are wrapped per step
+        const error = caught as X402LaunchError;
+        chunk.error = error.message;
+        if (!lastResponse) {
+          // Nothing was sold - surface the original error
+          throw error;
+        }
+        failure = `Chunk ${index + 1}/${amounts.length} failed: ${error.message}`;
+        this.logger.warn("Sell chunk failed, stopping with a partial fill", {
+          tokenAddress,
+          chunk: index + 1,
+          chunks: amounts.length,
+          error: error.message,
+        });
+        break;
+      }
+    }
+
+    // lastResponse is always set here (first-chunk failures are rethrown)
+    const last = lastResponse as SellTokensResponse;
+    return {
+      transactionHash: last.transactionHash,
+      seller: last.seller,
+      tokenAddress,
+      tokenAmount: soldAmount.toString(),
+      usdcReceived: usdcReceived.toString(),
+      averagePricePerToken: pricePerToken(usdcReceived, soldAmount),
+      bondingCurveStatus: last.bondingCurveStatus,
+      requestedTokenAmount: requestedAmount.toString(),
+      chunks,
+      partialFill: failure !== undefined,
+      error: failure,
+    };
+  }
+
+  /**
+   * Sell a single facilitator-compliant amount (gasless, EIP-3009)
+   */
+  private async sellTokensOnce(
+    tokenAddress: string,
+    tokenAmount: string,
+    idempotencyKey?: string
+  ): Promise<SellTokensResponse> {
+    // Token domain for the EIP-712 signature (the token itself verifies it)
     let tokenName: string;
+    let tokenVersion = "1";
     try {
+      const tokenContract = new ethers.Contract(
+        tokenAddress,
+        [
+          "function name() view returns (string)",
+          "function version() view returns (string)",
+        ],
+        this.provider
+      );
       tokenName = await tokenContract.name();
+      try {
+        tokenVersion = await tokenContract.version();
+      } catch {
+        // Default to '1' if version() not available
+      }
     } catch (error: any) {
-      throw new Error(`Failed to get token name for ${params.tokenAddress}. The token contract may not exist or may not be a valid ERC20 token. Error: ${error.message}`);
+      throw new SellExecutionError(
+        "tokenDomain",
+        tokenAddress,
+        new Error(
+          `Failed to get token name. The token contract may not exist or may not be a valid ERC20 token. ${error.message}`
+        )
+      );
     }
-    
-    let tokenVersion = "1";
+
+    // Backend signer address (where tokens will be sent)
+    let backendAddress: string;
     try {
-      tokenVersion = await tokenContract.version();
-    } catch {
-      // Default to '1' if version() not available
+      backendAddress = await this.getBackendAddress();
+    } catch (error) {
+      throw toSellError("backendAddress", tokenAddress, error);
     }
 
-    // Create EIP-712 domain for the token
+    // Generate EIP-3009 signature for token transfer
+    const nonce = ethers.hexlify(ethers.randomBytes(32));
+    const timestamp = Math.floor(Date.now() / 1000) - 10; // 10 seconds in the past
+    const validAfter = String(timestamp);
+    const validBefore = String(timestamp + 300); // 5 minutes
+
     const domain = {
       name: tokenName,
       version: tokenVersion,
       chainId: this.chainId,
-      verifyingContract: params.tokenAddress,
+      verifyingContract: tokenAddress,
     };
 
     // EIP-712 types for TransferWithAuthorization (EIP-3009)
@@ -417,58 +1167,312 @@ export class X402LaunchClient {
       ],
     };
 
-    // Get backend signer address (where tokens will be sent)
-    const backendAddressResponse = await this.api.get<{ address: string }>(
-      "/tokens/backend-address"
-    );
-    const backendAddress = backendAddressResponse.data.address;
-
-    // Message to sign
     const message = {
-      from: this.wallet.address,
+      from: this.walletAddress,
       to: backendAddress,
-      value: BigInt(params.tokenAmount),
+      value: BigInt(tokenAmount),
       validAfter: BigInt(validAfter),
       validBefore: BigInt(validBefore),
       nonce: nonce,
     };
 
-    // Sign using EIP-712 typed data
-    const signature = await this.wallet.signTypedData(domain, types, message);
+    let signature: string;
+    try {
+      signature = await this.signer.signTypedData(domain, types, message);
+    } catch (error) {
+      throw toSellError("sign", tokenAddress, error);
+    }
+
+    this.logger.debug("Created EIP-3009 authorization for sell", {
+      tokenAddress,
+      token: `${tokenName} (v${tokenVersion})`,
+      tokenAmount,
+      validAfter,
+      validBefore,
+      nonce,
+    });
 
-    console.log(`[SDK] Created EIP-3009 signature for sell:`);
-    console.log(`   Token: ${tokenName} (v${tokenVersion})`);
-    console.log(`   Amount: ${params.tokenAmount}`);
-    console.log(
-      `   ValidAfter: ${validAfter} (${new Date(
-        parseInt(validAfter) * 1000
-      ).toISOString()})`
+    // Send sell request with EIP-3009 signature in body (no x402 payment).
+    // Retries reuse the same authorization, so a resent request cannot sell twice.
+    let response: unknown;
+    try {
+      response = await this.requestWithPayment<unknown>(
+        "POST",
+        "/tokens/sell",
+        {
+          tokenAddress,
+          tokenAmount,
+          sellerAddress: this.walletAddress,
+          validAfter,
+          validBefore,
+          nonce,
+          signature,
+        },
+        "trade",
+        idempotencyKey
+      );
+    } catch (error) {
+      // The backend may have rotated its signer - refetch the address next time
+      this.backendAddressCache = undefined;
+      throw toSellError("submit", tokenAddress, error);
+    }
+    return this.parseResponse(sellTokensResponseSchema, response, "POST /tokens/sell");
+  }
+
+  /**
+   * Minimum tokens a buy must return, checked against a fresh quote
+   *
+   * @returns undefined when the trade has no slippage limit
+   * @throws {SlippageExceededError} If the quote is already below the minimum
+   */
+  private async getMinBuyOutput(params: BuyTokensParams): Promise<bigint | undefined> {
+    return this.getMinOutput(
+      "buy",
+      params.tokenAddress,
+      params.minTokensOut,
+      params.maxSlippageBps,
+      async () =>
+        (await this.getBuyQuote({
+          tokenAddress: params.tokenAddress,
+          usdcAmount: params.usdcAmount,
+        })).estimatedTokenAmount
     );
-    console.log(
-      `   ValidBefore: ${validBefore} (${new Date(
-        parseInt(validBefore) * 1000
-      ).toISOString()})`
+  }
+
+  /**
+   * Minimum USDC a sell must return, checked against a fresh quote
+   *
+   * @returns undefined when the trade has no slippage limit
+   * @throws {SlippageExceededError} If the quote is already below the minimum
+   */
+  private async getMinSellOutput(params: SellTokensParams): Promise<bigint | undefined> {
+    return this.getMinOutput(
+      "sell",
+      params.tokenAddress,
+      params.minUsdcOut,
+      params.maxSlippageBps,
+      async () =>
+        (await this.getSellQuote({
+          tokenAddress: params.tokenAddress,
+          tokenAmount: params.tokenAmount,
+        })).estimatedUsdcAmount
     );
-    console.log(
-      `   Current time: ${Math.floor(
-        Date.now() / 1000
-      )} (${new Date().toISOString()})`
+  }
+
+  /**
+   * Combine an explicit minimum with a bps limit off the quote (the stricter one wins)
+   */
+  private async getMinOutput(
+    side: "buy" | "sell",
+    tokenAddress: string,
+    minOut: string | undefined,
+    maxSlippageBps: number | undefined,
+    getQuotedOut: () => Promise<string>
+  ): Promise<bigint | undefined> {
+    const bps = validateSlippageBps(maxSlippageBps) ?? this.maxSlippageBps;
+    if (minOut === undefined && bps === undefined) {
+      return undefined;
+    }
+
+    const quoted = BigInt(await getQuotedOut());
+    let minimum = minOut !== undefined ? BigInt(minOut) : BigInt(0);
+    if (bps !== undefined) {
+      const fromQuote = (quoted * BigInt(10000 - bps)) / BigInt(10000);
+      if (fromQuote > minimum) {
+        minimum = fromQuote;
+      }
+    }
+
+    if (quoted < minimum) {
+      throw new SlippageExceededError(
+        "quote",
+        side,
+        tokenAddress,
+        minimum.toString(),
+        quoted.toString()
+      );
+    }
+    return minimum;
+  }
+
+  /**
+   * Dry run of a gasless or self-execute trade request: quote, slippage check and x402 fee
+   *
+   * Gasless sells pay with the EIP-3009 token transfer itself, so they carry no fee.
+   */
+  private async simulateTrade(
+    side: "buy" | "sell",
+    mode: ExecutionMode,
+    params: BuyTokensParams | SellTokensParams
+  ): Promise<SimulationResult> {
+    const endpoint =
+      mode === "gasless" ? `/tokens/${side}` : `/tokens/${side}/self-execute`;
+    const body =
+      "usdcAmount" in params
+        ? { tokenAddress: params.tokenAddress, usdcAmount: params.usdcAmount }
+        : { tokenAddress: params.tokenAddress, tokenAmount: params.tokenAmount };
+    return this.simulateApiWrite(
+      { operation: side, mode, tokenAddress: params.tokenAddress },
+      side === "sell" && mode === "gasless" ? undefined : { endpoint, body },
+      async () => {
+        if ("usdcAmount" in params) {
+          const quote = await this.getBuyQuote({
+            tokenAddress: params.tokenAddress,
+            usdcAmount: params.usdcAmount,
+          });
+          const minimumOut = await this.getMinOutput(
+            "buy",
+            params.tokenAddress,
+            params.minTokensOut,
+            params.maxSlippageBps,
+            async () => quote.estimatedTokenAmount
+          );
+          return {
+            expectedTokenAmount: quote.estimatedTokenAmount,
+            expectedUsdcAmount: params.usdcAmount,
+            minimumOut: minimumOut?.toString(),
+          };
+        }
+
+        checkSellAmount(params.tokenAmount);
+        const quote = await this.getSellQuote({
+          tokenAddress: params.tokenAddress,
+          tokenAmount: params.tokenAmount,
+        });
+        const minimumOut = await this.getMinOutput(
+          "sell",
+          params.tokenAddress,
+          params.minUsdcOut,
+          params.maxSlippageBps,
+          async () => quote.estimatedUsdcAmount
+        );
+        return {
+          expectedTokenAmount: params.tokenAmount,
+          expectedUsdcAmount: quote.estimatedUsdcAmount,
+          minimumOut: minimumOut?.toString(),
+        };
+      }
     );
-    console.log(`   Nonce: ${nonce}`);
-    console.log(`   Signature: ${signature.substring(0, 20)}...`);
+  }
 
-    // Send sell request with EIP-3009 signature in body (no x402 payment)
-    return this.api
-      .post<SellTokensResponse>("/tokens/sell", {
-        tokenAddress: params.tokenAddress,
-        tokenAmount: params.tokenAmount,
-        sellerAddress: this.wallet.address,
-        validAfter,
-        validBefore,
-        nonce,
-        signature,
-      })
-      .then((res: any) => res.data);
+  /**
+   * Run the checks of an API write and add the x402 fee it would pay
+   *
+   * SDK errors from the checks (validation, slippage) become a failed result.
+   */
+  private async simulateApiWrite(
+    base: Pick<SimulationResult, "operation" | "mode" | "tokenAddress">,
+    fee: { endpoint: string; body: unknown } | undefined,
+    check: () => Promise<Partial<SimulationResult>>
+  ): Promise<SimulationResult> {
+    let expected: Partial<SimulationResult>;
+    try {
+      expected = await check();
+    } catch (error) {
+      if (error instanceof X402LaunchError) {
+        return { ...base, success: false, error: error.message, errorCode: error.code };
+      }
+      throw error;
+    }
+
+    return {
+      ...base,
+      ...expected,
+      success: true,
+      x402Fee: fee ? await this.getPaymentFee(fee.endpoint, fee.body) : undefined,
+    };
+  }
+
+  /**
+   * Fee an endpoint charged the last time it answered this client with a 402
+   *
+   * Writes have no free dry run. Before the first call, the endpoint is sent
+   * the request without an X-PAYMENT header: paid routes answer that with
+   * their 402 challenge before doing anything. Undefined if no 402 comes back.
+   */
+  private async getPaymentFee(
+    endpoint: string,
+    body: unknown
+  ): Promise<SimulatedPaymentFee | undefined> {
+    if (!this.paymentFees.has(endpoint)) {
+      const config = { method: "POST" as const, url: endpoint, data: body };
+      try {
+        await this.send(config);
+        this.logger.warn("Fee probe was answered without a 402 challenge", { endpoint });
+      } catch (error: any) {
+        if (error instanceof PaymentRequiredError && error.paymentDetails) {
+          this.rememberPaymentFee(config, error.paymentDetails);
+        } else {
+          this.logger.debug("Fee probe failed - fee unknown", {
+            endpoint,
+            error: error.message,
+          });
+        }
+      }
+    }
+    return this.paymentFees.get(endpoint);
+  }
+
+  /**
+   * Keep the USDC fee of a 402 response for getPaymentFee
+   *
+   * A gasless buy's payment also carries the USDC being spent; only the fee
+   * part is kept. Payments in other assets (the token of a gasless sell) are
+   * not fees and are skipped.
+   */
+  private rememberPaymentFee(
+    config: AxiosRequestConfig & { url: string },
+    requirements: X402PaymentRequirements
+  ): void {
+    if (requirements.asset?.toLowerCase() !== this.usdcAddress.toLowerCase()) {
+      return;
+    }
+    let amount = BigInt(requirements.maxAmountRequired);
+    if (config.url === "/tokens/buy") {
+      amount -= BigInt(config.data?.usdcAmount || "0");
+    }
+    if (amount < BigInt(0)) {
+      return;
+    }
+    this.paymentFees.set(config.url, {
+      amount: amount.toString(),
+      asset: requirements.asset,
+      payTo: requirements.payTo,
+      network: requirements.network,
+    });
+  }
+
+  /**
+   * Backend signer address that receives sold tokens (cached for backendAddressTtlMs)
+   */
+  private async getBackendAddress(): Promise<string> {
+    if (this.backendAddressCache && this.backendAddressCache.expiresAt > Date.now()) {
+      return this.backendAddressCache.address;
+    }
+
+    const response = this.parseResponse(
+      backendAddressSchema,
+      await this.requestWithPayment<unknown>(
+        "GET",
+        "/tokens/backend-address",
+        undefined,
+        "other"
+      ),
+      "GET /tokens/backend-address"
+    );
+    // Checked even when response validation is off - the address receives tokens
+    if (!response?.address || !ethers.isAddress(response.address)) {
+      throw new X402LaunchError(
+        `Backend returned an invalid signer address: ${response?.address}`,
+        "INVALID_BACKEND_ADDRESS"
+      );
+    }
+
+    this.backendAddressCache = {
+      address: ethers.getAddress(response.address),
+      expiresAt: Date.now() + this.backendAddressTtlMs,
+    };
+    return this.backendAddressCache.address;
   }
 
   /**
@@ -484,8 +1488,11 @@ export class X402LaunchClient {
    * ```
    */
   async getTokenInfo(tokenAddress: string): Promise<TokenInfo> {
-    const response = await this.api.get<TokenInfo>(`/tokens/${tokenAddress}`);
-    return response.data;
+    const response = await this.send<unknown>({
+      method: "GET",
+      url: `/tokens/${tokenAddress}`,
+    });
+    return this.parseResponse(tokenInfoSchema, response.data, "GET /tokens/:address");
   }
 
   /**
@@ -510,10 +1517,11 @@ export class X402LaunchClient {
       usdcAmount: params.usdcAmount,
     });
     // Backend expects: GET /tokens/:tokenAddress/quote?usdcAmount=...
-    const response = await this.api.get<BuyQuote>(
-      `/tokens/${params.tokenAddress}/quote?${queryParams.toString()}`
-    );
-    return response.data;
+    const response = await this.send<unknown>({
+      method: "GET",
+      url: `/tokens/${params.tokenAddress}/quote?${queryParams.toString()}`,
+    });
+    return this.parseResponse(buyQuoteSchema, response.data, "GET /tokens/:address/quote");
   }
 
   /**
@@ -531,55 +1539,592 @@ export class X402LaunchClient {
    * console.log(`Estimated USDC: ${quote.estimatedUsdcAmount}`);
    * ```
    */
-  async getSellQuote(
-    params: QuoteParams & { tokenAmount: string }
-  ): Promise<SellQuote> {
-    const queryParams = new URLSearchParams({
-      tokenAmount: params.tokenAmount,
-    });
-    // Backend expects: GET /tokens/:tokenAddress/sell/quote?tokenAmount=...
-    // Note: Backend route is :tokenAddress/sell/quote (confirmed in controller)
-    const response = await this.api.get<SellQuote>(
-      `/tokens/${params.tokenAddress}/sell/quote?${queryParams.toString()}`
-    );
-    return response.data;
+  async getSellQuote(
+    params: QuoteParams & { tokenAmount: string }
+  ): Promise<SellQuote> {
+    const queryParams = new URLSearchParams({
+      tokenAmount: params.tokenAmount,
+    });
+    // Backend expects: GET /tokens/:tokenAddress/sell/quote?tokenAmount=...
+    // Note: Backend route is :tokenAddress/sell/quote (confirmed in controller)
+    const response = await this.send<unknown>({
+      method: "GET",
+      url: `/tokens/${params.tokenAddress}/sell/quote?${queryParams.toString()}`,
+    });
+    return this.parseResponse(
+      sellQuoteSchema,
+      response.data,
+      "GET /tokens/:address/sell/quote"
+    );
+  }
+
+  /**
+   * Read a token's bonding curve once for local quoting
+   *
+   * The model quotes buys and sells, price impact, marginal price and the
+   * USDC needed to reach a progress without further requests. It is a
+   * snapshot: fetch a new one after trades move the curve.
+   *
+   * @param tokenAddress Token contract address
+   * @param query Source of the curve state (default: chain when the bonding curve is known, else API)
+   * @returns Bonding curve model
+   *
+   * @example
+   * ```typescript
+   * const curve = await client.getBondingCurveModel('0x...');
+   * for (const usdcAmount of ['1000000', '5000000', '20000000']) {
+   *   const quote = curve.quoteBuy(usdcAmount);
+   *   console.log(usdcAmount, quote.tokenAmount, `${quote.priceImpactPercent}%`);
+   * }
+   * ```
+   */
+  async getBondingCurveModel(
+    tokenAddress: string,
+    query: BondingCurveQuery = {}
+  ): Promise<BondingCurveModel> {
+    const bondingCurve = getNetwork(this.chainId).contracts?.bondingCurve;
+    const source = query.source || "auto";
+
+    if (source === "chain" && !bondingCurve) {
+      throw new X402LaunchError(
+        "Reading the curve from chain needs the network's bonding curve address (register it with registerNetwork)",
+        "BONDING_CURVE_UNKNOWN"
+      );
+    }
+
+    let state: BondingCurveState;
+    if (source === "api" || !bondingCurve) {
+      // Backend expects: GET /tokens/:tokenAddress/curve
+      const response = await this.send<unknown>({
+        method: "GET",
+        url: `/tokens/${tokenAddress}/curve`,
+      });
+      state = this.parseResponse(
+        bondingCurveStateSchema,
+        response.data,
+        "GET /tokens/:address/curve"
+      );
+    } else {
+      const curve = new ethers.Contract(bondingCurve, bondingCurveStateInterface);
+      const result = await this.getRobustProvider().call(
+        (provider) => (curve.connect(provider) as ethers.Contract).getCurveState(tokenAddress),
+        `getCurveState(${tokenAddress.slice(0, 10)}...)`
+      );
+      state = {
+        tokenAddress: ethers.getAddress(tokenAddress),
+        virtualUsdcReserve: result.virtualUsdcReserve.toString(),
+        virtualTokenReserve: result.virtualTokenReserve.toString(),
+        tokensSold: result.tokensSold.toString(),
+        curveSupply: result.curveSupply.toString(),
+        usdcRaised: result.usdcRaised.toString(),
+        migrated: result.migrated,
+      };
+    }
+    return new BondingCurveModel(state);
+  }
+
+  /**
+   * Discover tokens
+   *
+   * Filter fields are passed to the API as query parameters; use
+   * iterateTokens() to also have them enforced client-side.
+   *
+   * @param options Query options (pagination, sorting, filters)
+   * @returns List of tokens with pagination info
+   *
+   * @example
+   * ```typescript
+   * const { tokens, total } = await client.discoverTokens({
+   *   page: 1,
+   *   limit: 10,
+   *   sortBy: 'volume24h',
+   *   sortOrder: 'desc',
+   * });
+   * ```
+   */
+  async discoverTokens(
+    options?: DiscoverTokensOptions
+  ): Promise<{ tokens: TokenInfo[]; total: number; page: number }> {
+    const response = await this.send<unknown>({
+      method: "GET",
+      url: "/tokens",
+      params: options,
+    });
+    const page = this.parseResponse(tokenListSchema, response.data, "GET /tokens");
+    return {
+      ...page,
+      tokens: this.parseItems(
+        tokenInfoSchema,
+        Array.isArray(page.tokens) ? page.tokens : [],
+        "GET /tokens"
+      ),
+    };
+  }
+
+  /**
+   * Iterate over all tokens matching a filter, fetching pages as needed
+   *
+   * @param filter Discovery filter (server- and client-side)
+   *
+   * @example
+   * ```typescript
+   * for await (const token of client.iterateTokens({
+   *   minProgress: 20,
+   *   maxProgress: 80,
+   *   migrated: false,
+   *   launchedAfter: Date.now() - 24 * 3600_000,
+   *   maxResults: 25,
+   * })) {
+   *   console.log(token.ticker, token.progress);
+   * }
+   * ```
+   */
+  async *iterateTokens(
+    filter: TokenDiscoveryFilter = {}
+  ): AsyncGenerator<TokenInfo, void, undefined> {
+    const pageSize = filter.pageSize || Math.min(50, filter.maxResults || 50);
+    const seen = new Set<string>();
+    let yielded = 0;
+
+    for (let page = 1; ; page++) {
+      const { tokens, total } = await this.discoverTokens(
+        toDiscoveryQuery(filter, page, pageSize)
+      );
+
+      let newTokens = 0;
+      for (const token of tokens || []) {
+        const key = token.address?.toLowerCase();
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+        newTokens++;
+
+        if (!matchesTokenFilter(token, filter)) continue;
+        yield token;
+        yielded++;
+        if (filter.maxResults !== undefined && yielded >= filter.maxResults) {
+          return;
+        }
+      }
+
+      // Stop on the last page, or if the backend ignores paging and repeats itself
+      const lastPage =
+        !tokens ||
+        tokens.length < pageSize ||
+        (typeof total === "number" && page * pageSize >= total);
+      if (lastPage || newTokens === 0) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Subscribe to market events (launches, trades, price updates, migrations)
+   *
+   * Polls the REST API. With a bonding curve address (option or a custom
+   * network definition; built-in networks have none) it reads curve logs
+   * through a RobustProvider instead, falling back to the API while the RPCs
+   * are failing. The curve event ABI is not verified against the contract.
+   *
+   * @param options Event types, token filter, sources and poll intervals
+   * @returns A started stream; call close() when done
+   *
+   * @example
+   * ```typescript
+   * const stream = client.subscribe({ events: ['tokenLaunched', 'trade'] });
+   * stream.on('tokenLaunched', (e) => console.log(`New token ${e.ticker} at ${e.tokenAddress}`));
+   *
+   * // Or consume as an async iterator
+   * for await (const event of stream) {
+   *   if (event.type === 'trade') console.log(event.side, event.usdcAmount);
+   * }
+   * ```
+   */
+  subscribe(options: SubscribeOptions = {}): MarketEventStream {
+    const bondingCurveAddress =
+      options.bondingCurveAddress ||
+      getNetwork(this.chainId).contracts?.bondingCurve;
+
+    const stream = new MarketEventStream(
+      {
+        provider:
+          bondingCurveAddress && options.source !== "api"
+            ? this.getRobustProvider()
+            : undefined,
+        bondingCurveAddress,
+        discoverTokens: (query) => this.discoverTokens(query),
+        logger: this.rootLogger,
+      },
+      options
+    );
+    return stream.start();
+  }
+
+  /**
+   * Reconstruct the wallet's platform token holdings from chain data
+   *
+   * Scans ERC-20 Transfer logs sent from or to the wallet, keeps tokens the
+   * platform knows (getTokenInfo), reads current balances and values each
+   * holding with a sell quote. Works after restarts and for manual trades.
+   *
+   * @param options Block range, extra tokens, and whether to quote holdings
+   *
+   * @example
+   * ```typescript
+   * const portfolio = await client.getPortfolio();
+   * for (const h of portfolio.holdings) {
+   *   console.log(`${h.ticker}: ${ethers.formatEther(h.balance)} (~${h.estimatedUsdcValue} USDC units)`);
+   * }
+   * ```
+   */
+  async getPortfolio(options: PortfolioOptions = {}): Promise<Portfolio> {
+    const provider = this.getRobustProvider();
+    const { fromBlock, toBlock } = await this.getScanRange(options.fromBlock);
+
+    const transfers = await getWalletTransferLogs(
+      provider,
+      this.walletAddress,
+      fromBlock,
+      toBlock,
+      options.maxBlockRange
+    );
+
+    // Every contract that moved tokens in or out of the wallet is a candidate
+    const candidates = new Map<string, { first: number; last: number }>();
+    for (const log of transfers) {
+      const tokenAddress = ethers.getAddress(log.address);
+      if (tokenAddress === this.usdcAddress) continue;
+      const seen = candidates.get(tokenAddress);
+      candidates.set(tokenAddress, {
+        first: seen ? Math.min(seen.first, log.blockNumber) : log.blockNumber,
+        last: seen ? Math.max(seen.last, log.blockNumber) : log.blockNumber,
+      });
+    }
+    for (const token of options.tokens || []) {
+      const tokenAddress = ethers.getAddress(token);
+      if (!candidates.has(tokenAddress)) {
+        candidates.set(tokenAddress, { first: 0, last: 0 });
+      }
+    }
+
+    const holdings: PortfolioHolding[] = [];
+    for (const [tokenAddress, seen] of candidates) {
+      // Only platform tokens - anything else (airdrops, other DEX tokens) is skipped.
+      // Any other failure is reported on the holding instead of failing the portfolio.
+      let info: TokenInfo | undefined;
+      let infoError: string | undefined;
+      try {
+        info = await this.getTokenInfo(tokenAddress);
+      } catch (error: any) {
+        if (error.code === "API_NOT_FOUND") continue;
+        infoError = error.message;
+      }
+
+      const balance: bigint = await provider.call(
+        (p) =>
+          new ethers.Contract(tokenAddress, ERC20_ABI, p).balanceOf(
+            this.walletAddress
+          ),
+        `balanceOf(${tokenAddress.slice(0, 10)}...)`
+      );
+      if (balance === BigInt(0) && !options.includeZeroBalances) continue;
+
+      const holding: PortfolioHolding = {
+        tokenAddress,
+        name: info?.name ?? (await this.readTokenString(tokenAddress, "name")),
+        ticker: info?.ticker ?? (await this.readTokenString(tokenAddress, "symbol")),
+        balance: balance.toString(),
+        migrated: Boolean(info?.migrated),
+        infoError,
+        firstTransferBlock: seen.first,
+        lastTransferBlock: seen.last,
+      };
+
+      if (balance > BigInt(0) && options.quote !== false) {
+        try {
+          const quote = await this.getSellQuote({
+            tokenAddress,
+            tokenAmount: holding.balance,
+          });
+          holding.estimatedUsdcValue = quote.estimatedUsdcAmount;
+          holding.pricePerToken = quote.currentPricePerToken;
+        } catch (error: any) {
+          holding.quoteError = error.message;
+        }
+      }
+      holdings.push(holding);
+    }
+
+    holdings.sort((a, b) => {
+      const diff =
+        BigInt(b.estimatedUsdcValue || "0") - BigInt(a.estimatedUsdcValue || "0");
+      return diff > BigInt(0) ? 1 : diff < BigInt(0) ? -1 : 0;
+    });
+
+    return {
+      wallet: this.walletAddress,
+      holdings,
+      totalEstimatedUsdcValue: holdings
+        .reduce((sum, h) => sum + BigInt(h.estimatedUsdcValue || "0"), BigInt(0))
+        .toString(),
+      fromBlock,
+      toBlock,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get buys and sells of a wallet, normalized from bonding curve events or the API
+   *
+   * @param query Wallet (default: own), token, start time and source
+   * @returns Trades, oldest first
+   *
+   * @example
+   * ```typescript
+   * const trades = await client.getTradeHistory({
+   *   token: '0x...',
+   *   since: Date.now() - 7 * 86400_000,
+   * });
+   * ```
+   */
+  async getTradeHistory(query: TradeHistoryQuery = {}): Promise<TradeRecord[]> {
+    const wallet = ethers.getAddress(query.wallet || this.walletAddress);
+    const bondingCurve = getNetwork(this.chainId).contracts?.bondingCurve;
+    const source = query.source || "auto";
+
+    if (source === "chain" && !bondingCurve) {
+      throw new X402LaunchError(
+        "Chain trade history needs the network's bonding curve address (register it with registerNetwork)",
+        "BONDING_CURVE_UNKNOWN"
+      );
+    }
+
+    let trades: TradeRecord[];
+    if (source === "api" || !bondingCurve) {
+      trades = await this.getApiTradeHistory(wallet, query);
+    } else {
+      const provider = this.getRobustProvider();
+      const { fromBlock, toBlock } = await this.getScanRange(query.fromBlock);
+      const chainTrades = await getBondingCurveTrades(
+        provider,
+        bondingCurve,
+        { trader: wallet, token: query.token },
+        fromBlock,
+        toBlock,
+        query.maxBlockRange
+      );
+      trades = await this.toTradeRecords(chainTrades);
+    }
+
+    return trades
+      .filter((t) => query.since === undefined || t.timestamp >= query.since)
+      .sort(
+        (a, b) =>
+          a.timestamp - b.timestamp ||
+          (a.blockNumber ?? 0) - (b.blockNumber ?? 0) ||
+          (a.logIndex ?? 0) - (b.logIndex ?? 0)
+      );
+  }
+
+  /**
+   * Decode the bonding curve fill of a mined transaction
+   *
+   * @returns The trade, or undefined if the receipt is not available or has no trade event
+   */
+  async getTradeByTransaction(
+    transactionHash: string
+  ): Promise<TradeRecord | undefined> {
+    const receipt = await this.getRobustProvider().call(
+      (p) => p.getTransactionReceipt(transactionHash),
+      `getTransactionReceipt(${transactionHash.slice(0, 10)}...)`
+    );
+    if (!receipt) return undefined;
+
+    const trade = receipt.logs
+      .map(parseBondingCurveTrade)
+      .find((t): t is BondingCurveTrade => t !== null);
+    if (!trade) return undefined;
+
+    const [record] = await this.toTradeRecords([trade]);
+    return record;
+  }
+
+  /**
+   * Cost basis and P&L per token from the wallet's trade history
+   *
+   * Held amounts are valued with a sell quote to compute unrealized P&L.
+   *
+   * @param query Trade history query plus the cost basis method (default: 'fifo')
+   *
+   * @example
+   * ```typescript
+   * const report = await client.getCostBasis({ method: 'average' });
+   * for (const p of report.positions) {
+   *   console.log(p.tokenAddress, p.averageEntryPrice, p.realizedPnl, p.unrealizedPnl);
+   * }
+   * ```
+   */
+  async getCostBasis(
+    query: TradeHistoryQuery & { method?: CostBasisMethod } = {}
+  ): Promise<CostBasisReport> {
+    const trades = await this.getTradeHistory(query);
+    const method = query.method || "fifo";
+    const { positions } = computeCostBasis(trades, method);
+
+    const marketValues: Record<string, string> = {};
+    for (const position of positions) {
+      if (BigInt(position.tokenAmount) < MIN_SELL_AMOUNT) continue;
+      try {
+        const quote = await this.getSellQuote({
+          tokenAddress: position.tokenAddress,
+          tokenAmount: position.tokenAmount,
+        });
+        marketValues[position.tokenAddress] = quote.estimatedUsdcAmount;
+      } catch (error: any) {
+        this.logger.warn("Could not value position for unrealized P&L", {
+          tokenAddress: position.tokenAddress,
+          error: error.message,
+        });
+      }
+    }
+
+    return computeCostBasis(trades, method, marketValues);
+  }
+
+  /**
+   * Trade history from the API (used when no bonding curve address is known)
+   *
+   * GET /trades?wallet=&token=&since= is not in the published API reference;
+   * its response is validated (tradeHistoryResponseSchema) and a backend
+   * without it fails with TRADE_HISTORY_UNAVAILABLE.
+   */
+  private async getApiTradeHistory(
+    wallet: string,
+    query: TradeHistoryQuery
+  ): Promise<TradeRecord[]> {
+    let response: { data: unknown };
+    try {
+      response = await this.send<unknown>({
+        method: "GET",
+        url: "/trades",
+        params: { wallet, token: query.token, since: query.since },
+      });
+    } catch (error) {
+      if (error instanceof X402LaunchError && error.code === "API_NOT_FOUND") {
+        throw new X402LaunchError(
+          "This API has no trade history endpoint (GET /trades). Pass source: 'chain' with a network that registers its bonding curve address.",
+          "TRADE_HISTORY_UNAVAILABLE"
+        );
+      }
+      throw error;
+    }
+    const { trades: entries } = this.parseResponse(
+      tradeHistoryResponseSchema,
+      response.data,
+      "GET /trades"
+    );
+    const trades = this.parseItems(
+      apiTradeEntrySchema,
+      Array.isArray(entries) ? entries : [],
+      "GET /trades"
+    );
+
+    return trades.map((t) => ({
+      side: t.side,
+      tokenAddress: ethers.getAddress(t.tokenAddress),
+      trader: ethers.getAddress(t.trader || wallet),
+      tokenAmount: t.tokenAmount,
+      usdcAmount: t.usdcAmount,
+      pricePerToken: pricePerToken(t.usdcAmount, t.tokenAmount),
+      timestamp: toUnixMs(t.timestamp),
+      source: "api" as const,
+      transactionHash: t.transactionHash,
+      blockNumber: t.blockNumber,
+    }));
+  }
+
+  /**
+   * Attach block timestamps to decoded chain trades
+   */
+  private async toTradeRecords(trades: BondingCurveTrade[]): Promise<TradeRecord[]> {
+    const provider = this.getRobustProvider();
+    const blockTimes = new Map<number, number>();
+    for (const { blockNumber } of trades) {
+      if (blockTimes.has(blockNumber)) continue;
+      const block = await provider.call(
+        (p) => p.getBlock(blockNumber),
+        `getBlock(${blockNumber})`
+      );
+      blockTimes.set(blockNumber, block ? block.timestamp * 1000 : Date.now());
+    }
+
+    return trades.map((t) => ({
+      side: t.side,
+      tokenAddress: t.tokenAddress,
+      trader: t.trader,
+      tokenAmount: t.tokenAmount.toString(),
+      usdcAmount: t.usdcAmount.toString(),
+      pricePerToken: pricePerToken(t.usdcAmount, t.tokenAmount),
+      timestamp: blockTimes.get(t.blockNumber)!,
+      source: "chain" as const,
+      transactionHash: t.transactionHash,
+      blockNumber: t.blockNumber,
+      logIndex: t.logIndex,
+    }));
+  }
+
+  /**
+   * Block range for log scans: explicit start, network startBlock, or the default lookback
+   */
+  private async getScanRange(
+    fromBlock?: number
+  ): Promise<{ fromBlock: number; toBlock: number }> {
+    const toBlock = await this.getRobustProvider().getBlockNumber();
+    return {
+      fromBlock:
+        fromBlock ??
+        getNetwork(this.chainId).contracts?.startBlock ??
+        Math.max(0, toBlock - DEFAULT_LOOKBACK_BLOCKS),
+      toBlock,
+    };
   }
 
   /**
-   * Discover tokens
-   *
-   * @param options Query options (pagination, sorting)
-   * @returns List of tokens with pagination info
-   *
-   * @example
-   * ```typescript
-   * const { tokens, total } = await client.discoverTokens({
-   *   page: 1,
-   *   limit: 10,
-   *   sortBy: 'volume24h',
-   *   sortOrder: 'desc',
-   * });
-   * ```
+   * ERC-20 name or symbol read from the chain ("" if the call fails)
+   */
+  private async readTokenString(
+    tokenAddress: string,
+    method: "name" | "symbol"
+  ): Promise<string> {
+    try {
+      return await this.getRobustProvider().call(
+        (p) => new ethers.Contract(tokenAddress, ERC20_ABI, p)[method](),
+        `${method}(${tokenAddress.slice(0, 10)}...)`
+      );
+    } catch {
+      return "";
+    }
+  }
+
+  /**
+   * Shared RPC provider with retries and fallbacks for log scans
    */
-  async discoverTokens(options?: {
-    page?: number;
-    limit?: number;
-    sortBy?: "marketCap" | "volume24h" | "launchTime";
-    sortOrder?: "asc" | "desc";
-  }): Promise<{ tokens: TokenInfo[]; total: number; page: number }> {
-    const response = await this.api.get<{
-      tokens: TokenInfo[];
-      total: number;
-      page: number;
-    }>("/tokens", { params: options });
-    return response.data;
+  private getRobustProvider(): RobustProvider {
+    if (!this.robustProvider) {
+      this.robustProvider = new RobustProvider(
+        this.rpcUrl,
+        this.chainId,
+        {},
+        this.rootLogger
+      );
+    }
+    return this.robustProvider;
   }
 
   /**
    * Get wallet address
    */
   getWalletAddress(): string {
-    return this.wallet.address;
+    return this.walletAddress;
   }
 
   /**
@@ -612,10 +2157,10 @@ export class X402LaunchClient {
     // The signature proves ownership of the wallet
     // Message format: agentId + wallet address + timestamp
     const timestamp = Math.floor(Date.now() / 1000);
-    const message = `x402-launch: Register agent\nAgent ID: ${params.agentId}\nWallet: ${this.wallet.address}\nTimestamp: ${timestamp}`;
+    const message = `x402-launch: Register agent\nAgent ID: ${params.agentId}\nWallet: ${this.walletAddress}\nTimestamp: ${timestamp}`;
 
     // Sign the message using standard Ethereum message signing
-    const signature = await this.wallet.signMessage(message);
+    const signature = await this.signer.signMessage(message);
 
     const payload = {
       agentId: params.agentId,
@@ -626,10 +2171,16 @@ export class X402LaunchClient {
       signature: signature,
     };
 
-    return this.requestWithPayment<AgentRegistrationResponse>(
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       "/agents/register",
-      payload
+      payload,
+      "other"
+    );
+    return this.parseResponse(
+      agentRegistrationResponseSchema,
+      response,
+      "POST /agents/register"
     );
   }
 
@@ -656,11 +2207,16 @@ export class X402LaunchClient {
     if (ownerAddress) {
       params.ownerAddress = ownerAddress;
     }
-    const response = await this.api.get<HostedAgentStatus>(
-      `/agents/host/${agentId}`,
-      { params }
+    const response = await this.send<unknown>({
+      method: "GET",
+      url: `/agents/host/${agentId}`,
+      params,
+    });
+    return this.parseResponse(
+      hostedAgentStatusSchema,
+      response.data,
+      "GET /agents/host/:agentId"
     );
-    return response.data;
   }
 
   /**
@@ -681,10 +2237,16 @@ export class X402LaunchClient {
    * ```
    */
   async pauseHostedAgent(agentId: string): Promise<HostedAgentControlResponse> {
-    return this.requestWithPayment<HostedAgentControlResponse>(
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       `/agents/host/${agentId}/pause`,
-      {}
+      {},
+      "agent-control"
+    );
+    return this.parseResponse(
+      hostedAgentControlResponseSchema,
+      response,
+      "POST /agents/host/:agentId/pause"
     );
   }
 
@@ -708,10 +2270,16 @@ export class X402LaunchClient {
   async resumeHostedAgent(
     agentId: string
   ): Promise<HostedAgentControlResponse> {
-    return this.requestWithPayment<HostedAgentControlResponse>(
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       `/agents/host/${agentId}/resume`,
-      {}
+      {},
+      "agent-control"
+    );
+    return this.parseResponse(
+      hostedAgentControlResponseSchema,
+      response,
+      "POST /agents/host/:agentId/resume"
     );
   }
 
@@ -733,10 +2301,16 @@ export class X402LaunchClient {
    * ```
    */
   async stopHostedAgent(agentId: string): Promise<HostedAgentControlResponse> {
-    return this.requestWithPayment<HostedAgentControlResponse>(
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       `/agents/host/${agentId}/stop`,
-      {}
+      {},
+      "agent-control"
+    );
+    return this.parseResponse(
+      hostedAgentControlResponseSchema,
+      response,
+      "POST /agents/host/:agentId/stop"
     );
   }
 
@@ -752,7 +2326,7 @@ export class X402LaunchClient {
    * ```
    */
   async getEthBalance(): Promise<bigint> {
-    const balance = await this.provider.getBalance(this.wallet.address);
+    const balance = await this.provider.getBalance(this.walletAddress);
     return BigInt(balance.toString());
   }
 
@@ -768,6 +2342,30 @@ export class X402LaunchClient {
     return balance >= MIN_ETH;
   }
 
+  /**
+   * Get the logger passed in ClientConfig (no-op by default)
+   */
+  getLogger(): Logger {
+    return this.rootLogger;
+  }
+
+  /**
+   * Get the payment policy guarding automatic x402 payments (if configured)
+   */
+  getPaymentPolicy(): PaymentPolicy | undefined {
+    return this.paymentPolicy;
+  }
+
+  /**
+   * Get the payment policy and ledger used by this client
+   *
+   * Pass them to AI providers so model calls count against the same caps
+   * and show up in the same ledger.
+   */
+  getPaymentGuards(): X402PaymentGuards {
+    return { policy: this.paymentPolicy, ledger: this.payments };
+  }
+
   /**
    * Get current execution mode
    *
@@ -792,21 +2390,39 @@ export class X402LaunchClient {
    * Requires x402 payment of 0.01 USDC (testnet pricing)
    *
    * @param params Buy parameters
-   * @returns Signature and parameters to execute the transaction
+   * @returns Signature and parameters to execute the transaction, with the slippage
+   *          limit as `minTokensOut` for executeBuyTransaction to check the fill against
+   *          (a SimulationResult with quote and x402 fee when `simulate: true`; nothing is paid)
    * @throws {PaymentRequiredError} If x402 payment is required
+   * @throws {SlippageExceededError} If the quote is below the slippage limit
    * @throws {X402LaunchError} For other errors
    */
+  buyTokensSelfExecute(params: BuyTokensParams & { simulate: true }): Promise<SimulationResult>;
+  buyTokensSelfExecute(params: BuyTokensParams & { simulate?: false }): Promise<SelfExecuteBuyResponse>;
+  buyTokensSelfExecute(params: BuyTokensParams): Promise<SelfExecuteBuyResponse | SimulationResult>;
   async buyTokensSelfExecute(
     params: BuyTokensParams
-  ): Promise<SelfExecuteBuyResponse> {
-    return this.requestWithPayment<SelfExecuteBuyResponse>(
+  ): Promise<SelfExecuteBuyResponse | SimulationResult> {
+    if (params.simulate) {
+      return this.simulateTrade("buy", "self-execute", params);
+    }
+    const minTokensOut = await this.getMinBuyOutput(params);
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       "/tokens/buy/self-execute",
       {
         tokenAddress: params.tokenAddress,
         usdcAmount: params.usdcAmount,
-      }
+      },
+      "trade",
+      params.idempotencyKey
     );
+    const signedData = this.parseResponse(
+      selfExecuteBuyResponseSchema,
+      response,
+      "POST /tokens/buy/self-execute"
+    );
+    return { ...signedData, minTokensOut: minTokensOut?.toString() };
   }
 
   /**
@@ -815,21 +2431,39 @@ export class X402LaunchClient {
    * Requires x402 payment of 0.01 USDC (testnet pricing)
    *
    * @param params Sell parameters
-   * @returns Signature and parameters to execute the transaction
+   * @returns Signature and parameters to execute the transaction, with the slippage
+   *          limit as `minUsdcOut` for executeSellTransaction to check the fill against
+   *          (a SimulationResult with quote and x402 fee when `simulate: true`; nothing is paid)
    * @throws {PaymentRequiredError} If x402 payment is required
+   * @throws {SlippageExceededError} If the quote is below the slippage limit
    * @throws {X402LaunchError} For other errors
    */
+  sellTokensSelfExecute(params: SellTokensParams & { simulate: true }): Promise<SimulationResult>;
+  sellTokensSelfExecute(params: SellTokensParams & { simulate?: false }): Promise<SelfExecuteSellResponse>;
+  sellTokensSelfExecute(params: SellTokensParams): Promise<SelfExecuteSellResponse | SimulationResult>;
   async sellTokensSelfExecute(
     params: SellTokensParams
-  ): Promise<SelfExecuteSellResponse> {
-    return this.requestWithPayment<SelfExecuteSellResponse>(
+  ): Promise<SelfExecuteSellResponse | SimulationResult> {
+    if (params.simulate) {
+      return this.simulateTrade("sell", "self-execute", params);
+    }
+    const minUsdcOut = await this.getMinSellOutput(params);
+    const response = await this.requestWithPayment<unknown>(
       "POST",
       "/tokens/sell/self-execute",
       {
         tokenAddress: params.tokenAddress,
         tokenAmount: params.tokenAmount,
-      }
+      },
+      "trade",
+      params.idempotencyKey
     );
+    const signedData = this.parseResponse(
+      selfExecuteSellResponseSchema,
+      response,
+      "POST /tokens/sell/self-execute"
+    );
+    return { ...signedData, minUsdcOut: minUsdcOut?.toString() };
   }
 
   /**
@@ -837,292 +2471,678 @@ export class X402LaunchClient {
    * Agent pays gas, backend already verified payment
    *
    * @param signedData Signed transaction data from buyTokensSelfExecute
-   * @returns Transaction hash
-   * @throws {X402LaunchError} If transaction fails or signature expired
+   * @param options `simulate: true` runs the checks, eth_call and gas estimation only
+   *                and returns a SimulationResult; nothing is signed or sent
+   * @returns Actual fill decoded from the receipt, plus gas used and effective gas price
+   * @throws {TransactionRevertedError} If the approval or trade reverts
+   * @throws {TransactionTimeoutError} If it is not confirmed in time (after speed-ups)
+   * @throws {SlippageExceededError} If the fill is below `signedData.minTokensOut` (the trade happened)
+   * @throws {UnknownFillError} If the receipt shows no fill (the trade happened)
+   * @throws {X402LaunchError} If the signature is expiring, not from the backend or its nonce was used
    */
+  executeBuyTransaction(
+    signedData: SelfExecuteBuyResponse,
+    options: { simulate: true }
+  ): Promise<SimulationResult>;
+  executeBuyTransaction(
+    signedData: SelfExecuteBuyResponse,
+    options?: { simulate?: false }
+  ): Promise<SelfExecuteBuyResult>;
+  executeBuyTransaction(
+    signedData: SelfExecuteBuyResponse,
+    options?: { simulate?: boolean }
+  ): Promise<SelfExecuteBuyResult | SimulationResult>;
   async executeBuyTransaction(
-    signedData: SelfExecuteBuyResponse
-  ): Promise<string> {
-    // SECURITY: Validate signature hasn't expired
-    const now = Math.floor(Date.now() / 1000);
-    if (now > signedData.expiry) {
-      throw new X402LaunchError(
-        `Transaction signature expired. Expiry: ${signedData.expiry}, Current: ${now}`,
-        "SIGNATURE_EXPIRED"
-      );
+    signedData: SelfExecuteBuyResponse,
+    options: { simulate?: boolean } = {}
+  ): Promise<SelfExecuteBuyResult | SimulationResult> {
+    const trade: SignedTrade = { side: "buy", data: signedData };
+    if (options.simulate) {
+      return this.simulateSignedTrade(trade);
     }
 
-    // SECURITY: Validate buyer address matches our wallet
-    if (
-      signedData.buyerAddress.toLowerCase() !==
-      this.wallet.address.toLowerCase()
-    ) {
-      throw new X402LaunchError(
-        `Buyer address mismatch. Signature is for ${signedData.buyerAddress}, but wallet is ${this.wallet.address}`,
-        "ADDRESS_MISMATCH"
-      );
-    }
+    // SECURITY: Reject anything the contract would revert on before paying gas
+    await this.verifySignedTrade(trade);
 
     // Step 1: Approve USDC to bonding curve (if not already approved)
-    const usdcAbi = [
-      "function approve(address spender, uint256 amount) external returns (bool)",
-      "function allowance(address owner, address spender) view returns (uint256)",
-    ];
-
-    const usdcContract = new ethers.Contract(
+    await this.ensureAllowance(
       this.usdcAddress,
-      usdcAbi,
-      this.wallet.connect(this.provider)
-    );
-
-    // Check current allowance
-    const currentAllowance = await usdcContract.allowance(
-      this.wallet.address,
-      signedData.bondingCurveAddress
+      signedData.bondingCurveAddress,
+      BigInt(signedData.usdcAmount),
+      "USDC"
     );
 
-    // Approve if needed
-    if (currentAllowance < BigInt(signedData.usdcAmount)) {
-      console.log(
-        `[SDK] Approving ${signedData.usdcAmount} USDC to bonding curve...`
-      );
-      const approveTx = await usdcContract.approve(
-        signedData.bondingCurveAddress,
-        signedData.usdcAmount
+    // Step 2: Execute buy transaction
+    this.logger.info("Executing buy transaction", { tokenAddress: signedData.tokenAddress });
+    const receipt = await this.transactions.send(getTradeRequest(trade), "buy");
+    this.usedTradeNonces.add(signedData.nonce.toLowerCase());
+
+    const fill = this.decodeSelfExecuteFill(receipt, "buy", signedData);
+    const tokenAmount = fill.tokenAmount.toString();
+    // Transfer fills without a USDC transfer from the wallet only show the tokens
+    const usdcPaid = fill.usdcAmount > BigInt(0) ? fill.usdcAmount.toString() : signedData.usdcAmount;
+    if (signedData.minTokensOut !== undefined && fill.tokenAmount < BigInt(signedData.minTokensOut)) {
+      throw new SlippageExceededError(
+        "fill",
+        "buy",
+        signedData.tokenAddress,
+        signedData.minTokensOut,
+        tokenAmount,
+        receipt.hash
       );
-      const approveReceipt = await approveTx.wait();
+    }
+    return {
+      transactionHash: receipt.hash,
+      buyer: this.walletAddress,
+      tokenAddress: signedData.tokenAddress,
+      tokenAmount,
+      usdcPaid,
+      averagePricePerToken: pricePerToken(usdcPaid, tokenAmount),
+      ...this.getReceiptInfo(receipt, fill),
+    };
+  }
 
-      if (!approveReceipt || approveReceipt.status !== 1) {
-        throw new X402LaunchError(
-          `USDC approval transaction failed`,
-          "APPROVAL_FAILED"
-        );
-      }
+  /**
+   * Execute a sell transaction using backend signature (self-execute mode)
+   * Agent pays gas, backend already verified payment
+   *
+   * @param signedData Signed transaction data from sellTokensSelfExecute
+   * @param options `simulate: true` runs the checks, eth_call and gas estimation only
+   *                and returns a SimulationResult; nothing is signed or sent
+   * @returns Actual fill decoded from the receipt, plus gas used and effective gas price
+   * @throws {TransactionRevertedError} If the approval or trade reverts
+   * @throws {TransactionTimeoutError} If it is not confirmed in time (after speed-ups)
+   * @throws {SlippageExceededError} If the fill is below `signedData.minUsdcOut` (the trade happened)
+   * @throws {UnknownFillError} If the receipt shows no fill (the trade happened)
+   * @throws {X402LaunchError} If the signature is expiring, not from the backend or its nonce was used
+   */
+  executeSellTransaction(
+    signedData: SelfExecuteSellResponse,
+    options: { simulate: true }
+  ): Promise<SimulationResult>;
+  executeSellTransaction(
+    signedData: SelfExecuteSellResponse,
+    options?: { simulate?: false }
+  ): Promise<SelfExecuteSellResult>;
+  executeSellTransaction(
+    signedData: SelfExecuteSellResponse,
+    options?: { simulate?: boolean }
+  ): Promise<SelfExecuteSellResult | SimulationResult>;
+  async executeSellTransaction(
+    signedData: SelfExecuteSellResponse,
+    options: { simulate?: boolean } = {}
+  ): Promise<SelfExecuteSellResult | SimulationResult> {
+    const trade: SignedTrade = { side: "sell", data: signedData };
+    if (options.simulate) {
+      return this.simulateSignedTrade(trade);
+    }
+
+    // SECURITY: Reject anything the contract would revert on before paying gas
+    await this.verifySignedTrade(trade);
+
+    // Step 1: Approve tokens to bonding curve (if not already approved)
+    await this.ensureAllowance(
+      signedData.tokenAddress,
+      signedData.bondingCurveAddress,
+      BigInt(signedData.tokenAmount),
+      "tokens"
+    );
 
-      console.log(
-        `[SDK] ✅ Approval transaction confirmed in block ${approveReceipt.blockNumber}`
+    // Step 2: Execute sell transaction
+    this.logger.info("Executing sell transaction", { tokenAddress: signedData.tokenAddress });
+    const receipt = await this.transactions.send(getTradeRequest(trade), "sell");
+    this.usedTradeNonces.add(signedData.nonce.toLowerCase());
+
+    const fill = this.decodeSelfExecuteFill(receipt, "sell", signedData);
+    // Transfer fills without a token transfer from the wallet only show the USDC
+    const tokenAmount = fill.tokenAmount > BigInt(0) ? fill.tokenAmount.toString() : signedData.tokenAmount;
+    const usdcReceived = fill.usdcAmount.toString();
+    if (signedData.minUsdcOut !== undefined && fill.usdcAmount < BigInt(signedData.minUsdcOut)) {
+      throw new SlippageExceededError(
+        "fill",
+        "sell",
+        signedData.tokenAddress,
+        signedData.minUsdcOut,
+        usdcReceived,
+        receipt.hash
       );
+    }
+    return {
+      transactionHash: receipt.hash,
+      seller: this.walletAddress,
+      tokenAddress: signedData.tokenAddress,
+      tokenAmount,
+      usdcReceived,
+      averagePricePerToken: pricePerToken(usdcReceived, tokenAmount),
+      ...this.getReceiptInfo(receipt, fill),
+    };
+  }
 
-      // Verify allowance with retry logic (RPC nodes may have state sync delay)
-      let newAllowance = BigInt(0);
-      const maxRetries = 3;
-      const retryDelays = [500, 1000, 2000]; // 0.5s, 1s, 2s
-      let attempt = 0;
+  /**
+   * Check a backend-signed trade before broadcasting it
+   *
+   * Rejects expired or soon-expiring signatures, trades for another wallet
+   * and nonces that were already used (by this client or on-chain). The
+   * signer is only checked when `backendSigner` is configured (see
+   * backend-signature.ts for the assumed digest); without it, the first
+   * trade logs a warning.
+   */
+  private async verifySignedTrade(trade: SignedTrade): Promise<void> {
+    const { data } = trade;
+    const trader =
+      trade.side === "buy" ? trade.data.buyerAddress : trade.data.sellerAddress;
 
-      while (
-        attempt < maxRetries &&
-        newAllowance < BigInt(signedData.usdcAmount)
-      ) {
-        attempt++;
+    const now = Math.floor(Date.now() / 1000);
+    if (now + this.minExpiryBufferSeconds > data.expiry) {
+      throw new SignatureExpiredError(
+        `Transaction signature expires too soon to confirm. Expiry: ${data.expiry}, Current: ${now}, Required buffer: ${this.minExpiryBufferSeconds}s`
+      );
+    }
 
-        // First check immediately, then wait with delays
-        if (attempt > 1) {
-          const delay = retryDelays[attempt - 2];
-          console.log(`[SDK] Waiting ${delay}ms for RPC state to sync...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
+    if (trader.toLowerCase() !== this.walletAddress.toLowerCase()) {
+      throw new X402LaunchError(
+        `${trade.side === "buy" ? "Buyer" : "Seller"} address mismatch. Signature is for ${trader}, but wallet is ${this.walletAddress}`,
+        "ADDRESS_MISMATCH"
+      );
+    }
 
-        newAllowance = await usdcContract.allowance(
-          this.wallet.address,
-          signedData.bondingCurveAddress
-        );
-        console.log(
-          `[SDK] Allowance check (${attempt}/${maxRetries}): ${newAllowance.toString()} (required: ${
-            signedData.usdcAmount
-          })`
+    if (!this.backendSigner) {
+      if (!this.warnedUncheckedSigner) {
+        this.warnedUncheckedSigner = true;
+        this.logger.warn(
+          "Backend signatures are NOT verified: set backendSigner to reject trades signed by anyone else",
+          { bondingCurve: data.bondingCurveAddress }
         );
-
-        if (newAllowance >= BigInt(signedData.usdcAmount)) {
-          break; // Success!
-        }
       }
-
-      if (newAllowance < BigInt(signedData.usdcAmount)) {
+    } else {
+      const signer = recoverTradeSigner(trade);
+      if (signer !== this.backendSigner) {
         throw new X402LaunchError(
-          `Approval failed: allowance is ${newAllowance}, needs ${signedData.usdcAmount}. Transaction confirmed but RPC state not updated after ${maxRetries} retries.`,
-          "ALLOWANCE_VERIFICATION_FAILED"
+          `Backend signature is invalid: recovered ${signer ?? "nothing"}, expected ${this.backendSigner}`,
+          "INVALID_BACKEND_SIGNATURE"
         );
       }
+    }
 
-      console.log(`[SDK] ✅ USDC approved and verified`);
+    if (
+      this.usedTradeNonces.has(data.nonce.toLowerCase()) ||
+      (await this.isTradeNonceUsedOnChain(data.bondingCurveAddress, data.nonce))
+    ) {
+      throw new NonceUsedError(`Trade nonce ${data.nonce} was already used`);
     }
+  }
 
-    // Step 2: Execute buy transaction
-    const bondingCurveAbi = [
-      "function buyTokensWithUSDC(uint256 usdcAmount, address buyer, address tokenAddress, bytes32 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) external returns (uint256)",
-    ];
+  /**
+   * Dry run of executeBuyTransaction / executeSellTransaction
+   *
+   * Runs the signature checks, then eth_call and gas estimation for the
+   * trade. If the allowance is too low, see simulateApproval.
+   */
+  private async simulateSignedTrade(trade: SignedTrade): Promise<SimulationResult> {
+    const { data } = trade;
+    const isBuy = trade.side === "buy";
+    const result: SimulationResult = {
+      operation: trade.side,
+      mode: "self-execute",
+      success: false,
+      tokenAddress: data.tokenAddress,
+      expectedTokenAmount: isBuy ? undefined : trade.data.tokenAmount,
+      expectedUsdcAmount: isBuy ? trade.data.usdcAmount : undefined,
+    };
 
-    const contract = new ethers.Contract(
-      signedData.bondingCurveAddress,
-      bondingCurveAbi,
-      this.wallet.connect(this.provider)
+    try {
+      await this.verifySignedTrade(trade);
+    } catch (error) {
+      if (error instanceof X402LaunchError) {
+        return { ...result, error: error.message, errorCode: error.code };
+      }
+      throw error;
+    }
+
+    const token = isBuy ? this.usdcAddress : data.tokenAddress;
+    const amount = BigInt(isBuy ? trade.data.usdcAmount : trade.data.tokenAmount);
+    const erc20 = new ethers.Contract(token, ALLOWANCE_ABI, this.provider);
+    const allowance: bigint = await erc20.allowance(
+      this.walletAddress,
+      data.bondingCurveAddress
     );
+    result.approvalRequired = allowance < amount;
+
+    if (result.approvalRequired) {
+      return this.simulateApproval(trade, token, amount, allowance, result);
+    }
 
-    // Split signature into v, r, s
-    const signature = ethers.Signature.from(signedData.signature);
+    const simulation = await this.transactions.simulate(getTradeRequest(trade), trade.side);
+    if (!simulation.success || !simulation.returnData) {
+      return {
+        ...result,
+        revertReason: simulation.revertReason,
+        error: simulation.error ?? "Trade call reverted",
+      };
+    }
 
-    // Execute transaction
-    console.log(`[SDK] Executing buy transaction...`);
-    const tx = await contract.buyTokensWithUSDC(
-      signedData.usdcAmount,
-      signedData.buyerAddress,
-      signedData.tokenAddress,
-      signedData.nonce,
-      signedData.expiry,
-      signature.v,
-      signature.r,
-      signature.s
+    const gas = simulation.gasLimit ?? BigInt(0);
+    const [amountOut] = BONDING_CURVE_TRADE_INTERFACE.decodeFunctionResult(
+      isBuy ? "buyTokensWithUSDC" : "sellTokensForUSDC",
+      simulation.returnData
     );
-
-    await tx.wait();
-    console.log(`[SDK] ✅ Buy transaction confirmed: ${tx.hash}`);
-    return tx.hash;
+    const maxFeePerGas = simulation.maxFeePerGas ?? BigInt(0);
+    return {
+      ...result,
+      success: true,
+      expectedTokenAmount: isBuy ? amountOut.toString() : result.expectedTokenAmount,
+      expectedUsdcAmount: isBuy ? result.expectedUsdcAmount : amountOut.toString(),
+      gasEstimate: gas.toString(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      estimatedGasCost: (gas * maxFeePerGas).toString(),
+    };
   }
 
   /**
-   * Execute a sell transaction using backend signature (self-execute mode)
-   * Agent pays gas, backend already verified payment
+   * Dry run of a signed trade that needs an approval first
    *
-   * @param signedData Signed transaction data from sellTokensSelfExecute
-   * @returns Transaction hash
-   * @throws {X402LaunchError} If transaction fails or signature expired
+   * The trade call would revert against the current allowance, so only the
+   * approval is simulated. The shortfall is reported separately and the
+   * expected amounts come from the API quote.
    */
-  async executeSellTransaction(
-    signedData: SelfExecuteSellResponse
-  ): Promise<string> {
-    // SECURITY: Validate signature hasn't expired
-    const now = Math.floor(Date.now() / 1000);
-    if (now > signedData.expiry) {
-      throw new X402LaunchError(
-        `Transaction signature expired. Expiry: ${signedData.expiry}, Current: ${now}`,
-        "SIGNATURE_EXPIRED"
-      );
+  private async simulateApproval(
+    trade: SignedTrade,
+    token: string,
+    amount: bigint,
+    allowance: bigint,
+    result: SimulationResult
+  ): Promise<SimulationResult> {
+    const { data } = trade;
+    result.allowanceShortfall = (amount - allowance).toString();
+
+    const approval = await this.transactions.simulate(
+      {
+        to: token,
+        data: allowanceInterface.encodeFunctionData("approve", [
+          data.bondingCurveAddress,
+          getApprovalAmount(this.allowanceStrategy, amount, this.allowanceCap),
+        ]),
+      },
+      "approve"
+    );
+    if (!approval.success) {
+      return {
+        ...result,
+        revertReason: approval.revertReason,
+        error: approval.error ?? "Approval call reverted",
+      };
     }
 
-    // SECURITY: Validate seller address matches our wallet
-    if (
-      signedData.sellerAddress.toLowerCase() !==
-      this.wallet.address.toLowerCase()
-    ) {
-      throw new X402LaunchError(
-        `Seller address mismatch. Signature is for ${signedData.sellerAddress}, but wallet is ${this.wallet.address}`,
-        "ADDRESS_MISMATCH"
-      );
+    try {
+      if (trade.side === "buy") {
+        const quote = await this.getBuyQuote({
+          tokenAddress: data.tokenAddress,
+          usdcAmount: trade.data.usdcAmount,
+        });
+        result.expectedTokenAmount = quote.estimatedTokenAmount;
+      } else {
+        const quote = await this.getSellQuote({
+          tokenAddress: data.tokenAddress,
+          tokenAmount: trade.data.tokenAmount,
+        });
+        result.expectedUsdcAmount = quote.estimatedUsdcAmount;
+      }
+    } catch (error) {
+      if (error instanceof X402LaunchError) {
+        return { ...result, error: error.message, errorCode: error.code };
+      }
+      throw error;
     }
 
-    // Step 1: Approve tokens to bonding curve (if not already approved)
-    const tokenAbi = [
-      "function approve(address spender, uint256 amount) external returns (bool)",
-      "function allowance(address owner, address spender) view returns (uint256)",
-    ];
+    const gas = approval.gasLimit ?? BigInt(0);
+    const maxFeePerGas = approval.maxFeePerGas ?? BigInt(0);
+    return {
+      ...result,
+      success: true,
+      gasEstimate: gas.toString(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      estimatedGasCost: (gas * maxFeePerGas).toString(),
+    };
+  }
 
-    const tokenContract = new ethers.Contract(
-      signedData.tokenAddress,
-      tokenAbi,
-      this.wallet.connect(this.provider)
+  /**
+   * Best effort: curves without a `usedNonces` view are treated as unused
+   */
+  private async isTradeNonceUsedOnChain(
+    bondingCurve: string,
+    nonce: string
+  ): Promise<boolean> {
+    const curve = new ethers.Contract(
+      bondingCurve,
+      BONDING_CURVE_TRADE_INTERFACE,
+      this.provider
     );
+    try {
+      return await curve.usedNonces(nonce);
+    } catch {
+      return false;
+    }
+  }
 
-    // Check current allowance
-    const currentAllowance = await tokenContract.allowance(
-      this.wallet.address,
-      signedData.bondingCurveAddress
+  /**
+   * Find lingering approvals to bonding curves and set them to zero
+   *
+   * Scans the wallet's Approval logs, re-reads each allowance and sends one
+   * approve(spender, 0) per non-zero allowance. By default only known bonding
+   * curves are revoked: the network's configured curve and every curve this
+   * client approved.
+   *
+   * @param options Spenders, tokens and scan start block
+   * @returns The allowances that were revoked
+   * @throws {TransactionRevertedError} If a revoke reverts
+   * @throws {X402LaunchError} If log scans fail
+   *
+   * @example
+   * ```typescript
+   * const revoked = await client.revokeAllowances();
+   * revoked.forEach((r) => console.log(`${r.tokenAddress} -> ${r.spender}: ${r.transactionHash}`));
+   * ```
+   */
+  async revokeAllowances(
+    options: RevokeAllowancesOptions = {}
+  ): Promise<RevokedAllowance[]> {
+    const spenders = new Set(
+      (options.spenders || this.getKnownBondingCurves()).map((a) =>
+        ethers.getAddress(a)
+      )
     );
-
-    // Approve if needed
-    if (currentAllowance < BigInt(signedData.tokenAmount)) {
-      console.log(
-        `[SDK] Approving ${signedData.tokenAmount} tokens to bonding curve...`
-      );
-      const approveTx = await tokenContract.approve(
-        signedData.bondingCurveAddress,
-        signedData.tokenAmount
+    if (spenders.size === 0) {
+      throw new X402LaunchError(
+        "No bonding curves known for this network - pass options.spenders",
+        "NO_SPENDERS"
       );
-      const approveReceipt = await approveTx.wait();
+    }
+    const tokens = options.tokens
+      ? new Set(options.tokens.map((a) => ethers.getAddress(a)))
+      : undefined;
 
-      if (!approveReceipt || approveReceipt.status !== 1) {
-        throw new X402LaunchError(
-          `Token approval transaction failed`,
-          "APPROVAL_FAILED"
-        );
-      }
+    const { fromBlock, toBlock } = await this.getScanRange(options.fromBlock);
+    const logs = await getLogsInRange(
+      this.getRobustProvider(),
+      {
+        topics: [
+          APPROVAL_TOPIC,
+          ethers.zeroPadValue(ethers.getAddress(this.walletAddress), 32),
+        ],
+      },
+      fromBlock,
+      toBlock
+    );
+
+    // Unique token/spender pairs; allowances are re-read, logs only find candidates
+    const pairs = new Map<string, { token: string; spender: string }>();
+    for (const log of logs) {
+      const token = ethers.getAddress(log.address);
+      const spender = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+      if (!spenders.has(spender) || (tokens && !tokens.has(token))) continue;
+      pairs.set(`${token}:${spender}`, { token, spender });
+    }
 
-      console.log(
-        `[SDK] ✅ Approval transaction confirmed in block ${approveReceipt.blockNumber}`
+    const revoked: RevokedAllowance[] = [];
+    for (const { token, spender } of pairs.values()) {
+      const erc20 = new ethers.Contract(token, ALLOWANCE_ABI, this.provider);
+      const current: bigint = await erc20.allowance(this.walletAddress, spender);
+      if (current === BigInt(0)) continue;
+
+      this.logger.info("Revoking allowance", { token, spender, allowance: current });
+      const receipt = await this.transactions.send(
+        {
+          to: token,
+          data: allowanceInterface.encodeFunctionData("approve", [spender, 0]),
+        },
+        "revoke"
       );
+      revoked.push({
+        tokenAddress: token,
+        spender,
+        previousAllowance: current.toString(),
+        transactionHash: receipt.hash,
+      });
+    }
+    this.logger.info("Revoked allowances", { count: revoked.length });
+    return revoked;
+  }
+
+  /**
+   * Bonding curves this client knows: the network's configured curve and any it approved
+   */
+  private getKnownBondingCurves(): string[] {
+    const curves = new Set(this.approvedSpenders);
+    const configured = getNetwork(this.chainId).contracts?.bondingCurve;
+    if (configured) curves.add(ethers.getAddress(configured));
+    return [...curves];
+  }
 
-      // Verify allowance with retry logic (RPC nodes may have state sync delay)
-      let newAllowance = BigInt(0);
-      const maxRetries = 3;
-      const retryDelays = [500, 1000, 2000]; // 0.5s, 1s, 2s
-      let attempt = 0;
+  /**
+   * Make sure `spender` may move `amount` of `token`, using the allowance strategy
+   */
+  private async ensureAllowance(
+    token: string,
+    spender: string,
+    amount: bigint,
+    label: string
+  ): Promise<void> {
+    this.approvedSpenders.add(ethers.getAddress(spender));
+    const erc20 = new ethers.Contract(token, ALLOWANCE_ABI, this.provider);
+    const current: bigint = await erc20.allowance(this.walletAddress, spender);
+    if (current >= amount) return;
+
+    const approval = getApprovalAmount(this.allowanceStrategy, amount, this.allowanceCap);
+    const data = erc20.interface.encodeFunctionData("approve", [spender, approval]);
+
+    this.logger.info("Approving bonding curve", { token, spender, amount: approval });
+    const receipt = await this.transactions.send({ to: token, data }, `approve ${label}`);
+
+    // Read at the approval's block so a lagging RPC node cannot report the old allowance
+    const confirmed: bigint = await erc20.allowance(this.walletAddress, spender, {
+      blockTag: receipt.blockNumber,
+    });
+    if (confirmed < amount) {
+      throw new X402LaunchError(
+        `Approval failed: allowance is ${confirmed}, needs ${amount} (approve tx ${receipt.hash})`,
+        "ALLOWANCE_VERIFICATION_FAILED"
+      );
+    }
+    this.logger.info("Allowance verified", { token, spender, allowance: confirmed });
+  }
 
-      while (
-        attempt < maxRetries &&
-        newAllowance < BigInt(signedData.tokenAmount)
-      ) {
-        attempt++;
+  /**
+   * Decode the actual fill of a self-executed trade from its receipt
+   *
+   * @throws {UnknownFillError} If the receipt shows no trade event or transfer of the amount out
+   */
+  private decodeSelfExecuteFill(
+    receipt: ethers.TransactionReceipt,
+    side: "buy" | "sell",
+    signedData: { bondingCurveAddress: string; tokenAddress: string }
+  ): ReceiptFill {
+    const fill = decodeTradeFill(receipt, {
+      side,
+      trader: this.walletAddress,
+      tokenAddress: signedData.tokenAddress,
+      usdcAddress: this.usdcAddress,
+      bondingCurveAddress: signedData.bondingCurveAddress,
+    });
+    // The receipt must at least show what the trade is for: tokens bought, USDC received
+    if (!fill || (side === "buy" ? fill.tokenAmount : fill.usdcAmount) === BigInt(0)) {
+      throw new UnknownFillError(side, signedData.tokenAddress, receipt.hash);
+    }
+    return fill;
+  }
 
-        // First check immediately, then wait with delays
-        if (attempt > 1) {
-          const delay = retryDelays[attempt - 2];
-          console.log(`[SDK] Waiting ${delay}ms for RPC state to sync...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-        }
+  private getReceiptInfo(
+    receipt: ethers.TransactionReceipt,
+    fill: ReceiptFill
+  ): SelfExecuteReceiptInfo {
+    return {
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      gasCost: receipt.fee.toString(),
+      fillSource: fill.source,
+    };
+  }
+}
 
-        newAllowance = await tokenContract.allowance(
-          this.wallet.address,
-          signedData.bondingCurveAddress
-        );
-        console.log(
-          `[SDK] Allowance check (${attempt}/${maxRetries}): ${newAllowance.toString()} (required: ${
-            signedData.tokenAmount
-          })`
-        );
+/**
+ * Transaction hash of a write response, if it has one
+ */
+function getTransactionHash(result: unknown): string | undefined {
+  if (typeof result !== "object" || result === null) {
+    return undefined;
+  }
+  const { transactionHash } = result as { transactionHash?: unknown };
+  return typeof transactionHash === "string" ? transactionHash : undefined;
+}
 
-        if (newAllowance >= BigInt(signedData.tokenAmount)) {
-          break; // Success!
-        }
-      }
+// Gasless trades, whose error messages relay the contract revert
+const RELAYED_REVERT_ENDPOINTS = new Set(["/tokens/buy", "/tokens/sell"]);
 
-      if (newAllowance < BigInt(signedData.tokenAmount)) {
-        throw new X402LaunchError(
-          `Approval failed: allowance is ${newAllowance}, needs ${signedData.tokenAmount}. Transaction confirmed but RPC state not updated after ${maxRetries} retries.`,
-          "ALLOWANCE_VERIFICATION_FAILED"
-        );
-      }
+/**
+ * Convert an axios error to the typed SDK error for its HTTP status
+ */
+function toApiError(error: any, endpoint: string): Error {
+  if (error.response?.status === 402) {
+    // Payment required - extract all offered options (selection happens when paying)
+    const paymentOptions = extractPaymentOptions(error.response.data);
+    return new PaymentRequiredError(
+      error.response.data?.error || "Payment required",
+      paymentOptions[0],
+      paymentOptions
+    );
+  }
 
-      console.log(`[SDK] ✅ Tokens approved and verified`);
-    }
+  if (error.response?.status === 429) {
+    const retryAfter = error.response.headers["retry-after"];
+    return new RateLimitError(
+      "Rate limit exceeded",
+      retryAfter ? parseInt(retryAfter) : undefined
+    );
+  }
 
-    // Step 2: Execute sell transaction
-    const bondingCurveAbi = [
-      "function sellTokensForUSDC(uint256 tokenAmount, address seller, address tokenAddress, bytes32 nonce, uint256 expiry, uint8 v, bytes32 r, bytes32 s) external returns (uint256)",
-    ];
+  if (!error.response) {
+    // Include the actual error code/message for debugging
+    const errorCode = error.code || 'UNKNOWN';
+    const errorMsg = error.message || 'No response received';
+    return new NetworkError(
+      `Network error (${errorCode}): ${errorMsg}`
+    );
+  }
 
-    const contract = new ethers.Contract(
-      signedData.bondingCurveAddress,
-      bondingCurveAbi,
-      this.wallet.connect(this.provider)
+  // Handle 404 specifically - API endpoint not found
+  if (error.response.status === 404) {
+    const baseUrl = error.config?.baseURL || "unknown";
+    const endpoint = error.config?.url || "unknown";
+    const fullUrl = endpoint.startsWith("http")
+      ? endpoint
+      : `${baseUrl}${endpoint}`;
+    return new X402LaunchError(
+      `API endpoint not found (404): ${fullUrl}. Check if the endpoint '${endpoint}' exists or if the base URL '${baseUrl}' is correct.`,
+      "API_NOT_FOUND"
     );
+  }
 
-    // Split signature into v, r, s
-    const signature = ethers.Signature.from(signedData.signature);
+  const message =
+    error.response.data?.message ||
+    error.message ||
+    `HTTP ${error.response.status}: ${error.response.statusText}`;
+
+  // Gasless trades relay contract reverts as messages - type the known ones
+  const revertError = RELAYED_REVERT_ENDPOINTS.has(endpoint)
+    ? decodeApiRevert(message)
+    : null;
+  return (
+    revertError ||
+    new X402LaunchError(
+      message,
+      error.response.data?.code || String(error.response.status)
+    )
+  );
+}
 
-    // Execute transaction
-    console.log(`[SDK] Executing sell transaction...`);
-    const tx = await contract.sellTokensForUSDC(
-      signedData.tokenAmount,
-      signedData.sellerAddress,
-      signedData.tokenAddress,
-      signedData.nonce,
-      signedData.expiry,
-      signature.v,
-      signature.r,
-      signature.s
+/**
+ * SDK errors pass through unchanged; anything else is wrapped with the failing step
+ */
+function toSellError(step: SellStep, tokenAddress: string, error: unknown): X402LaunchError {
+  return error instanceof X402LaunchError
+    ? error
+    : new SellExecutionError(step, tokenAddress, error);
+}
+
+/**
+ * Reject sells too small to return any USDC
+ */
+function checkSellAmount(tokenAmount: string): bigint {
+  const amount = BigInt(tokenAmount);
+  if (amount < MIN_SELL_AMOUNT) {
+    throw new X402LaunchError(
+      `Amount too small to sell: ${tokenAmount} tokens (< 0.01 tokens). ` +
+        `This amount would return 0 USDC. Minimum sellable amount: ${MIN_SELL_AMOUNT.toString()} wei (0.01 tokens).`,
+      "AMOUNT_TOO_SMALL"
     );
+  }
+  return amount;
+}
+
+/**
+ * Bonding curve call for a backend-signed trade
+ */
+function getTradeRequest(trade: SignedTrade): ethers.TransactionRequest {
+  const signature = ethers.Signature.from(trade.data.signature);
+  const data =
+    trade.side === "buy"
+      ? BONDING_CURVE_TRADE_INTERFACE.encodeFunctionData("buyTokensWithUSDC", [
+          trade.data.usdcAmount,
+          trade.data.buyerAddress,
+          trade.data.tokenAddress,
+          trade.data.nonce,
+          trade.data.expiry,
+          signature.v,
+          signature.r,
+          signature.s,
+        ])
+      : BONDING_CURVE_TRADE_INTERFACE.encodeFunctionData("sellTokensForUSDC", [
+          trade.data.tokenAmount,
+          trade.data.sellerAddress,
+          trade.data.tokenAddress,
+          trade.data.nonce,
+          trade.data.expiry,
+          signature.v,
+          signature.r,
+          signature.s,
+        ]);
+  return { to: trade.data.bondingCurveAddress, data };
+}
 
-    await tx.wait();
-    console.log(`[SDK] ✅ Sell transaction confirmed: ${tx.hash}`);
-    return tx.hash;
+/**
+ * Split a sell amount into near-equal chunks that each fit the limit
+ */
+function splitSellAmount(total: bigint, limit: bigint): bigint[] {
+  const count = (total + limit - BigInt(1)) / limit;
+  const base = total / count;
+  const remainder = total % count;
+  const chunks: bigint[] = [];
+  for (let i = BigInt(0); i < count; i++) {
+    chunks.push(i < remainder ? base + BigInt(1) : base);
+  }
+  return chunks;
+}
+
+/**
+ * Check a basis-point slippage limit (0-10000)
+ */
+function validateSlippageBps(bps?: number): number | undefined {
+  if (bps === undefined) return undefined;
+  if (!Number.isInteger(bps) || bps < 0 || bps > 10000) {
+    throw new X402LaunchError(
+      `Invalid maxSlippageBps: ${bps}. Use an integer between 0 and 10000 (100 = 1%).`,
+      "INVALID_SLIPPAGE"
+    );
   }
+  return bps;
 }
@@ -0,0 +1,275 @@
+/**
+ * On-chain contract ABIs and log helpers
+ *
+ * Event definitions of the AgentPad bonding curve and ERC-20 tokens, plus
+ * helpers to fetch and decode their logs through a RobustProvider (retries
+ * and RPC fallbacks).
+ */
+
+import { ethers } from 'ethers';
+import type { RobustProvider } from './agent/rpc-provider';
+
+/**
+ * Bonding curve events (prices are USDC per whole token, 6 decimals)
+ *
+ * Unverified: written from the platform's API fields, not taken from the
+ * deployed contract. Only used when a bonding curve address is configured.
+ */
+export const BONDING_CURVE_EVENTS_ABI = [
+  'event TokenLaunched(address indexed token, address indexed creator, string name, string symbol)',
+  'event TokensPurchased(address indexed token, address indexed buyer, uint256 usdcAmount, uint256 tokenAmount, uint256 newPrice)',
+  'event TokensSold(address indexed token, address indexed seller, uint256 tokenAmount, uint256 usdcAmount, uint256 newPrice)',
+  'event TokenMigrated(address indexed token, address indexed pool)',
+];
+
+export const bondingCurveEvents = new ethers.Interface(BONDING_CURVE_EVENTS_ABI);
+
+/**
+ * Bonding curve state view, read by client.getBondingCurveModel
+ */
+export const BONDING_CURVE_STATE_ABI = [
+  'function getCurveState(address token) view returns (uint256 virtualUsdcReserve, uint256 virtualTokenReserve, uint256 tokensSold, uint256 curveSupply, uint256 usdcRaised, bool migrated)',
+];
+
+export const bondingCurveStateInterface = new ethers.Interface(BONDING_CURVE_STATE_ABI);
+
+export const ERC20_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+];
+
+export const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+const TRANSFER_TOPIC = erc20Interface.getEvent('Transfer')!.topicHash;
+
+// Conservative getLogs window accepted by the free public RPCs
+const DEFAULT_MAX_BLOCK_RANGE = 10000;
+
+const BONDING_CURVE_TOPICS = bondingCurveEvents.fragments
+  .filter((fragment): fragment is ethers.EventFragment => fragment.type === 'event')
+  .map((fragment) => fragment.topicHash);
+
+const TRADE_TOPICS = ['TokensPurchased', 'TokensSold'].map(
+  (name) => bondingCurveEvents.getEvent(name)!.topicHash
+);
+
+/**
+ * A bonding curve buy or sell decoded from a log
+ */
+export interface BondingCurveTrade {
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  trader: string;
+  tokenAmount: bigint;
+  usdcAmount: bigint;
+  newPrice: bigint; // USDC per token after the trade, 6 decimals
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Fetch bonding curve logs for a block range (inclusive)
+ */
+export async function getBondingCurveLogs(
+  provider: RobustProvider,
+  bondingCurveAddress: string,
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> {
+  return provider.call(
+    (p) =>
+      p.getLogs({
+        address: bondingCurveAddress,
+        fromBlock,
+        toBlock,
+        topics: [BONDING_CURVE_TOPICS],
+      }),
+    `getLogs(${fromBlock}-${toBlock})`
+  );
+}
+
+/**
+ * Decode a bonding curve log, or null if it is not a known event
+ */
+export function parseBondingCurveLog(log: ethers.Log): ethers.LogDescription | null {
+  try {
+    return bondingCurveEvents.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch logs over a block range (inclusive), split into windows the RPC accepts
+ */
+export async function getLogsInRange(
+  provider: RobustProvider,
+  filter: Omit<ethers.Filter, 'fromBlock' | 'toBlock'>,
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange: number = DEFAULT_MAX_BLOCK_RANGE
+): Promise<ethers.Log[]> {
+  const logs: ethers.Log[] = [];
+  for (let start = fromBlock; start <= toBlock; start += maxBlockRange) {
+    const end = Math.min(toBlock, start + maxBlockRange - 1);
+    const batch = await provider.call(
+      (p) => p.getLogs({ ...filter, fromBlock: start, toBlock: end }),
+      `getLogs(${start}-${end})`
+    );
+    logs.push(...batch);
+  }
+  return logs;
+}
+
+/**
+ * ERC-20 Transfer logs (any token contract) sent from or to a wallet
+ */
+export async function getWalletTransferLogs(
+  provider: RobustProvider,
+  wallet: string,
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange?: number
+): Promise<ethers.Log[]> {
+  const walletTopic = ethers.zeroPadValue(ethers.getAddress(wallet), 32);
+  const [sent, received] = await Promise.all([
+    getLogsInRange(provider, { topics: [TRANSFER_TOPIC, walletTopic] }, fromBlock, toBlock, maxBlockRange),
+    getLogsInRange(provider, { topics: [TRANSFER_TOPIC, null, walletTopic] }, fromBlock, toBlock, maxBlockRange),
+  ]);
+  return [...sent, ...received].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.index - b.index
+  );
+}
+
+/**
+ * Decode a bonding curve buy/sell log, or null for any other log
+ */
+export function parseBondingCurveTrade(log: ethers.Log): BondingCurveTrade | null {
+  const parsed = parseBondingCurveLog(log);
+  if (!parsed || (parsed.name !== 'TokensPurchased' && parsed.name !== 'TokensSold')) {
+    return null;
+  }
+  const isBuy = parsed.name === 'TokensPurchased';
+  return {
+    side: isBuy ? 'buy' : 'sell',
+    tokenAddress: ethers.getAddress(parsed.args.token),
+    trader: ethers.getAddress(isBuy ? parsed.args.buyer : parsed.args.seller),
+    tokenAmount: parsed.args.tokenAmount,
+    usdcAmount: parsed.args.usdcAmount,
+    newPrice: parsed.args.newPrice,
+    transactionHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Bonding curve buys and sells of one trader (optionally one token)
+ */
+export async function getBondingCurveTrades(
+  provider: RobustProvider,
+  bondingCurveAddress: string,
+  filter: { trader: string; token?: string },
+  fromBlock: number,
+  toBlock: number,
+  maxBlockRange?: number
+): Promise<BondingCurveTrade[]> {
+  const logs = await getLogsInRange(
+    provider,
+    {
+      address: bondingCurveAddress,
+      topics: [
+        TRADE_TOPICS,
+        filter.token ? ethers.zeroPadValue(ethers.getAddress(filter.token), 32) : null,
+        ethers.zeroPadValue(ethers.getAddress(filter.trader), 32),
+      ],
+    },
+    fromBlock,
+    toBlock,
+    maxBlockRange
+  );
+  return logs
+    .map(parseBondingCurveTrade)
+    .filter((trade): trade is BondingCurveTrade => trade !== null);
+}
+
+/**
+ * Amounts a trade actually moved, decoded from its receipt
+ */
+export interface ReceiptFill {
+  tokenAmount: bigint;
+  usdcAmount: bigint;
+  newPrice?: bigint; // Only available from the bonding curve event
+  source: 'event' | 'transfer';
+}
+
+/**
+ * Decode the fill of a self-executed trade from its receipt
+ *
+ * Prefers the bonding curve's TokensPurchased/TokensSold event and falls back
+ * to the ERC-20 token and USDC transfers to and from the trader.
+ *
+ * @returns The fill, or null if the receipt contains neither
+ */
+export function decodeTradeFill(
+  receipt: ethers.TransactionReceipt,
+  expected: {
+    side: 'buy' | 'sell';
+    trader: string;
+    tokenAddress: string;
+    usdcAddress: string;
+    bondingCurveAddress: string;
+  }
+): ReceiptFill | null {
+  const trader = ethers.getAddress(expected.trader);
+  const token = ethers.getAddress(expected.tokenAddress);
+  const bondingCurve = ethers.getAddress(expected.bondingCurveAddress);
+
+  for (const log of receipt.logs) {
+    if (ethers.getAddress(log.address) !== bondingCurve) continue;
+    const trade = parseBondingCurveTrade(log);
+    if (
+      trade &&
+      trade.side === expected.side &&
+      trade.trader === trader &&
+      trade.tokenAddress === token
+    ) {
+      return {
+        tokenAmount: trade.tokenAmount,
+        usdcAmount: trade.usdcAmount,
+        newPrice: trade.newPrice,
+        source: 'event',
+      };
+    }
+  }
+
+  // Buys: tokens in, USDC out. Sells: tokens out, USDC in.
+  const usdc = ethers.getAddress(expected.usdcAddress);
+  let tokenAmount = BigInt(0);
+  let usdcAmount = BigInt(0);
+  for (const log of receipt.logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC) continue;
+    const contract = ethers.getAddress(log.address);
+    if (contract !== token && contract !== usdc) continue;
+
+    const transfer = erc20Interface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!transfer) continue;
+    const from = ethers.getAddress(transfer.args.from);
+    const to = ethers.getAddress(transfer.args.to);
+    const tokenIn = expected.side === 'buy';
+
+    if (contract === token && (tokenIn ? to === trader : from === trader)) {
+      tokenAmount += transfer.args.value;
+    } else if (contract === usdc && (tokenIn ? from === trader : to === trader)) {
+      usdcAmount += transfer.args.value;
+    }
+  }
+
+  if (tokenAmount === BigInt(0) && usdcAmount === BigInt(0)) {
+    return null;
+  }
+  return { tokenAmount, usdcAmount, source: 'transfer' };
+}
@@ -0,0 +1,128 @@
+import { computeCostBasis, pricePerToken } from './cost-basis';
+import type { TradeRecord } from './types';
+
+const TOKEN_A = '0x00000000000000000000000000000000000000aA';
+const TOKEN_B = '0x00000000000000000000000000000000000000bb';
+const TRADER = '0x00000000000000000000000000000000000000cc';
+
+const tokens = (amount: number) => (BigInt(amount) * BigInt(10) ** BigInt(18)).toString();
+const usdc = (amount: number) => (BigInt(amount) * BigInt(1000000)).toString();
+
+function trade(
+  side: 'buy' | 'sell',
+  tokenAmount: number,
+  usdcAmount: number,
+  timestamp: number,
+  tokenAddress = TOKEN_A
+): TradeRecord {
+  return {
+    side,
+    tokenAddress,
+    trader: TRADER,
+    tokenAmount: tokens(tokenAmount),
+    usdcAmount: usdc(usdcAmount),
+    pricePerToken: pricePerToken(usdc(usdcAmount), tokens(tokenAmount)),
+    timestamp,
+    source: 'chain',
+  };
+}
+
+// Two buys at 1 and 3 USDC per token, then 15 of the 20 tokens sold at 3
+const history = [trade('sell', 15, 45, 3000), trade('buy', 10, 30, 2000), trade('buy', 10, 10, 1000)];
+
+describe('computeCostBasis', () => {
+  it('consumes the oldest lots first with FIFO, in time order', () => {
+    const [position] = computeCostBasis(history, 'fifo').positions;
+
+    // The sell takes all of the first lot (10 USDC) and half of the second (15 USDC)
+    expect(position).toMatchObject({
+      tokenAddress: TOKEN_A,
+      method: 'fifo',
+      tokenAmount: tokens(5),
+      costBasis: usdc(15),
+      averageEntryPrice: '3.0',
+      realizedPnl: usdc(20),
+      totalBought: tokens(20),
+      totalSold: tokens(15),
+      unmatchedSellAmount: '0',
+      trades: 3,
+    });
+  });
+
+  it('pools the cost of every buy with average cost', () => {
+    const [position] = computeCostBasis(history, 'average').positions;
+
+    // 20 tokens for 40 USDC: the sold 15 cost 30
+    expect(position).toMatchObject({
+      method: 'average',
+      tokenAmount: tokens(5),
+      costBasis: usdc(10),
+      averageEntryPrice: '2.0',
+      realizedPnl: usdc(15),
+    });
+  });
+
+  it('orders trades in the same block by log index', () => {
+    const buy = { ...trade('buy', 10, 10, 1000), blockNumber: 5, logIndex: 1 };
+    const sell = { ...trade('sell', 10, 20, 1000), blockNumber: 5, logIndex: 2 };
+
+    const [position] = computeCostBasis([sell, buy]).positions;
+
+    expect(position).toMatchObject({ tokenAmount: '0', realizedPnl: usdc(10), unmatchedSellAmount: '0' });
+  });
+
+  it('keeps a partly consumed lot at its remaining cost', () => {
+    const [position] = computeCostBasis([trade('buy', 10, 30, 1000), trade('sell', 4, 20, 2000)]).positions;
+
+    expect(position).toMatchObject({ tokenAmount: tokens(6), costBasis: usdc(18), realizedPnl: usdc(8) });
+  });
+
+  it('leaves the unmatched part of a sell out of realized P&L', () => {
+    // History starts after 5 tokens were bought: half of the sell has no cost
+    const [position] = computeCostBasis([trade('buy', 5, 5, 1000), trade('sell', 10, 20, 2000)]).positions;
+
+    expect(position).toMatchObject({
+      tokenAmount: '0',
+      costBasis: '0',
+      averageEntryPrice: '0',
+      realizedPnl: usdc(5),
+      unmatchedSellAmount: tokens(5),
+    });
+  });
+
+  it('totals realized and unrealized P&L over tokens', () => {
+    const report = computeCostBasis(
+      [...history, trade('buy', 10, 20, 1500, TOKEN_B), trade('sell', 5, 5, 2500, TOKEN_B)],
+      'fifo',
+      { [TOKEN_A.toLowerCase()]: usdc(25) }
+    );
+
+    expect(report.positions.map((p) => p.tokenAddress)).toEqual([TOKEN_A, TOKEN_B]);
+    expect(report.positions[0]).toMatchObject({ marketValue: usdc(25), unrealizedPnl: usdc(10) });
+    expect(report.positions[1].marketValue).toBeUndefined();
+    // Token A realized 20; token B lost 5 selling half of what it bought at 2 USDC for 1
+    expect(report.totalRealizedPnl).toBe(usdc(15));
+    expect(report.totalUnrealizedPnl).toBe(usdc(10));
+  });
+
+  it('reports nothing for an empty history', () => {
+    expect(computeCostBasis([])).toEqual({
+      method: 'fifo',
+      positions: [],
+      totalRealizedPnl: '0',
+      totalUnrealizedPnl: '0',
+    });
+  });
+});
+
+describe('pricePerToken', () => {
+  it('prices USDC per whole token', () => {
+    expect(pricePerToken(usdc(3), tokens(2))).toBe('1.5');
+    expect(pricePerToken('123', tokens(1000))).toBe('0.0');
+    expect(pricePerToken('1', '1')).toBe('1000000000000.0');
+  });
+
+  it('prices no tokens at zero', () => {
+    expect(pricePerToken(usdc(5), '0')).toBe('0');
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Cost Basis
+ *
+ * Turns a wallet's trade history into per-token positions with FIFO or
+ * average-cost basis and realized / unrealized P&L. All amounts are atomic
+ * units (tokens: 18 decimals, USDC: 6 decimals) so no precision is lost.
+ */
+
+import { ethers } from 'ethers';
+import type { TradeRecord } from './types';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface CostBasisPosition {
+  tokenAddress: string;
+  method: CostBasisMethod;
+  tokenAmount: string; // Tokens still held according to the history
+  costBasis: string; // USDC paid for the tokens still held
+  averageEntryPrice: string; // USDC per token for the tokens still held
+  realizedPnl: string; // USDC, may be negative
+  marketValue?: string; // USDC the held tokens would sell for
+  unrealizedPnl?: string; // marketValue - costBasis
+  totalBought: string;
+  totalSold: string;
+  unmatchedSellAmount: string; // Tokens sold without a matching buy (history starts too late)
+  trades: number;
+}
+
+export interface CostBasisReport {
+  method: CostBasisMethod;
+  positions: CostBasisPosition[];
+  totalRealizedPnl: string;
+  totalUnrealizedPnl: string; // Sum over positions with a market value
+}
+
+interface Lot {
+  amount: bigint;
+  cost: bigint;
+}
+
+const ZERO = BigInt(0);
+const ONE_TOKEN = BigInt(10) ** BigInt(18);
+
+/**
+ * Average price in USDC per whole token (decimal string), e.g. "0.000123"
+ */
+export function pricePerToken(usdcAmount: string | bigint, tokenAmount: string | bigint): string {
+  const tokens = BigInt(tokenAmount);
+  if (tokens === ZERO) return '0';
+  return ethers.formatUnits((BigInt(usdcAmount) * ONE_TOKEN) / tokens, 6);
+}
+
+/**
+ * Compute per-token cost basis from trades (any order, oldest is applied first)
+ *
+ * @param trades Buys and sells of a single wallet
+ * @param method 'fifo' (sells consume the oldest lots) or 'average' (pooled cost)
+ * @param marketValues Optional USDC value of each token's held amount, keyed by address
+ */
+export function computeCostBasis(
+  trades: TradeRecord[],
+  method: CostBasisMethod = 'fifo',
+  marketValues: Record<string, string> = {}
+): CostBasisReport {
+  const byToken = new Map<string, TradeRecord[]>();
+  for (const trade of trades) {
+    const key = trade.tokenAddress.toLowerCase();
+    if (!byToken.has(key)) byToken.set(key, []);
+    byToken.get(key)!.push(trade);
+  }
+
+  const values = new Map(
+    Object.entries(marketValues).map(([address, value]) => [address.toLowerCase(), value])
+  );
+
+  const positions: CostBasisPosition[] = [];
+  for (const [key, tokenTrades] of byToken) {
+    const ordered = [...tokenTrades].sort(compareTrades);
+    const position = applyTrades(ordered, method);
+    const marketValue = values.get(key);
+    if (marketValue !== undefined) {
+      position.marketValue = marketValue;
+      position.unrealizedPnl = (BigInt(marketValue) - BigInt(position.costBasis)).toString();
+    }
+    positions.push(position);
+  }
+
+  return {
+    method,
+    positions,
+    totalRealizedPnl: positions
+      .reduce((sum, p) => sum + BigInt(p.realizedPnl), ZERO)
+      .toString(),
+    totalUnrealizedPnl: positions
+      .reduce((sum, p) => sum + BigInt(p.unrealizedPnl || '0'), ZERO)
+      .toString(),
+  };
+}
+
+function applyTrades(trades: TradeRecord[], method: CostBasisMethod): CostBasisPosition {
+  const lots: Lot[] = [];
+  let realized = ZERO;
+  let bought = ZERO;
+  let sold = ZERO;
+  let unmatched = ZERO;
+
+  for (const trade of trades) {
+    const amount = BigInt(trade.tokenAmount);
+    const usdc = BigInt(trade.usdcAmount);
+    if (amount === ZERO) continue;
+
+    if (trade.side === 'buy') {
+      bought += amount;
+      if (method === 'average' && lots.length > 0) {
+        lots[0].amount += amount;
+        lots[0].cost += usdc;
+      } else {
+        lots.push({ amount, cost: usdc });
+      }
+      continue;
+    }
+
+    sold += amount;
+    let remaining = amount;
+    let costRemoved = ZERO;
+
+    // 'average' keeps a single pooled lot, so both methods share this loop
+    while (remaining > ZERO && lots.length > 0) {
+      const lot = lots[0];
+      const take = remaining < lot.amount ? remaining : lot.amount;
+      const cost = (lot.cost * take) / lot.amount;
+      lot.amount -= take;
+      lot.cost -= cost;
+      costRemoved += cost;
+      remaining -= take;
+      if (lot.amount === ZERO) lots.shift();
+    }
+
+    // Only the matched part of the sell counts towards realized P&L
+    const matched = amount - remaining;
+    unmatched += remaining;
+    realized += (usdc * matched) / amount - costRemoved;
+  }
+
+  const held = lots.reduce((sum, lot) => sum + lot.amount, ZERO);
+  const cost = lots.reduce((sum, lot) => sum + lot.cost, ZERO);
+
+  return {
+    tokenAddress: trades[0].tokenAddress,
+    method,
+    tokenAmount: held.toString(),
+    costBasis: cost.toString(),
+    averageEntryPrice: pricePerToken(cost, held),
+    realizedPnl: realized.toString(),
+    totalBought: bought.toString(),
+    totalSold: sold.toString(),
+    unmatchedSellAmount: unmatched.toString(),
+    trades: trades.length,
+  };
+}
+
+function compareTrades(a: TradeRecord, b: TradeRecord): number {
+  return (
+    a.timestamp - b.timestamp ||
+    (a.blockNumber ?? 0) - (b.blockNumber ?? 0) ||
+    (a.logIndex ?? 0) - (b.logIndex ?? 0)
+  );
+}
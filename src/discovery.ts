@@ -0,0 +1,66 @@
+/**
+ * Token discovery helpers
+ *
+ * Shared by X402LaunchClient.iterateTokens() and anyone filtering TokenInfo
+ * lists themselves (e.g. results of getTokenInfo or a cached page).
+ */
+
+import type { DiscoverTokensOptions, TokenDiscoveryFilter, TokenInfo } from './types';
+
+/**
+ * Check a token against a discovery filter (pagination fields are ignored)
+ */
+export function matchesTokenFilter(token: TokenInfo, filter: TokenDiscoveryFilter): boolean {
+  if (filter.minProgress !== undefined && token.progress < filter.minProgress) return false;
+  if (filter.maxProgress !== undefined && token.progress > filter.maxProgress) return false;
+  if (filter.migrated !== undefined && Boolean(token.migrated) !== filter.migrated) return false;
+
+  if (
+    filter.creator !== undefined &&
+    (token.creator || '').toLowerCase() !== filter.creator.toLowerCase()
+  ) {
+    return false;
+  }
+
+  if (filter.minVolume24h !== undefined && !(Number(token.volume24h) >= filter.minVolume24h)) {
+    return false;
+  }
+  if (filter.minMarketCap !== undefined && !(Number(token.marketCap) >= filter.minMarketCap)) {
+    return false;
+  }
+
+  if (filter.launchedAfter !== undefined || filter.launchedBefore !== undefined) {
+    const launchedAt = toUnixMs(token.launchTime);
+    if (filter.launchedAfter !== undefined && launchedAt < filter.launchedAfter) return false;
+    if (filter.launchedBefore !== undefined && launchedAt >= filter.launchedBefore) return false;
+  }
+
+  if (filter.search) {
+    const term = filter.search.toLowerCase();
+    const name = (token.name || '').toLowerCase();
+    const ticker = (token.ticker || '').toLowerCase();
+    if (!name.includes(term) && !ticker.includes(term)) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Build the API query for one page of a filtered discovery
+ */
+export function toDiscoveryQuery(
+  filter: TokenDiscoveryFilter,
+  page: number,
+  limit: number
+): DiscoverTokensOptions {
+  const { pageSize, maxResults, ...query } = filter;
+  return { ...query, page, limit };
+}
+
+/**
+ * Normalize an API timestamp (seconds or milliseconds) to Unix ms
+ */
+export function toUnixMs(timestamp?: number): number {
+  if (!timestamp) return 0;
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
@@ -2,6 +2,8 @@
  * Custom error classes for x402-Launch SDK
  */
 
+import type { PaymentCategory } from './payment-policy';
+
 export class X402LaunchError extends Error {
   constructor(message: string, public code?: string) {
     super(message);
@@ -30,7 +32,8 @@ export interface X402PaymentRequirements {
 export class PaymentRequiredError extends X402LaunchError {
   constructor(
     message: string,
-    public paymentDetails?: X402PaymentRequirements
+    public paymentDetails?: X402PaymentRequirements,
+    public paymentOptions: X402PaymentRequirements[] = paymentDetails ? [paymentDetails] : []
   ) {
     super(message, 'PAYMENT_REQUIRED');
     this.name = 'PaymentRequiredError';
@@ -58,3 +61,300 @@ export class NetworkError extends X402LaunchError {
   }
 }
 
+
+export class UnknownNetworkError extends X402LaunchError {
+  constructor(public chainId: number, knownChainIds: number[] = []) {
+    super(
+      `Unknown chain ID ${chainId}. Known chains: ${knownChainIds.join(', ') || 'none'}. ` +
+        `Use registerNetwork() to add custom or local networks.`,
+      'UNKNOWN_NETWORK'
+    );
+    this.name = 'UnknownNetworkError';
+  }
+}
+
+export type PaymentPolicyRule =
+  | 'invalidAmount'
+  | 'maxPerRequest'
+  | 'hourlyCap'
+  | 'dailyCap'
+  | 'payTo'
+  | 'asset';
+
+export class PaymentPolicyViolationError extends X402LaunchError {
+  constructor(
+    message: string,
+    public rule: PaymentPolicyRule,
+    public category: PaymentCategory,
+    public requirements?: X402PaymentRequirements
+  ) {
+    super(message, 'PAYMENT_POLICY_VIOLATION');
+    this.name = 'PaymentPolicyViolationError';
+  }
+}
+
+export interface RejectedPaymentOption {
+  option: X402PaymentRequirements;
+  reason: string;
+}
+
+export class NoUsablePaymentOptionError extends X402LaunchError {
+  constructor(public rejected: RejectedPaymentOption[]) {
+    super(
+      rejected.length === 0
+        ? 'Payment required but the server offered no payment options'
+        : `None of the ${rejected.length} payment option(s) offered by the server is usable:\n` +
+            rejected
+              .map(
+                ({ option, reason }, i) =>
+                  `  ${i + 1}. ${option.scheme}/${option.network} ${option.maxAmountRequired} of ${option.asset} -> ${reason}`
+              )
+              .join('\n'),
+      'NO_USABLE_PAYMENT_OPTION'
+    );
+    this.name = 'NoUsablePaymentOptionError';
+  }
+}
+
+/**
+ * Step of a gasless sell that failed
+ * - quote: sell quote for a chunk of a split sell
+ * - tokenDomain: reading the token's EIP-712 name/version
+ * - backendAddress: fetching the backend signer that receives the tokens
+ * - sign: signing the EIP-3009 authorization
+ * - submit: posting the signed sell to the API
+ */
+export type SellStep = 'quote' | 'tokenDomain' | 'backendAddress' | 'sign' | 'submit';
+
+/**
+ * A sell failed for a reason the SDK has no typed error for
+ *
+ * SDK errors (network, policy, revert, pending operation, ...) are thrown
+ * unchanged; only unexpected errors are wrapped, with the original as `cause`.
+ */
+export class SellExecutionError extends X402LaunchError {
+  public cause?: unknown;
+
+  constructor(
+    public step: SellStep,
+    public tokenAddress: string,
+    public originalError?: unknown
+  ) {
+    super(
+      `Sell of ${tokenAddress} failed at step "${step}": ${
+        originalError instanceof Error ? originalError.message : String(originalError ?? 'unknown error')
+      }`,
+      'SELL_FAILED'
+    );
+    this.name = 'SellExecutionError';
+    this.cause = originalError;
+  }
+}
+
+/**
+ * Where slippage was detected
+ * - quote: the pre-trade quote was already worse than allowed (nothing traded)
+ * - fill: the executed trade returned less than allowed (trade already happened)
+ */
+export type SlippageStage = 'quote' | 'fill';
+
+export class SlippageExceededError extends X402LaunchError {
+  constructor(
+    public stage: SlippageStage,
+    public side: 'buy' | 'sell',
+    public tokenAddress: string,
+    public minimumOut: string,
+    public actualOut: string,
+    public transactionHash?: string
+  ) {
+    super(
+      stage === 'quote'
+        ? `Slippage limit exceeded: ${side} quote for ${tokenAddress} returns ${actualOut}, minimum is ${minimumOut}`
+        : `Slippage limit exceeded: ${side} of ${tokenAddress} filled ${actualOut}, minimum was ${minimumOut} (tx ${transactionHash || 'unknown'})`,
+      'SLIPPAGE_EXCEEDED'
+    );
+    this.name = 'SlippageExceededError';
+  }
+}
+
+/**
+ * A self-executed trade confirmed, but its receipt shows no fill to check
+ * - The trade happened: look up `transactionHash` before retrying
+ */
+export class UnknownFillError extends X402LaunchError {
+  constructor(
+    public side: 'buy' | 'sell',
+    public tokenAddress: string,
+    public transactionHash: string
+  ) {
+    super(
+      `${side} of ${tokenAddress} confirmed in ${transactionHash}, but no fill was found in its receipt`,
+      'FILL_UNKNOWN'
+    );
+    this.name = 'UnknownFillError';
+  }
+}
+
+export class TransactionRevertedError extends X402LaunchError {
+  constructor(
+    message: string,
+    public transactionHash?: string, // Undefined when gas estimation already reverted
+    public reason?: string,
+    public revertData?: string,
+    code: string = 'TRANSACTION_REVERTED'
+  ) {
+    super(message, code);
+    this.name = 'TransactionRevertedError';
+  }
+}
+
+/**
+ * The backend signature of a self-execute trade expired (or would before confirming)
+ * - Request a fresh signature and retry
+ */
+export class SignatureExpiredError extends TransactionRevertedError {
+  constructor(message: string, transactionHash?: string, reason?: string, revertData?: string) {
+    super(message, transactionHash, reason, revertData, 'SIGNATURE_EXPIRED');
+    this.name = 'SignatureExpiredError';
+  }
+}
+
+/**
+ * The trade nonce was already used on-chain
+ * - Request a fresh signature and retry
+ */
+export class NonceUsedError extends TransactionRevertedError {
+  constructor(message: string, transactionHash?: string, reason?: string, revertData?: string) {
+    super(message, transactionHash, reason, revertData, 'NONCE_ALREADY_USED');
+    this.name = 'NonceUsedError';
+  }
+}
+
+/**
+ * The bonding curve is complete (token migrated) and no longer trades
+ * - Do not retry; trade the token on its DEX pool instead
+ */
+export class CurveCompletedError extends TransactionRevertedError {
+  constructor(message: string, transactionHash?: string, reason?: string, revertData?: string) {
+    super(message, transactionHash, reason, revertData, 'CURVE_COMPLETED');
+    this.name = 'CurveCompletedError';
+  }
+}
+
+/**
+ * The curve cannot pay out the requested amount
+ * - Retry with a smaller amount
+ */
+export class InsufficientLiquidityError extends TransactionRevertedError {
+  constructor(message: string, transactionHash?: string, reason?: string, revertData?: string) {
+    super(message, transactionHash, reason, revertData, 'INSUFFICIENT_LIQUIDITY');
+    this.name = 'InsufficientLiquidityError';
+  }
+}
+
+/**
+ * The bonding curve may not move enough of the wallet's USDC or tokens
+ * - Approve again and retry
+ */
+export class InsufficientAllowanceError extends TransactionRevertedError {
+  constructor(message: string, transactionHash?: string, reason?: string, revertData?: string) {
+    super(message, transactionHash, reason, revertData, 'INSUFFICIENT_ALLOWANCE');
+    this.name = 'InsufficientAllowanceError';
+  }
+}
+
+export class TransactionTimeoutError extends X402LaunchError {
+  constructor(
+    public transactionHashes: string[], // Original plus any replacements, still pending
+    public nonce: number,
+    public timeoutMs: number
+  ) {
+    super(
+      `Transaction with nonce ${nonce} not confirmed within ${timeoutMs}ms (hashes: ${transactionHashes.join(', ')})`,
+      'TRANSACTION_TIMEOUT'
+    );
+    this.name = 'TransactionTimeoutError';
+  }
+}
+
+/**
+ * A write whose response was lost landed anyway (found on-chain); it was not resent.
+ * The platform's response is not available, only the transaction.
+ */
+export class OperationLandedError extends X402LaunchError {
+  constructor(
+    public idempotencyKey: string,
+    public transactionHash: string,
+    endpoint: string
+  ) {
+    super(
+      `${endpoint} already landed in ${transactionHash} (idempotency key ${idempotencyKey}); not resent`,
+      'OPERATION_ALREADY_LANDED'
+    );
+    this.name = 'OperationLandedError';
+  }
+}
+
+/**
+ * A write is still being processed by the platform after a network failure.
+ * It was not resent; check `client.operations` or call reconcileOperations() later.
+ */
+export class OperationPendingError extends X402LaunchError {
+  constructor(public idempotencyKey: string, endpoint: string) {
+    super(
+      `${endpoint} is still pending on the platform (idempotency key ${idempotencyKey}); not resent`,
+      'OPERATION_PENDING'
+    );
+    this.name = 'OperationPendingError';
+  }
+}
+
+export interface ApiSchemaIssue {
+  field: string; // Path in the response, e.g. 'tokens[3].price'
+  message: string;
+}
+
+/**
+ * An API response does not have the shape the SDK expects (backend drift)
+ */
+export class ApiSchemaError extends X402LaunchError {
+  constructor(public endpoint: string, public issues: ApiSchemaIssue[]) {
+    super(
+      `Unexpected response from ${endpoint}: ${issues
+        .map((issue) => `${issue.field}: ${issue.message}`)
+        .join('; ')}`,
+      'API_SCHEMA_MISMATCH'
+    );
+    this.name = 'ApiSchemaError';
+  }
+
+  /** First mismatching field */
+  get field(): string {
+    return this.issues[0]?.field ?? '(response)';
+  }
+}
+
+export interface LaunchValidationIssue {
+  field: string; // Launch parameter, e.g. 'description'
+  message: string;
+}
+
+/**
+ * Launch parameters were rejected before anything was uploaded or paid
+ */
+export class LaunchValidationError extends X402LaunchError {
+  constructor(public issues: LaunchValidationIssue[]) {
+    super(
+      `Invalid launch parameters: ${issues
+        .map((issue) => `${issue.field}: ${issue.message}`)
+        .join('; ')}`,
+      'INVALID_LAUNCH_PARAMS'
+    );
+    this.name = 'LaunchValidationError';
+  }
+
+  /** First invalid field */
+  get field(): string {
+    return this.issues[0]?.field ?? '(params)';
+  }
+}
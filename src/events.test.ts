@@ -0,0 +1,190 @@
+import { ethers } from 'ethers';
+import type { RobustProvider } from './agent/rpc-provider';
+import { bondingCurveEvents } from './contracts';
+import { MarketEvent, MarketEventStream } from './events';
+import type { TokenInfo } from './types';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const CURVE = '0x00000000000000000000000000000000000000cc';
+const BUYER = '0x00000000000000000000000000000000000000bb';
+const TX_OLD = `0x${'01'.repeat(32)}`;
+const TX_GAP = `0x${'02'.repeat(32)}`;
+
+function token(trades: Array<{ hash: string; timestamp: number }>): TokenInfo {
+  return {
+    address: TOKEN,
+    name: 'Test',
+    ticker: 'TEST',
+    creator: BUYER,
+    price: '0.001',
+    launchTime: 1,
+    migrated: false,
+    recentTrades: trades.map((t) => ({
+      type: 'buy',
+      tokenAmount: '1000',
+      usdcAmount: '1',
+      price: '0.001',
+      timestamp: t.timestamp,
+      transactionHash: t.hash,
+    })),
+  } as TokenInfo;
+}
+
+function purchaseLog(transactionHash: string, blockNumber: number): ethers.Log {
+  const encoded = bondingCurveEvents.encodeEventLog('TokensPurchased', [
+    TOKEN,
+    BUYER,
+    BigInt(1),
+    BigInt(1000),
+    BigInt(1000),
+  ]);
+  return { ...encoded, address: CURVE, transactionHash, blockNumber, index: 0 } as unknown as ethers.Log;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe('MarketEventStream', () => {
+  let stream: MarketEventStream | undefined;
+
+  afterEach(() => stream?.close());
+
+  it('does not replay existing trades and emits new ones once', async () => {
+    let trades = [{ hash: TX_OLD, timestamp: 1000 }];
+    let polls = 0;
+    stream = new MarketEventStream(
+      {
+        discoverTokens: async () => {
+          polls++;
+          return { tokens: [token(trades)] };
+        },
+      },
+      { apiPollIntervalMs: 5, events: ['trade'] }
+    ).start();
+
+    const events: MarketEvent[] = [];
+    stream.on('trade', (event) => {
+      events.push(event);
+      throw new Error('listener bug');
+    });
+
+    await waitFor(() => polls >= 2);
+    trades = [...trades, { hash: TX_GAP, timestamp: 2000 }];
+    await waitFor(() => polls >= 5);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].transactionHash).toBe(TX_GAP);
+  });
+
+  it('keeps polling when an error listener throws', async () => {
+    let polls = 0;
+    stream = new MarketEventStream(
+      {
+        discoverTokens: async () => {
+          polls++;
+          throw new Error('API down');
+        },
+      },
+      { apiPollIntervalMs: 5 }
+    ).start();
+
+    const errors: Error[] = [];
+    stream.on('error', (error) => {
+      errors.push(error);
+      throw new Error('error listener bug');
+    });
+
+    await waitFor(() => polls >= 3);
+    expect(errors.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('does not replay existing trades when the chain is down from the start', async () => {
+    let trades = [{ hash: TX_OLD, timestamp: 1000 }];
+    let polls = 0;
+    const provider = {
+      getBlockNumber: async () => {
+        throw new Error('RPC down');
+      },
+    } as unknown as RobustProvider;
+    stream = new MarketEventStream(
+      {
+        provider,
+        bondingCurveAddress: CURVE,
+        discoverTokens: async () => {
+          polls++;
+          return { tokens: [token(trades)] };
+        },
+      },
+      { events: ['trade'], chainPollIntervalMs: 5, apiPollIntervalMs: 5, maxChainFailures: 2 }
+    ).start();
+
+    const events: MarketEvent[] = [];
+    stream.on('trade', (event) => events.push(event));
+    stream.on('error', () => undefined);
+
+    await waitFor(() => polls >= 2);
+    expect(stream.getSource()).toBe('api');
+    expect(events).toHaveLength(0);
+
+    trades = [...trades, { hash: TX_GAP, timestamp: Date.now() + 1 }];
+    await waitFor(() => events.length === 1);
+    expect(events[0]).toMatchObject({ source: 'api', transactionHash: TX_GAP });
+  });
+
+  it('emits gap events after falling back to the API and dedups them on reconnect', async () => {
+    let chainUp = true;
+    let block = 10;
+    const logs: ethers.Log[] = [];
+    const provider = {
+      getBlockNumber: async () => {
+        if (!chainUp) throw new Error('RPC down');
+        return block;
+      },
+      call: async <T>(fn: (p: ethers.Provider) => Promise<T>) =>
+        fn({ getLogs: async () => logs } as unknown as ethers.Provider),
+    } as unknown as RobustProvider;
+
+    let trades: Array<{ hash: string; timestamp: number }> = [{ hash: TX_OLD, timestamp: 1 }];
+    stream = new MarketEventStream(
+      {
+        provider,
+        bondingCurveAddress: CURVE,
+        discoverTokens: async () => ({ tokens: [token(trades)] }),
+      },
+      {
+        events: ['trade'],
+        chainPollIntervalMs: 5,
+        apiPollIntervalMs: 5,
+        maxChainFailures: 1,
+        reconnectIntervalMs: 30,
+      }
+    ).start();
+
+    const events: MarketEvent[] = [];
+    stream.on('trade', (event) => events.push(event));
+    stream.on('error', () => undefined);
+
+    await waitFor(() => stream!.getSource() === 'chain');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // The chain goes down; a trade lands before the API takes over
+    chainUp = false;
+    trades = [...trades, { hash: TX_GAP, timestamp: Date.now() + 1 }];
+    await waitFor(() => events.length === 1);
+    expect(stream.getSource()).toBe('api');
+    expect(events[0]).toMatchObject({ source: 'api', transactionHash: TX_GAP });
+
+    // Back on chain, the same trade arrives as a log and is not emitted again
+    chainUp = true;
+    block = 11;
+    logs.push(purchaseLog(TX_GAP, 11));
+    await waitFor(() => stream!.getSource() === 'chain');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(events).toHaveLength(1);
+  });
+});
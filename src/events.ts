@@ -0,0 +1,506 @@
+/**
+ * Market Event Stream
+ *
+ * Typed, de-duplicated stream of launches, trades, price updates and
+ * migrations, polled from the REST API. No built-in network registers a
+ * bonding curve address, so chain logs are opt-in: with an explicit
+ * bondingCurveAddress the stream reads them first (see BONDING_CURVE_EVENTS_ABI,
+ * which is not verified against the deployed contract), falls back to the API
+ * while the RPCs keep failing and periodically tries to reconnect.
+ */
+
+import { ethers } from 'ethers';
+import type { RobustProvider } from './agent/rpc-provider';
+import { getBondingCurveLogs, parseBondingCurveLog } from './contracts';
+import { toUnixMs } from './discovery';
+import { X402LaunchError } from './errors';
+import { Logger, noopLogger } from './logger';
+import type { DiscoverTokensOptions, TokenInfo } from './types';
+
+export type MarketEventSource = 'chain' | 'api';
+
+interface MarketEventBase {
+  tokenAddress: string;
+  timestamp: number; // Unix ms (observation time for chain events)
+  source: MarketEventSource;
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface TokenLaunchedEvent extends MarketEventBase {
+  type: 'tokenLaunched';
+  creator?: string;
+  name?: string;
+  ticker?: string;
+}
+
+export interface TradeEvent extends MarketEventBase {
+  type: 'trade';
+  side: 'buy' | 'sell';
+  trader?: string;
+  tokenAmount: string; // Token atomic units (18 decimals)
+  usdcAmount: string; // USDC atomic units (6 decimals)
+  price?: string; // USDC per token after the trade
+}
+
+export interface PriceUpdateEvent extends MarketEventBase {
+  type: 'priceUpdate';
+  price: string; // USDC per token
+  previousPrice?: string;
+  progress?: number;
+}
+
+export interface MigratedEvent extends MarketEventBase {
+  type: 'migrated';
+}
+
+export type MarketEvent =
+  | TokenLaunchedEvent
+  | TradeEvent
+  | PriceUpdateEvent
+  | MigratedEvent;
+
+export type MarketEventType = MarketEvent['type'];
+
+export type MarketEventOf<T extends MarketEventType> = Extract<MarketEvent, { type: T }>;
+
+export interface SubscribeOptions {
+  events?: MarketEventType[]; // Default: all
+  tokens?: string[]; // Only events for these tokens (default: all)
+  source?: 'auto' | 'chain' | 'api'; // Default: 'auto' (chain logs if a bonding curve is known, else the API)
+  bondingCurveAddress?: string; // Enables chain logs (built-in networks register none)
+  fromBlock?: number; // Default: next block
+  maxBlockRange?: number; // Blocks per getLogs call (default: 2000)
+  chainPollIntervalMs?: number; // Default: 4000
+  apiPollIntervalMs?: number; // Default: 15000
+  apiPageSize?: number; // Newest tokens compared per API poll (default: 50)
+  maxChainFailures?: number; // Consecutive RPC failures before falling back (default: 3)
+  reconnectIntervalMs?: number; // How often to retry the chain while on the API (default: 60000)
+}
+
+/**
+ * Data sources the stream reads from (provided by X402LaunchClient.subscribe)
+ */
+export interface MarketEventSources {
+  provider?: RobustProvider;
+  bondingCurveAddress?: string;
+  discoverTokens: (options: DiscoverTokensOptions) => Promise<{ tokens: TokenInfo[] }>;
+  logger?: Logger;
+}
+
+type Listener = (payload: any) => void;
+
+const MAX_SEEN_KEYS = 10000;
+const MAX_BUFFERED_EVENTS = 10000;
+
+export class MarketEventStream implements AsyncIterable<MarketEvent> {
+  private sources: MarketEventSources;
+  private logger: Logger;
+  private options: Required<Omit<SubscribeOptions, 'events' | 'tokens' | 'bondingCurveAddress' | 'fromBlock'>> &
+    Pick<SubscribeOptions, 'fromBlock'>;
+  private eventTypes?: Set<MarketEventType>;
+  private tokens?: Set<string>;
+  private listeners = new Map<string, Set<Listener>>();
+
+  private mode: MarketEventSource;
+  private timer?: ReturnType<typeof setTimeout>;
+  private closed = false;
+  private nextBlock?: number;
+  private chainFailures = 0;
+  private nextReconnectAt = 0;
+  private lastChainPollAt = 0;
+  // API items at or before this time are recorded without being emitted:
+  // everything on the first poll, only what the chain already covered after a fallback
+  private apiCutoff: number | undefined = Number.POSITIVE_INFINITY;
+
+  // De-duplication across polls and sources
+  private seen = new Set<string>();
+  private lastPrices = new Map<string, string>();
+  private migrated = new Set<string>();
+
+  // Async iterator buffer (only filled once iteration has started)
+  private iterating = false;
+  private buffer: MarketEvent[] = [];
+  private waiters: Array<(result: IteratorResult<MarketEvent>) => void> = [];
+
+  constructor(sources: MarketEventSources, options: SubscribeOptions = {}) {
+    this.sources = sources;
+    this.logger = (sources.logger || noopLogger).child({ component: 'MarketEventStream' });
+    this.options = {
+      source: options.source || 'auto',
+      fromBlock: options.fromBlock,
+      maxBlockRange: options.maxBlockRange || 2000,
+      chainPollIntervalMs: options.chainPollIntervalMs || 4000,
+      apiPollIntervalMs: options.apiPollIntervalMs || 15000,
+      apiPageSize: options.apiPageSize || 50,
+      maxChainFailures: options.maxChainFailures || 3,
+      reconnectIntervalMs: options.reconnectIntervalMs || 60000,
+    };
+    if (options.events && options.events.length > 0) {
+      this.eventTypes = new Set(options.events);
+    }
+    if (options.tokens && options.tokens.length > 0) {
+      this.tokens = new Set(options.tokens.map((t) => t.toLowerCase()));
+    }
+
+    const hasChain = Boolean(sources.provider && sources.bondingCurveAddress);
+    if (this.options.source === 'chain' && !hasChain) {
+      throw new X402LaunchError(
+        'Chain event source needs a bonding curve address. Pass bondingCurveAddress or register it on the network.',
+        'BONDING_CURVE_UNKNOWN'
+      );
+    }
+    this.mode = this.options.source === 'api' || !hasChain ? 'api' : 'chain';
+  }
+
+  /**
+   * Begin polling (called by X402LaunchClient.subscribe)
+   */
+  start(): this {
+    if (!this.timer && !this.closed) {
+      this.schedule(0);
+    }
+    return this;
+  }
+
+  /**
+   * Stop polling and end any pending iteration
+   */
+  close(): void {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.waiters.forEach((resolve) => resolve({ value: undefined, done: true }));
+    this.waiters = [];
+  }
+
+  /**
+   * Current primary source ('api' while falling back)
+   */
+  getSource(): MarketEventSource {
+    return this.mode;
+  }
+
+  on<T extends MarketEventType>(type: T, listener: (event: MarketEventOf<T>) => void): this;
+  on(type: 'event', listener: (event: MarketEvent) => void): this;
+  on(type: 'error', listener: (error: Error) => void): this;
+  on(type: string, listener: Listener): this {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+    return this;
+  }
+
+  off(type: MarketEventType | 'event' | 'error', listener: (payload: any) => void): this {
+    this.listeners.get(type)?.delete(listener);
+    return this;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<MarketEvent> {
+    this.iterating = true;
+    return {
+      next: () => {
+        const event = this.buffer.shift();
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => this.waiters.push(resolve));
+      },
+      return: async () => {
+        this.close();
+        return { value: undefined, done: true };
+      },
+    };
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.closed) return;
+    this.timer = setTimeout(() => {
+      this.poll()
+        .catch((error: Error) => this.logger.error('Poll failed unexpectedly', { error: error.message }))
+        .finally(() => {
+        this.schedule(
+          this.mode === 'chain'
+            ? this.options.chainPollIntervalMs
+            : this.options.apiPollIntervalMs
+        );
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.mode === 'chain') {
+      try {
+        await this.pollChain();
+        this.chainFailures = 0;
+      } catch (error: any) {
+        this.chainFailures++;
+        this.emitError(error);
+        if (
+          this.options.source === 'auto' &&
+          this.chainFailures >= this.options.maxChainFailures
+        ) {
+          this.logger.warn('Chain source failing, falling back to API polling', {
+            failures: this.chainFailures,
+          });
+          this.mode = 'api';
+          // Events since the last good chain poll are only on the API now.
+          // Without one, the first API poll only records what exists, as at startup.
+          this.apiCutoff = this.lastChainPollAt || Number.POSITIVE_INFINITY;
+          this.nextReconnectAt = Date.now() + this.options.reconnectIntervalMs;
+        }
+      }
+      return;
+    }
+
+    // On the API fallback: periodically try to reconnect to the chain
+    if (
+      this.options.source === 'auto' &&
+      this.sources.provider &&
+      this.sources.bondingCurveAddress &&
+      Date.now() >= this.nextReconnectAt
+    ) {
+      try {
+        await this.pollChain();
+        this.logger.info('Reconnected to chain source');
+        this.mode = 'chain';
+        this.chainFailures = 0;
+        return;
+      } catch {
+        this.nextReconnectAt = Date.now() + this.options.reconnectIntervalMs;
+      }
+    }
+
+    try {
+      await this.pollApi();
+    } catch (error: any) {
+      this.emitError(error);
+    }
+  }
+
+  private async pollChain(): Promise<void> {
+    const provider = this.sources.provider!;
+    const bondingCurve = this.sources.bondingCurveAddress!;
+    const polledAt = Date.now();
+    const latest = await provider.getBlockNumber();
+
+    if (this.nextBlock === undefined) {
+      this.nextBlock = this.options.fromBlock ?? latest + 1;
+    }
+    if (this.nextBlock > latest) {
+      this.lastChainPollAt = polledAt;
+      return;
+    }
+
+    const toBlock = Math.min(latest, this.nextBlock + this.options.maxBlockRange - 1);
+    const logs = await getBondingCurveLogs(provider, bondingCurve, this.nextBlock, toBlock);
+
+    for (const log of logs) {
+      this.handleLog(log);
+    }
+    this.nextBlock = toBlock + 1;
+    this.lastChainPollAt = polledAt;
+  }
+
+  private handleLog(log: ethers.Log): void {
+    const parsed = parseBondingCurveLog(log);
+    if (!parsed) return;
+
+    const base = {
+      tokenAddress: ethers.getAddress(parsed.args.token),
+      timestamp: Date.now(),
+      source: 'chain' as const,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    };
+
+    switch (parsed.name) {
+      case 'TokenLaunched':
+        this.emitOnce(`launch:${base.tokenAddress.toLowerCase()}`, {
+          ...base,
+          type: 'tokenLaunched',
+          creator: parsed.args.creator,
+          name: parsed.args.name,
+          ticker: parsed.args.symbol,
+        });
+        break;
+
+      case 'TokensPurchased':
+      case 'TokensSold': {
+        const price = ethers.formatUnits(parsed.args.newPrice, 6);
+        this.emitOnce(tradeKey(log.transactionHash), {
+          ...base,
+          type: 'trade',
+          side: parsed.name === 'TokensPurchased' ? 'buy' : 'sell',
+          trader: parsed.name === 'TokensPurchased' ? parsed.args.buyer : parsed.args.seller,
+          tokenAmount: parsed.args.tokenAmount.toString(),
+          usdcAmount: parsed.args.usdcAmount.toString(),
+          price,
+        });
+        this.emitPrice({ ...base, type: 'priceUpdate', price });
+        break;
+      }
+
+      case 'TokenMigrated':
+        this.emitMigrated({ ...base, type: 'migrated' });
+        break;
+    }
+  }
+
+  private async pollApi(): Promise<void> {
+    const { tokens } = await this.sources.discoverTokens({
+      page: 1,
+      limit: this.options.apiPageSize,
+      sortBy: 'launchTime',
+      sortOrder: 'desc',
+    });
+
+    // Existing tokens are not replayed: older items are only recorded
+    const cutoff = this.apiCutoff;
+    this.apiCutoff = undefined;
+    const isOld = (timestamp: number) => cutoff !== undefined && timestamp <= cutoff;
+
+    for (const token of tokens || []) {
+      if (!token.address) continue;
+      const tokenAddress = ethers.getAddress(token.address);
+      const key = tokenAddress.toLowerCase();
+      const base = { tokenAddress, timestamp: Date.now(), source: 'api' as const };
+      const launchTime = toUnixMs(token.launchTime);
+      // Price and migration carry no time; only report them for tokens we track or that are new
+      const untracked = isOld(launchTime) && !this.lastPrices.has(key);
+
+      if (isOld(launchTime)) {
+        this.remember(`launch:${key}`);
+      } else {
+        this.emitOnce(`launch:${key}`, {
+          ...base,
+          type: 'tokenLaunched',
+          creator: token.creator,
+          name: token.name,
+          ticker: token.ticker,
+          timestamp: launchTime || base.timestamp,
+        });
+      }
+
+      for (const trade of token.recentTrades || []) {
+        const tradeTime = toUnixMs(trade.timestamp);
+        const dedupKey = trade.transactionHash
+          ? tradeKey(trade.transactionHash)
+          : `trade:${key}:${trade.type}:${trade.timestamp}:${trade.tokenAmount}`;
+        if (isOld(tradeTime)) {
+          this.remember(dedupKey);
+          continue;
+        }
+        this.emitOnce(dedupKey, {
+          ...base,
+          type: 'trade',
+          side: trade.type === 'sell' ? 'sell' : 'buy',
+          tokenAmount: trade.tokenAmount,
+          usdcAmount: trade.usdcAmount,
+          price: trade.price,
+          transactionHash: trade.transactionHash,
+          timestamp: tradeTime || base.timestamp,
+        });
+      }
+
+      if (token.price) {
+        if (untracked) {
+          this.lastPrices.set(key, token.price);
+        } else {
+          this.emitPrice({ ...base, type: 'priceUpdate', price: token.price, progress: token.progress });
+        }
+      }
+      if (token.migrated) {
+        if (untracked) {
+          this.migrated.add(key);
+        } else {
+          this.emitMigrated({ ...base, type: 'migrated' });
+        }
+      }
+    }
+  }
+
+  private emitPrice(event: PriceUpdateEvent): void {
+    const key = event.tokenAddress.toLowerCase();
+    const previousPrice = this.lastPrices.get(key);
+    if (previousPrice === event.price) return;
+    this.lastPrices.set(key, event.price);
+    this.emit({ ...event, previousPrice });
+  }
+
+  private emitMigrated(event: MigratedEvent): void {
+    const key = event.tokenAddress.toLowerCase();
+    if (this.migrated.has(key)) return;
+    this.migrated.add(key);
+    this.emit(event);
+  }
+
+  private emitOnce(key: string, event: MarketEvent): void {
+    if (this.seen.has(key)) return;
+    this.remember(key);
+    this.emit(event);
+  }
+
+  private remember(key: string): void {
+    this.seen.add(key);
+    if (this.seen.size > MAX_SEEN_KEYS) {
+      // Sets iterate in insertion order - drop the oldest key
+      this.seen.delete(this.seen.values().next().value as string);
+    }
+  }
+
+  private emit(event: MarketEvent): void {
+    if (this.closed) return;
+    if (this.eventTypes && !this.eventTypes.has(event.type)) return;
+    if (this.tokens && !this.tokens.has(event.tokenAddress.toLowerCase())) return;
+
+    for (const type of [event.type, 'event']) {
+      this.listeners.get(type)?.forEach((listener) => {
+        try {
+          listener(event);
+        } catch (error: any) {
+          this.logger.error('Listener threw', { event: type, error: error.message });
+        }
+      });
+    }
+
+    if (!this.iterating) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: event, done: false });
+      return;
+    }
+    this.buffer.push(event);
+    if (this.buffer.length > MAX_BUFFERED_EVENTS) {
+      this.buffer.shift();
+    }
+  }
+
+  private emitError(error: Error): void {
+    const listeners = this.listeners.get('error');
+    if (!listeners || listeners.size === 0) {
+      this.logger.warn('Poll failed', { source: this.mode, error: error.message });
+      return;
+    }
+    listeners.forEach((listener) => {
+      try {
+        listener(error);
+      } catch (listenerError: any) {
+        this.logger.error('Error listener threw', { error: listenerError.message });
+      }
+    });
+  }
+}
+
+/**
+ * One key per trade transaction, shared by chain logs and API trades
+ */
+function tradeKey(transactionHash: string): string {
+  return `trade:${transactionHash.toLowerCase()}`;
+}
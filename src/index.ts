@@ -10,8 +10,26 @@ export { X402LaunchClient } from './client';
 export * from './types';
 export * from './errors';
 export * from './payment';
+export * from './signer';
+export * from './payment-policy';
+export * from './payment-ledger';
+export * from './networks';
+export * from './discovery';
+export * from './contracts';
+export * from './events';
+export * from './cost-basis';
+export * from './bonding-curve';
+export * from './transaction-manager';
+export * from './allowance';
+export * from './backend-signature';
+export * from './revert-decoder';
+export * from './logger';
+export * from './middleware';
+export * from './operation-journal';
+export * from './record-store';
+export * from './schemas';
+export * from './launch-metadata';
 export type { X402PaymentRequirements } from './errors';
 
 // Agent Framework
 export * from './agent';
-
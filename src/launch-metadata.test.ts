@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LaunchValidationError } from './errors';
+import {
+  DEFAULT_INITIAL_SUPPLY,
+  LAUNCH_LIMITS,
+  createPlaceholderImage,
+  loadLaunchImage,
+  validateLaunchParams,
+} from './launch-metadata';
+import type { LaunchTokenParams } from './types';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0, 0]);
+const GIF = new TextEncoder().encode('GIF89a....');
+const WEBP = new Uint8Array([0x52, 0x49, 0x46, 0x46, 0, 0, 0, 0, 0x57, 0x45, 0x42, 0x50]);
+const SVG = new TextEncoder().encode('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+
+function params(overrides: Partial<LaunchTokenParams> = {}): LaunchTokenParams {
+  return {
+    name: 'Moon Token',
+    ticker: 'moon',
+    description: 'A token for the tests',
+    image: 'https://example.com/moon.png',
+    ...overrides,
+  };
+}
+
+function issuesOf(run: () => unknown): Array<{ field: string; message: string }> {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(LaunchValidationError);
+    return (error as LaunchValidationError).issues;
+  }
+  throw new Error('Expected a LaunchValidationError');
+}
+
+describe('validateLaunchParams', () => {
+  it('normalizes valid parameters', () => {
+    expect(validateLaunchParams(params({ name: '  Moon Token ' }))).toEqual({
+      name: 'Moon Token',
+      ticker: 'MOON',
+      description: 'A token for the tests',
+      image: 'https://example.com/moon.png',
+      initialSupply: DEFAULT_INITIAL_SUPPLY,
+      website: undefined,
+      twitter: undefined,
+      telegram: undefined,
+      discord: undefined,
+    });
+  });
+
+  it('reports every invalid field', () => {
+    const issues = issuesOf(() =>
+      validateLaunchParams(
+        params({
+          name: 'x'.repeat(LAUNCH_LIMITS.nameMaxLength + 1),
+          ticker: 'M!',
+          description: 'short',
+          image: 'ftp://example.com/moon.png',
+          website: 'example.com',
+          twitter: 'https://facebook.com/moon',
+          telegram: 'https://t.me.evil.com/moon',
+          discord: 'discord.gg/moon',
+          initialSupply: '1.5',
+        })
+      )
+    );
+
+    expect(issues.map((issue) => issue.field)).toEqual([
+      'name',
+      'ticker',
+      'description',
+      'image',
+      'website',
+      'twitter',
+      'telegram',
+      'discord',
+      'initialSupply',
+    ]);
+    expect(issues[0].message).toBe('Must be at most 32 characters (got 33)');
+  });
+
+  it('accepts social links on the expected hosts and their subdomains', () => {
+    const launch = validateLaunchParams(
+      params({ twitter: 'https://x.com/moon', telegram: 'https://t.me/moon', discord: 'https://www.discord.com/invite/moon' })
+    );
+
+    expect(launch).toMatchObject({ twitter: 'https://x.com/moon', discord: 'https://www.discord.com/invite/moon' });
+  });
+
+  it('treats blank links as not given', () => {
+    const launch = validateLaunchParams(params({ website: '', twitter: ' ', telegram: '', discord: '' }));
+
+    expect(launch).toMatchObject({ website: undefined, twitter: undefined, telegram: undefined, discord: undefined });
+  });
+
+  it.each([
+    ['below 1 token', '999999999999999999'],
+    ['above 1T tokens', '1000000000000000000000000000001'],
+  ])('rejects an initial supply %s', (_case, initialSupply) => {
+    const issues = issuesOf(() => validateLaunchParams(params({ initialSupply })));
+
+    expect(issues).toEqual([{ field: 'initialSupply', message: expect.stringMatching(/^Must be between/) }]);
+  });
+
+  it('accepts the initial supply bounds', () => {
+    for (const initialSupply of [LAUNCH_LIMITS.minInitialSupply, LAUNCH_LIMITS.maxInitialSupply]) {
+      expect(validateLaunchParams(params({ initialSupply })).initialSupply).toBe(initialSupply);
+    }
+  });
+
+  it('requires exactly one of image and imageFile', () => {
+    const both = issuesOf(() => validateLaunchParams(params({ imageFile: { data: PNG } })));
+    const neither = issuesOf(() => validateLaunchParams(params({ image: '' })));
+
+    expect(both).toEqual([{ field: 'image', message: 'Pass either image or imageFile, not both' }]);
+    expect(neither).toEqual([{ field: 'image', message: expect.stringMatching(/^Required/) }]);
+  });
+
+  it('checks image bytes without reading files', () => {
+    const notImage = issuesOf(() =>
+      validateLaunchParams(params({ image: undefined, imageFile: { data: new TextEncoder().encode('hello') } }))
+    );
+    const unknownPath = issuesOf(() =>
+      validateLaunchParams(params({ image: undefined, imageFile: { path: '/missing/moon.bmp' } }))
+    );
+
+    expect(notImage).toEqual([{ field: 'imageFile', message: expect.stringMatching(/^Not a supported image/) }]);
+    expect(unknownPath).toEqual([{ field: 'imageFile', message: expect.stringMatching(/^Unsupported image type/) }]);
+    expect(validateLaunchParams(params({ image: undefined, imageFile: { path: '/missing/moon.png' } })).image).toBeUndefined();
+  });
+});
+
+describe('loadLaunchImage', () => {
+  it.each([
+    ['png', PNG, 'image/png'],
+    ['jpeg', JPEG, 'image/jpeg'],
+    ['gif', GIF, 'image/gif'],
+    ['webp', WEBP, 'image/webp'],
+    ['svg', SVG, 'image/svg+xml'],
+  ])('sniffs %s bytes and names the file after the type', async (extension, data, contentType) => {
+    const image = await loadLaunchImage({ data });
+
+    expect(image).toEqual({ data, contentType, fileName: `token-image.${extension === 'jpeg' ? 'jpg' : extension}` });
+  });
+
+  it('prefers the declared type and keeps the file name', async () => {
+    const image = await loadLaunchImage({ data: PNG, contentType: 'IMAGE/WEBP', fileName: 'moon.bin' });
+
+    expect(image).toMatchObject({ contentType: 'image/webp', fileName: 'moon.bin' });
+  });
+
+  it('rejects an image over the size limit', async () => {
+    const data = new Uint8Array(LAUNCH_LIMITS.maxImageBytes + 1);
+    data.set(PNG);
+
+    await expect(loadLaunchImage({ data })).rejects.toMatchObject({
+      issues: [{ field: 'imageFile', message: `Image is ${data.length} bytes, the limit is ${LAUNCH_LIMITS.maxImageBytes}` }],
+    });
+  });
+
+  it('rejects an unsupported declared type', async () => {
+    await expect(loadLaunchImage({ data: PNG, contentType: 'image/bmp' })).rejects.toBeInstanceOf(LaunchValidationError);
+  });
+
+  describe('from a file', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'launch-image-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('reads the file and sniffs its content', async () => {
+      const file = path.join(dir, 'logo');
+      await fs.writeFile(file, JPEG);
+
+      const image = await loadLaunchImage({ path: file });
+
+      expect(image).toEqual({ data: expect.any(Uint8Array), contentType: 'image/jpeg', fileName: 'logo.jpg' });
+      expect(Array.from(image.data)).toEqual(Array.from(JPEG));
+    });
+
+    it('reports a file that cannot be read on the imageFile field', async () => {
+      await expect(loadLaunchImage({ path: path.join(dir, 'missing.png') })).rejects.toMatchObject({
+        field: 'imageFile',
+        message: expect.stringContaining('Cannot read'),
+      });
+    });
+  });
+});
+
+describe('createPlaceholderImage', () => {
+  it('draws the ticker into an SVG that passes validation', async () => {
+    const file = createPlaceholderImage('m<o>n');
+
+    const image = await loadLaunchImage(file);
+
+    expect(image).toMatchObject({ contentType: 'image/svg+xml', fileName: 'mon.svg' });
+    expect(new TextDecoder().decode(image.data)).toContain('>M&lt;O&gt;N</text>');
+  });
+});
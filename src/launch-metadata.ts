@@ -0,0 +1,333 @@
+/**
+ * Launch Metadata
+ *
+ * Checks token launch parameters up front, with field-level errors, so a bad
+ * launch fails before anything is uploaded or any x402 fee is paid. Prepares
+ * the token image: a hosted URL is used as is, while bytes or a local file are
+ * uploaded through the platform or a pluggable ImageStorageAdapter. Also
+ * generates an SVG placeholder for launches without artwork.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { LaunchValidationError, LaunchValidationIssue } from './errors';
+import type { LaunchTokenParams } from './types';
+
+/**
+ * Token image to upload: raw bytes or a local file
+ */
+export type LaunchImageFile =
+  | { data: Uint8Array; contentType?: string; fileName?: string }
+  | { path: string; contentType?: string };
+
+/**
+ * An image ready for upload
+ */
+export interface LaunchImage {
+  data: Uint8Array;
+  contentType: string; // e.g. 'image/png'
+  fileName: string;
+}
+
+/**
+ * Hosts launch images somewhere the platform can fetch them (S3, IPFS, a CDN, ...)
+ */
+export interface ImageStorageAdapter {
+  /** Store the image and return its public http(s) URL */
+  upload(image: LaunchImage): Promise<string>;
+}
+
+/**
+ * Launch parameters after validation (trimmed, ticker uppercased, supply defaulted)
+ */
+export interface ValidatedLaunchParams {
+  name: string;
+  ticker: string;
+  description: string;
+  image?: string; // Undefined when an imageFile is uploaded instead
+  initialSupply: string;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+}
+
+export const LAUNCH_LIMITS = {
+  nameMaxLength: 32,
+  descriptionMinLength: 10,
+  descriptionMaxLength: 500,
+  minInitialSupply: '1000000000000000000', // 1 token
+  maxInitialSupply: '1000000000000000000000000000000', // 1T tokens
+  maxImageBytes: 5 * 1024 * 1024,
+};
+
+export const DEFAULT_INITIAL_SUPPLY = '10000000000000000000000000'; // 10M tokens
+
+// Accepted hosts per social link (subdomains such as www. are allowed)
+const SOCIAL_HOSTS: Record<'twitter' | 'telegram' | 'discord', string[]> = {
+  twitter: ['twitter.com', 'x.com'],
+  telegram: ['t.me', 'telegram.me'],
+  discord: ['discord.gg', 'discord.com'],
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+/**
+ * Check launch parameters and normalize them
+ *
+ * Every invalid field is reported, not just the first. Image files are only
+ * checked for shape here; loadLaunchImage reads and checks their content.
+ *
+ * @throws {LaunchValidationError} With one issue per invalid field
+ */
+export function validateLaunchParams(params: LaunchTokenParams): ValidatedLaunchParams {
+  const issues: LaunchValidationIssue[] = [];
+  const fail = (field: string, message: string) => issues.push({ field, message });
+
+  const name = typeof params.name === 'string' ? params.name.trim() : '';
+  if (!name) {
+    fail('name', 'Required');
+  } else if (name.length > LAUNCH_LIMITS.nameMaxLength) {
+    fail('name', `Must be at most ${LAUNCH_LIMITS.nameMaxLength} characters (got ${name.length})`);
+  }
+
+  const ticker = typeof params.ticker === 'string' ? params.ticker.trim().toUpperCase() : '';
+  if (!/^[A-Z0-9]{3,10}$/.test(ticker)) {
+    fail('ticker', `Must be 3-10 letters or numbers (got '${params.ticker ?? ''}')`);
+  }
+
+  const description = typeof params.description === 'string' ? params.description.trim() : '';
+  if (
+    description.length < LAUNCH_LIMITS.descriptionMinLength ||
+    description.length > LAUNCH_LIMITS.descriptionMaxLength
+  ) {
+    fail(
+      'description',
+      `Must be ${LAUNCH_LIMITS.descriptionMinLength}-${LAUNCH_LIMITS.descriptionMaxLength} characters (got ${description.length})`
+    );
+  }
+
+  // Forms and LLM tool calls send '' for links left blank
+  const image = optional(params.image);
+  const website = optional(params.website);
+  const socials = {
+    twitter: optional(params.twitter),
+    telegram: optional(params.telegram),
+    discord: optional(params.discord),
+  };
+
+  if (image !== undefined && params.imageFile) {
+    fail('image', 'Pass either image or imageFile, not both');
+  } else if (image !== undefined) {
+    if (!isHttpUrl(image)) fail('image', 'Must be an http(s) URL');
+  } else if (params.imageFile) {
+    checkImageFile(params.imageFile, fail);
+  } else {
+    fail('image', 'Required: a hosted image URL, or imageFile with bytes or a file path');
+  }
+
+  if (website !== undefined && !isHttpUrl(website)) {
+    fail('website', 'Must be an http(s) URL');
+  }
+  for (const field of ['twitter', 'telegram', 'discord'] as const) {
+    const value = socials[field];
+    if (value !== undefined && !isSocialUrl(value, SOCIAL_HOSTS[field])) {
+      fail(field, `Must be an http(s) URL on ${SOCIAL_HOSTS[field].join(' or ')}`);
+    }
+  }
+
+  const initialSupply = params.initialSupply ?? DEFAULT_INITIAL_SUPPLY;
+  if (!/^\d+$/.test(String(initialSupply))) {
+    fail('initialSupply', 'Must be an integer amount in token atomic units (18 decimals)');
+  } else if (
+    BigInt(initialSupply) < BigInt(LAUNCH_LIMITS.minInitialSupply) ||
+    BigInt(initialSupply) > BigInt(LAUNCH_LIMITS.maxInitialSupply)
+  ) {
+    fail(
+      'initialSupply',
+      `Must be between ${LAUNCH_LIMITS.minInitialSupply} (1 token) and ${LAUNCH_LIMITS.maxInitialSupply} (1T tokens)`
+    );
+  }
+
+  if (issues.length > 0) {
+    throw new LaunchValidationError(issues);
+  }
+
+  return {
+    name,
+    ticker,
+    description,
+    image,
+    initialSupply: String(initialSupply),
+    website,
+    ...socials,
+  };
+}
+
+/**
+ * Read an image file (or take its bytes) and check size and type
+ *
+ * @throws {LaunchValidationError} On the imageFile field if the image is unreadable, too large or not an image
+ */
+export async function loadLaunchImage(file: LaunchImageFile): Promise<LaunchImage> {
+  let data: Uint8Array;
+  let fileName: string;
+  if ('path' in file) {
+    try {
+      data = await fs.readFile(file.path);
+    } catch (error: any) {
+      throw new LaunchValidationError([
+        { field: 'imageFile', message: `Cannot read ${file.path}: ${error.message}` },
+      ]);
+    }
+    fileName = path.basename(file.path);
+  } else {
+    data = file.data;
+    fileName = file.fileName || 'token-image';
+  }
+
+  const issues: LaunchValidationIssue[] = [];
+  checkImageFile({ data, contentType: file.contentType, fileName }, (field, message) =>
+    issues.push({ field, message })
+  );
+  if (issues.length > 0) {
+    throw new LaunchValidationError(issues);
+  }
+
+  const contentType = resolveContentType(data, file.contentType, fileName)!;
+  if (!path.extname(fileName)) {
+    fileName = `${fileName}.${EXTENSIONS[contentType]}`;
+  }
+  return { data, contentType, fileName };
+}
+
+/**
+ * SVG placeholder showing the ticker, for launches without an image
+ *
+ * @example
+ * ```typescript
+ * await client.launchToken({ ...params, imageFile: createPlaceholderImage('MTK') });
+ * ```
+ */
+export function createPlaceholderImage(ticker: string): LaunchImageFile {
+  const text = escapeXml(ticker.toUpperCase().slice(0, 10));
+  const fontSize = text.length > 6 ? 56 : 80;
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400" viewBox="0 0 400 400">' +
+    '<rect width="400" height="400" fill="#000000"/>' +
+    `<text x="200" y="200" fill="#FFFFFF" font-family="Arial, Helvetica, sans-serif" font-size="${fontSize}" ` +
+    `font-weight="bold" text-anchor="middle" dominant-baseline="central">${text}</text>` +
+    '</svg>';
+  return {
+    data: new TextEncoder().encode(svg),
+    contentType: 'image/svg+xml',
+    fileName: `${ticker.toLowerCase().replace(/[^a-z0-9]/g, '') || 'token'}.svg`,
+  };
+}
+
+function checkImageFile(
+  file: LaunchImageFile,
+  fail: (field: string, message: string) => void
+): void {
+  if ('path' in file) {
+    if (typeof file.path !== 'string' || !file.path) {
+      fail('imageFile', 'path must be a non-empty string');
+    } else if (!resolveContentType(undefined, file.contentType, file.path)) {
+      fail('imageFile', `Unsupported image type for ${file.path} (use png, jpeg, gif, webp or svg)`);
+    }
+    return;
+  }
+
+  if (!(file.data instanceof Uint8Array) || file.data.length === 0) {
+    fail('imageFile', 'data must be non-empty bytes');
+    return;
+  }
+  if (file.data.length > LAUNCH_LIMITS.maxImageBytes) {
+    fail(
+      'imageFile',
+      `Image is ${file.data.length} bytes, the limit is ${LAUNCH_LIMITS.maxImageBytes}`
+    );
+  }
+  if (!resolveContentType(file.data, file.contentType, file.fileName)) {
+    fail('imageFile', 'Not a supported image (png, jpeg, gif, webp or svg)');
+  }
+}
+
+/**
+ * Content type from the declared type, the file signature or the extension
+ */
+function resolveContentType(
+  data: Uint8Array | undefined,
+  declared: string | undefined,
+  fileName: string | undefined
+): string | undefined {
+  if (declared) {
+    return EXTENSIONS[declared.toLowerCase()] ? declared.toLowerCase() : undefined;
+  }
+  if (data) {
+    const sniffed = sniffContentType(data);
+    if (sniffed) return sniffed;
+  }
+  return fileName ? CONTENT_TYPES[path.extname(fileName).toLowerCase()] : undefined;
+}
+
+function sniffContentType(data: Uint8Array): string | undefined {
+  const startsWith = (...bytes: number[]) => bytes.every((b, i) => data[i] === b);
+  if (startsWith(0x89, 0x50, 0x4e, 0x47)) return 'image/png';
+  if (startsWith(0xff, 0xd8, 0xff)) return 'image/jpeg';
+  if (startsWith(0x47, 0x49, 0x46, 0x38)) return 'image/gif';
+  if (startsWith(0x52, 0x49, 0x46, 0x46) && String.fromCharCode(...data.slice(8, 12)) === 'WEBP') {
+    return 'image/webp';
+  }
+  const head = new TextDecoder().decode(data.slice(0, 256)).trimStart();
+  if (head.startsWith('<svg') || (head.startsWith('<?xml') && head.includes('<svg'))) {
+    return 'image/svg+xml';
+  }
+  return undefined;
+}
+
+/**
+ * Blank strings count as not given
+ */
+function optional(value: string | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() === '' ? undefined : value;
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function isSocialUrl(value: unknown, hosts: string[]): boolean {
+  if (!isHttpUrl(value)) return false;
+  const host = new URL(value as string).hostname.toLowerCase();
+  return hosts.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
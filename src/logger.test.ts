@@ -0,0 +1,126 @@
+import { X402LaunchError } from './errors';
+import { ConsoleLogger, JsonLinesLogger, noopLogger } from './logger';
+
+describe('JsonLinesLogger', () => {
+  let lines: string[];
+  const write = (line: string) => lines.push(line);
+  const entries = () => lines.map((line) => JSON.parse(line));
+
+  beforeEach(() => {
+    lines = [];
+  });
+
+  it('writes one JSON object per entry', () => {
+    const logger = new JsonLinesLogger({ write, fields: { agent: 'sniper-1' } });
+
+    logger.info('Bought', { tokenAddress: '0xaa' });
+
+    expect(lines).toHaveLength(1);
+    expect(entries()[0]).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: 'info',
+      msg: 'Bought',
+      agent: 'sniper-1',
+      tokenAddress: '0xaa',
+    });
+  });
+
+  it('drops entries below the level', () => {
+    const logger = new JsonLinesLogger({ write, level: 'warn' });
+
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+
+    expect(entries().map((entry) => entry.level)).toEqual(['warn', 'error']);
+  });
+
+  it('merges child fields over the parent, and entry fields over both', () => {
+    const parent = new JsonLinesLogger({ write, level: 'debug', fields: { agentId: 'a1', component: 'root' } });
+    const child = parent.child({ component: 'AgentRunner', phase: 'trade' });
+
+    child.debug('Trading', { phase: 'execute' });
+    parent.debug('Parent');
+
+    expect(entries()[0]).toMatchObject({ agentId: 'a1', component: 'AgentRunner', phase: 'execute', level: 'debug' });
+    expect(entries()[1]).toMatchObject({ agentId: 'a1', component: 'root' });
+    expect(entries()[1].phase).toBeUndefined();
+  });
+
+  it('writes bigints as strings and errors by name, message and code', () => {
+    const logger = new JsonLinesLogger({ write });
+
+    logger.error('Failed', {
+      amount: BigInt('1000000000000000000000'),
+      error: new X402LaunchError('Curve completed', 'CURVE_COMPLETED'),
+      nested: { values: [BigInt(1)], plain: new Error('boom') },
+    });
+
+    expect(entries()[0]).toMatchObject({
+      amount: '1000000000000000000000',
+      error: { name: 'X402LaunchError', message: 'Curve completed', code: 'CURVE_COMPLETED' },
+      nested: { values: ['1'], plain: { name: 'Error', message: 'boom' } },
+    });
+  });
+});
+
+describe('ConsoleLogger', () => {
+  let log: jest.SpyInstance;
+  let warn: jest.SpyInstance;
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prefixes the component and appends the other fields as JSON', () => {
+    const logger = new ConsoleLogger('info', { component: 'Client' });
+
+    logger.info('Bought', { amount: BigInt(5) });
+    logger.info('Idle');
+
+    expect(log).toHaveBeenNthCalledWith(1, '[Client] Bought {"amount":"5"}');
+    expect(log).toHaveBeenNthCalledWith(2, '[Client] Idle');
+  });
+
+  it('sends warnings and errors to console.warn and console.error', () => {
+    const logger = new ConsoleLogger('debug');
+
+    logger.debug('debug');
+    logger.warn('warn');
+    logger.error('error', { error: new Error('boom') });
+
+    expect(log).toHaveBeenCalledWith('debug');
+    expect(warn).toHaveBeenCalledWith('warn');
+    expect(error).toHaveBeenCalledWith('error {"error":{"name":"Error","message":"boom"}}');
+  });
+
+  it('drops entries below the level and keeps it in children', () => {
+    const child = new ConsoleLogger('warn', { agentId: 'a1' }).child({ component: 'AgentRunner' });
+
+    child.info('info');
+    child.warn('Slow RPC', { attempt: 2 });
+
+    expect(log).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith('[AgentRunner] Slow RPC {"agentId":"a1","attempt":2}');
+  });
+});
+
+describe('noopLogger', () => {
+  it('drops everything, children included', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    noopLogger.child({ component: 'x' }).info('nothing');
+
+    expect(noopLogger.child({})).toBe(noopLogger);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Logger
+ *
+ * Structured logging for the SDK and agent framework. Every module logs
+ * through a `Logger` passed in via `ClientConfig.logger` / `AgentConfig.logger`
+ * instead of `console`, so output can be silenced (the default) or sent to
+ * a log pipeline as JSON lines.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every entry (e.g. { component: 'AgentRunner' }) */
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Logger that drops everything (the SDK default)
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined,
+  child: () => noopLogger,
+};
+
+export interface JsonLinesLoggerOptions {
+  level?: LogLevel; // Minimum level written (default: 'info')
+  write?: (line: string) => void; // Default: process.stdout
+  fields?: LogFields; // Added to every entry
+}
+
+/**
+ * Writes one JSON object per line: {"time","level","msg",...fields}
+ *
+ * bigint values are written as strings and errors as { name, message, code }.
+ *
+ * @example
+ * ```typescript
+ * const client = new X402LaunchClient({
+ *   wallet: { privateKey },
+ *   logger: new JsonLinesLogger({ level: 'debug', fields: { agent: 'sniper-1' } }),
+ * });
+ * ```
+ */
+export class JsonLinesLogger implements Logger {
+  private options: Required<JsonLinesLoggerOptions>;
+
+  constructor(options: JsonLinesLoggerOptions = {}) {
+    this.options = {
+      level: options.level || 'info',
+      write: options.write || ((line) => process.stdout.write(`${line}\n`)),
+      fields: options.fields || {},
+    };
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new JsonLinesLogger({
+      ...this.options,
+      fields: { ...this.options.fields, ...fields },
+    });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[this.options.level]) return;
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...this.options.fields,
+      ...fields,
+    };
+    this.options.write(JSON.stringify(entry, serializeValue));
+  }
+}
+
+/**
+ * Human-readable logger on the console: "[component] message {fields}"
+ */
+export class ConsoleLogger implements Logger {
+  constructor(
+    private level: LogLevel = 'info',
+    private fields: LogFields = {}
+  ) {}
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  child(fields: LogFields): Logger {
+    return new ConsoleLogger(this.level, { ...this.fields, ...fields });
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS[level] < LEVELS[this.level]) return;
+    const { component, ...rest } = { ...this.fields, ...fields };
+    const prefix = component ? `[${component}] ` : '';
+    const extra = Object.keys(rest).length ? ` ${JSON.stringify(rest, serializeValue)}` : '';
+    const method = level === 'warn' || level === 'error' ? level : 'log';
+    console[method](`${prefix}${message}${extra}`);
+  }
+}
+
+function serializeValue(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, code: (value as any).code };
+  }
+  return value;
+}
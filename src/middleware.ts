@@ -0,0 +1,87 @@
+/**
+ * Request middleware
+ *
+ * Hooks around every HTTP request the client makes to the AgentPad API, for
+ * extra headers, tracing IDs, custom auth, request signing or timing.
+ * Middleware runs in array order for each hook:
+ * - beforeRequest: before each attempt is sent; changes to `headers` are sent
+ *   with the request, and a throw aborts the request with that error
+ * - afterResponse: after a successful response
+ * - onError: after a failed attempt, with the typed SDK error
+ *
+ * Errors thrown by afterResponse/onError are logged and ignored so telemetry
+ * can never break a trade.
+ */
+
+import type { Logger } from './logger';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RequestContext {
+  method: HttpMethod;
+  endpoint: string; // Path below the API prefix, e.g. '/tokens/0x.../buy'
+  url: string; // Full request URL (without query string)
+  attempt: number; // 1 for the first try; retries and the paid retry count up
+  paymentAttached: boolean; // Whether an X-PAYMENT header is sent
+  headers: Record<string, string>; // Request headers (mutable in beforeRequest)
+  params?: Record<string, unknown>; // Query parameters
+  body?: unknown; // JSON body, before serialization
+  state: Record<string, unknown>; // Shared by the hooks of one attempt (e.g. a tracing span)
+}
+
+export interface ResponseContext extends RequestContext {
+  status: number;
+  latencyMs: number;
+  responseHeaders: Record<string, string>;
+  data: unknown;
+}
+
+export interface RequestErrorContext extends RequestContext {
+  error: Error; // Typed SDK error (PaymentRequiredError, RateLimitError, NetworkError, ...)
+  status?: number; // HTTP status, undefined when no response was received
+  latencyMs: number;
+}
+
+export interface ClientMiddleware {
+  name?: string; // Used in log entries when a hook fails
+  beforeRequest?(context: RequestContext): void | Promise<void>;
+  afterResponse?(context: ResponseContext): void | Promise<void>;
+  onError?(context: RequestErrorContext): void | Promise<void>;
+}
+
+/**
+ * Run `beforeRequest` of every middleware; errors propagate
+ */
+export async function runBeforeRequest(
+  middleware: ClientMiddleware[],
+  context: RequestContext
+): Promise<void> {
+  for (const m of middleware) {
+    if (m.beforeRequest) await m.beforeRequest(context);
+  }
+}
+
+/**
+ * Run `afterResponse` or `onError` of every middleware; errors are logged, not thrown
+ */
+export async function runAfterRequest(
+  middleware: ClientMiddleware[],
+  hook: 'afterResponse' | 'onError',
+  context: ResponseContext | RequestErrorContext,
+  logger: Logger
+): Promise<void> {
+  for (const m of middleware) {
+    const fn = m[hook] as ((context: ResponseContext | RequestErrorContext) => void | Promise<void>) | undefined;
+    if (!fn) continue;
+    try {
+      await fn.call(m, context);
+    } catch (error) {
+      logger.warn('Middleware hook failed', {
+        middleware: m.name || 'anonymous',
+        hook,
+        endpoint: context.endpoint,
+        error,
+      });
+    }
+  }
+}
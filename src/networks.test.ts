@@ -0,0 +1,65 @@
+import { ethers } from 'ethers';
+import { X402LaunchClient } from './client';
+import { UnknownNetworkError } from './errors';
+import { BASE_MAINNET, BASE_SEPOLIA, NetworkDefinition, NetworkRegistry, getNetwork, registerNetwork } from './networks';
+
+const ANVIL: NetworkDefinition = {
+  chainId: 31337,
+  name: 'anvil',
+  usdc: { address: '0x5fbdb2315678afecb367f032d93f642f64180aa3', name: 'USDC', version: '2' },
+  rpcUrls: ['http://127.0.0.1:8545'],
+  testnet: true,
+};
+
+describe('NetworkRegistry', () => {
+  it('throws UnknownNetworkError for an unregistered chain, naming the known ones', () => {
+    const registry = new NetworkRegistry([BASE_SEPOLIA, BASE_MAINNET]);
+
+    expect(() => registry.get(1)).toThrow(UnknownNetworkError);
+    expect(() => registry.get(1)).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_NETWORK', chainId: 1, message: expect.stringContaining('84532, 8453') })
+    );
+    expect(registry.find(1)).toBeUndefined();
+    expect(registry.has(1)).toBe(false);
+  });
+
+  it('finds a registered chain with checksummed addresses', () => {
+    const registry = new NetworkRegistry([ANVIL]);
+
+    expect(registry.get(31337).usdc.address).toBe(ethers.getAddress(ANVIL.usdc.address));
+    expect(registry.findByName('ANVIL')?.chainId).toBe(31337);
+  });
+
+  it.each([
+    ['chain ID', { chainId: 0 }],
+    ['USDC address', { usdc: { ...ANVIL.usdc, address: '0x1234' } }],
+    ['bonding curve address', { contracts: { bondingCurve: 'curve' } }],
+    ['RPC URL list', { rpcUrls: [] }],
+  ])('rejects an invalid %s', (_case, overrides) => {
+    const registry = new NetworkRegistry();
+
+    expect(() => registry.register({ ...ANVIL, ...overrides })).toThrow(
+      expect.objectContaining({ code: 'INVALID_NETWORK' })
+    );
+    expect(registry.list()).toEqual([]);
+  });
+});
+
+describe('getNetwork', () => {
+  const chainId = 424242;
+
+  it('is a hard error for an unknown chain until it is registered', () => {
+    expect(() => getNetwork(chainId)).toThrow(UnknownNetworkError);
+
+    registerNetwork({ ...ANVIL, chainId, name: 'local-test' });
+
+    expect(getNetwork(chainId).name).toBe('local-test');
+  });
+
+  it('makes the client refuse an unknown chain', () => {
+    const create = () =>
+      new X402LaunchClient({ wallet: { privateKey: ethers.Wallet.createRandom().privateKey }, chainId: 999999 });
+
+    expect(create).toThrow(UnknownNetworkError);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Network Registry
+ *
+ * Single source of truth for supported chains: x402 network id, USDC address
+ * (with its EIP-712 domain) and RPC endpoints. Custom or local dev chains
+ * (e.g. an anvil instance) can be added with registerNetwork().
+ */
+
+import { ethers } from 'ethers';
+import { UnknownNetworkError, X402LaunchError } from './errors';
+
+export interface NetworkDefinition {
+  chainId: number;
+  name: string; // x402 network id (e.g. 'base-sepolia')
+  displayName?: string;
+  usdc: {
+    address: string;
+    name: string; // EIP-712 domain name
+    version: string; // EIP-712 domain version
+  };
+  rpcUrls: string[]; // First entry is the default, the rest are fallbacks
+  contracts?: {
+    bondingCurve?: string; // Not set for built-in networks: the curve ABIs in contracts.ts are unverified
+    startBlock?: number; // First block with platform activity (log scans start here)
+  };
+  testnet?: boolean;
+}
+
+export const BASE_SEPOLIA: NetworkDefinition = {
+  chainId: 84532,
+  name: 'base-sepolia',
+  displayName: 'Base Sepolia',
+  usdc: {
+    address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    name: 'USDC',
+    version: '2',
+  },
+  // Free RPC endpoints (fallback order)
+  rpcUrls: [
+    'https://sepolia.base.org',
+    'https://base-sepolia-rpc.publicnode.com',
+    'https://base-sepolia.blockpi.network/v1/rpc/public',
+    'https://rpc.notadegen.com/base/sepolia',
+  ],
+  testnet: true,
+};
+
+export const BASE_MAINNET: NetworkDefinition = {
+  chainId: 8453,
+  name: 'base',
+  displayName: 'Base',
+  usdc: {
+    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    name: 'USD Coin',
+    version: '2',
+  },
+  rpcUrls: [
+    'https://mainnet.base.org',
+    'https://base.publicnode.com',
+    'https://base.meowrpc.com',
+  ],
+  testnet: false,
+};
+
+export const DEFAULT_CHAIN_ID = BASE_SEPOLIA.chainId;
+
+export class NetworkRegistry {
+  private networks = new Map<number, NetworkDefinition>();
+
+  constructor(definitions: NetworkDefinition[] = []) {
+    definitions.forEach((definition) => this.register(definition));
+  }
+
+  /**
+   * Add or replace a network definition
+   */
+  register(definition: NetworkDefinition): void {
+    if (!Number.isInteger(definition.chainId) || definition.chainId <= 0) {
+      throw new X402LaunchError(
+        `Invalid chain ID for network "${definition.name}": ${definition.chainId}`,
+        'INVALID_NETWORK'
+      );
+    }
+    if (!ethers.isAddress(definition.usdc?.address)) {
+      throw new X402LaunchError(
+        `Invalid USDC address for network "${definition.name}": ${definition.usdc?.address}`,
+        'INVALID_NETWORK'
+      );
+    }
+    const bondingCurve = definition.contracts?.bondingCurve;
+    if (bondingCurve !== undefined && !ethers.isAddress(bondingCurve)) {
+      throw new X402LaunchError(
+        `Invalid bonding curve address for network "${definition.name}": ${bondingCurve}`,
+        'INVALID_NETWORK'
+      );
+    }
+    if (!definition.rpcUrls || definition.rpcUrls.length === 0) {
+      throw new X402LaunchError(
+        `Network "${definition.name}" needs at least one RPC URL`,
+        'INVALID_NETWORK'
+      );
+    }
+    this.networks.set(definition.chainId, {
+      ...definition,
+      usdc: { ...definition.usdc, address: ethers.getAddress(definition.usdc.address) },
+      rpcUrls: [...definition.rpcUrls],
+      contracts: bondingCurve
+        ? { ...definition.contracts, bondingCurve: ethers.getAddress(bondingCurve) }
+        : definition.contracts,
+    });
+  }
+
+  /**
+   * Get a network by chain ID
+   *
+   * @throws {UnknownNetworkError} If the chain is not registered
+   */
+  get(chainId: number): NetworkDefinition {
+    const network = this.networks.get(chainId);
+    if (!network) {
+      throw new UnknownNetworkError(chainId, [...this.networks.keys()]);
+    }
+    return network;
+  }
+
+  /**
+   * Get a network by chain ID, or undefined if not registered
+   */
+  find(chainId: number): NetworkDefinition | undefined {
+    return this.networks.get(chainId);
+  }
+
+  /**
+   * Get a network by its x402 network id (e.g. 'base-sepolia')
+   */
+  findByName(name: string): NetworkDefinition | undefined {
+    const key = name.toLowerCase();
+    return [...this.networks.values()].find((n) => n.name.toLowerCase() === key);
+  }
+
+  has(chainId: number): boolean {
+    return this.networks.has(chainId);
+  }
+
+  list(): NetworkDefinition[] {
+    return [...this.networks.values()];
+  }
+}
+
+/**
+ * Registry used by every SDK module
+ */
+export const networkRegistry = new NetworkRegistry([BASE_SEPOLIA, BASE_MAINNET]);
+
+/**
+ * Register a custom network (e.g. a local anvil chain) with the SDK
+ *
+ * @example
+ * ```typescript
+ * registerNetwork({
+ *   chainId: 31337,
+ *   name: 'anvil',
+ *   usdc: { address: '0x5FbDB2315678afecb367f032d93F642f64180aa3', name: 'USDC', version: '2' },
+ *   rpcUrls: ['http://127.0.0.1:8545'],
+ *   testnet: true,
+ * });
+ * ```
+ */
+export function registerNetwork(definition: NetworkDefinition): void {
+  networkRegistry.register(definition);
+}
+
+/**
+ * Get a registered network by chain ID
+ *
+ * @throws {UnknownNetworkError} If the chain is not registered
+ */
+export function getNetwork(chainId: number): NetworkDefinition {
+  return networkRegistry.get(chainId);
+}
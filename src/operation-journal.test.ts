@@ -0,0 +1,99 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  JsonFileOperationStorage,
+  OperationJournal,
+  createIdempotencyKey,
+  resolveOperationJournal,
+} from './operation-journal';
+
+function buy(idempotencyKey: string) {
+  return {
+    idempotencyKey,
+    method: 'POST',
+    endpoint: '/tokens/buy',
+    category: 'trade' as const,
+    request: { tokenAddress: '0xtoken', usdcAmount: '1000000', signature: '0xsig' },
+  };
+}
+
+describe('OperationJournal', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'operation-journal-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('journals writes as pending without their signature', async () => {
+    const journal = new OperationJournal();
+    await journal.begin(buy('k1'));
+    await journal.attempt('k1');
+
+    expect(await journal.get('k1')).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      request: { tokenAddress: '0xtoken', usdcAmount: '1000000' },
+    });
+    expect((await journal.get('k1'))?.request).not.toHaveProperty('signature');
+  });
+
+  it('completes and fails operations', async () => {
+    const journal = new OperationJournal();
+    await journal.begin(buy('k1'));
+    await journal.begin(buy('k2'));
+
+    await journal.complete('k1', '0xtx');
+    await journal.fail('k2', 'Rejected');
+
+    expect(await journal.get('k1')).toMatchObject({ status: 'completed', transactionHash: '0xtx' });
+    expect(await journal.get('k2')).toMatchObject({ status: 'failed', error: 'Rejected' });
+    expect((await journal.list({ status: 'pending' })).length).toBe(0);
+  });
+
+  it('marks a reused key pending again and keeps its attempts', async () => {
+    const journal = new OperationJournal();
+    await journal.begin(buy('k1'));
+    await journal.attempt('k1');
+    await journal.fail('k1', 'Rejected');
+
+    await journal.begin(buy('k1'));
+
+    expect(await journal.list()).toHaveLength(1);
+    expect(await journal.get('k1')).toMatchObject({ status: 'pending', attempts: 1, error: undefined });
+  });
+
+  it('keeps pending operations across restarts in a JSON file', async () => {
+    const filePath = path.join(dir, 'nested', 'operations.json');
+    const journal = new OperationJournal(new JsonFileOperationStorage(filePath));
+    await Promise.all([journal.begin(buy('k1')), journal.begin(buy('k2'))]);
+    await journal.complete('k2', '0xtx');
+
+    const restarted = new OperationJournal(new JsonFileOperationStorage(filePath));
+
+    expect((await restarted.list({ status: 'pending' })).map((r) => r.idempotencyKey)).toEqual(['k1']);
+    expect(await restarted.get('k2')).toMatchObject({ status: 'completed', transactionHash: '0xtx' });
+    await expect(fs.access(`${filePath}.tmp`)).rejects.toThrow();
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const journal = new OperationJournal(new JsonFileOperationStorage(path.join(dir, 'missing.json')));
+
+    expect(await journal.list()).toEqual([]);
+  });
+
+  it('resolves instances, storage backends and nothing', () => {
+    const journal = new OperationJournal();
+
+    expect(resolveOperationJournal(journal)).toBe(journal);
+    expect(resolveOperationJournal(new JsonFileOperationStorage(path.join(dir, 'x.json')))).toBeInstanceOf(
+      OperationJournal
+    );
+    expect(resolveOperationJournal()).toBeInstanceOf(OperationJournal);
+    expect(createIdempotencyKey()).not.toBe(createIdempotencyKey());
+  });
+});
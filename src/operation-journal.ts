@@ -0,0 +1,193 @@
+/**
+ * Operation Journal
+ *
+ * Every API write (launch, buy, sell, agent control) carries a client-generated
+ * idempotency key that is reused across retries. The journal records each
+ * write under its key before it is sent and until its outcome is known, so an
+ * operation interrupted by a network failure or a crash can be checked
+ * against the platform or the chain instead of being blindly resent.
+ * Storage is pluggable.
+ */
+
+import { randomUUID } from 'crypto';
+import type { PaymentCategory } from './payment-policy';
+import {
+  InMemoryRecordStorage,
+  JsonFileRecordStorage,
+  RecordStorage,
+  RecordStore,
+} from './record-store';
+
+export type OperationStatus = 'pending' | 'completed' | 'failed';
+
+export interface OperationRecord {
+  idempotencyKey: string;
+  method: string;
+  endpoint: string;
+  category: PaymentCategory;
+  request?: Record<string, unknown>; // Request body (signatures removed)
+  attempts: number;
+  createdAt: number; // Unix ms
+  updatedAt: number; // Unix ms
+  status: OperationStatus;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface OperationQuery {
+  since?: number; // Unix ms (inclusive)
+  endpoint?: string;
+  status?: OperationStatus;
+}
+
+/**
+ * Storage backend for the operation journal
+ */
+export type OperationJournalStorage = RecordStorage<OperationRecord>;
+
+/**
+ * Keeps records in memory (lost on restart)
+ */
+export class InMemoryOperationStorage extends InMemoryRecordStorage<OperationRecord> {}
+
+/**
+ * Persists records to a JSON file, so pending operations survive a restart
+ */
+export class JsonFileOperationStorage extends JsonFileRecordStorage<OperationRecord> {}
+
+export class OperationJournal {
+  private store: RecordStore<OperationRecord>;
+
+  constructor(storage: OperationJournalStorage = new InMemoryOperationStorage()) {
+    this.store = new RecordStore(storage);
+  }
+
+  /**
+   * Record a write as pending before it is first sent
+   *
+   * Beginning a key that is already journaled (a caller-supplied key being
+   * reused) marks it pending again and keeps its history.
+   */
+  async begin(operation: {
+    idempotencyKey: string;
+    method: string;
+    endpoint: string;
+    category: PaymentCategory;
+    request?: Record<string, unknown>;
+  }): Promise<OperationRecord> {
+    const now = Date.now();
+    let result!: OperationRecord;
+    await this.store.mutate((records) => {
+      const existing = records.find((r) => r.idempotencyKey === operation.idempotencyKey);
+      if (existing) {
+        Object.assign(existing, { status: 'pending', error: undefined, updatedAt: now });
+        result = { ...existing };
+        return;
+      }
+      const record: OperationRecord = {
+        idempotencyKey: operation.idempotencyKey,
+        method: operation.method,
+        endpoint: operation.endpoint,
+        category: operation.category,
+        request: operation.request && withoutSignatures(operation.request),
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+        status: 'pending',
+      };
+      records.push(record);
+      result = { ...record };
+    });
+    return result;
+  }
+
+  /**
+   * Count one send of the operation
+   */
+  async attempt(idempotencyKey: string): Promise<void> {
+    await this.store.mutate((records) => {
+      const record = records.find((r) => r.idempotencyKey === idempotencyKey);
+      if (record) {
+        record.attempts++;
+        record.updatedAt = Date.now();
+      }
+    });
+  }
+
+  /**
+   * Mark an operation as landed
+   */
+  async complete(idempotencyKey: string, transactionHash?: string): Promise<void> {
+    await this.update(idempotencyKey, { status: 'completed', transactionHash, error: undefined });
+  }
+
+  /**
+   * Mark an operation as rejected (it did not and will not land)
+   */
+  async fail(idempotencyKey: string, reason: string): Promise<void> {
+    await this.update(idempotencyKey, { status: 'failed', error: reason });
+  }
+
+  /**
+   * Get a single operation by idempotency key
+   */
+  async get(idempotencyKey: string): Promise<OperationRecord | undefined> {
+    const records = await this.store.load();
+    const record = records.find((r) => r.idempotencyKey === idempotencyKey);
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * List operations matching the query, oldest first
+   *
+   * @example
+   * ```typescript
+   * const unresolved = await client.operations.list({ status: 'pending' });
+   * ```
+   */
+  async list(query: OperationQuery = {}): Promise<OperationRecord[]> {
+    const records = await this.store.load();
+    return records
+      .filter((r) => matchesQuery(r, query))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((r) => ({ ...r }));
+  }
+
+  private async update(idempotencyKey: string, patch: Partial<OperationRecord>): Promise<void> {
+    await this.store.mutate((records) => {
+      const record = records.find((r) => r.idempotencyKey === idempotencyKey);
+      if (record) {
+        Object.assign(record, patch, { updatedAt: Date.now() });
+      }
+    });
+  }
+}
+
+/**
+ * New random idempotency key
+ */
+export function createIdempotencyKey(): string {
+  return randomUUID();
+}
+
+function withoutSignatures(request: Record<string, unknown>): Record<string, unknown> {
+  const { signature, ...rest } = request;
+  return rest;
+}
+
+function matchesQuery(record: OperationRecord, query: OperationQuery): boolean {
+  if (query.since !== undefined && record.createdAt < query.since) return false;
+  if (query.endpoint !== undefined && record.endpoint !== query.endpoint) return false;
+  if (query.status !== undefined && record.status !== query.status) return false;
+  return true;
+}
+
+/**
+ * Accept a journal instance, a storage backend, or nothing (in-memory)
+ */
+export function resolveOperationJournal(
+  input?: OperationJournal | OperationJournalStorage
+): OperationJournal {
+  if (input instanceof OperationJournal) return input;
+  return new OperationJournal(input);
+}
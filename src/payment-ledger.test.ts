@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { X402PaymentAuthorization } from './payment';
+import {
+  InMemoryPaymentStorage,
+  JsonFilePaymentStorage,
+  PaymentLedger,
+  resolvePaymentLedger,
+} from './payment-ledger';
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+
+function authorization(nonce: string, amount = '10000'): X402PaymentAuthorization {
+  return {
+    payer: '0x2222222222222222222222222222222222222222',
+    recipient: '0x1111111111111111111111111111111111111111',
+    amount,
+    asset: USDC,
+    nonce,
+    validAfter: '1700000000',
+    validBefore: '1700000300',
+    signature: '0xsig',
+    timestamp: 1700000000,
+  };
+}
+
+describe('PaymentLedger', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'payment-ledger-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('records payments as pending and settles them', async () => {
+    const ledger = new PaymentLedger();
+    await ledger.record(authorization('0x01'), { resource: '/tokens/buy', category: 'trade' });
+    expect((await ledger.get('0x01'))?.status).toBe('pending');
+
+    await ledger.settle('0x01', { success: true, transaction: '0xtx' });
+    const record = await ledger.get('0x01');
+    expect(record?.status).toBe('settled');
+    expect(record?.settlement?.transaction).toBe('0xtx');
+  });
+
+  it('marks failed settlements and rejected payments as failed', async () => {
+    const ledger = new PaymentLedger();
+    await ledger.record(authorization('0x01'), { resource: '/tokens/buy', category: 'trade' });
+    await ledger.record(authorization('0x02'), { resource: '/tokens/buy', category: 'trade' });
+
+    await ledger.settle('0x01', { success: false, errorReason: 'insufficient_funds' });
+    await ledger.fail('0x02', 'Payment rejected');
+
+    expect(await ledger.get('0x01')).toMatchObject({ status: 'failed', error: 'insufficient_funds' });
+    expect(await ledger.get('0x02')).toMatchObject({ status: 'failed', error: 'Payment rejected' });
+  });
+
+  it('persists records to a JSON file and reloads them', async () => {
+    const filePath = path.join(dir, 'nested', 'payments.json');
+    const ledger = new PaymentLedger(new JsonFilePaymentStorage(filePath));
+    await ledger.record(authorization('0x01'), { resource: '/tokens/buy', category: 'trade' });
+    await ledger.settle('0x01', { success: true, transaction: '0xtx' });
+
+    const reloaded = new PaymentLedger(new JsonFilePaymentStorage(filePath));
+    expect(await reloaded.get('0x01')).toMatchObject({
+      nonce: '0x01',
+      status: 'settled',
+      amount: '10000',
+      resource: '/tokens/buy',
+    });
+    await expect(fs.access(`${filePath}.tmp`)).rejects.toThrow();
+  });
+
+  it('serializes concurrent writes without losing records', async () => {
+    const filePath = path.join(dir, 'payments.json');
+    const ledger = new PaymentLedger(new JsonFilePaymentStorage(filePath));
+    await Promise.all(
+      Array.from({ length: 20 }, (_, i) =>
+        ledger.record(authorization(`0x${i}`), { resource: '/tokens/buy', category: 'trade' })
+      )
+    );
+
+    const stored = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(stored).toHaveLength(20);
+  });
+
+  it('starts empty when the file does not exist', async () => {
+    const storage = new JsonFilePaymentStorage(path.join(dir, 'missing.json'));
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('filters records and totals them per resource and asset', async () => {
+    const ledger = new PaymentLedger(new InMemoryPaymentStorage());
+    await ledger.record(authorization('0x01', '10000'), { resource: '/tokens/buy', category: 'trade' });
+    await ledger.record(authorization('0x02', '20000'), { resource: '/tokens/buy', category: 'trade' });
+    await ledger.record(authorization('0x03', '1000000'), { resource: '/tokens/launch', category: 'launch' });
+    await ledger.fail('0x02', 'rejected');
+
+    expect(await ledger.list({ category: 'launch' })).toHaveLength(1);
+    expect(await ledger.list({ status: 'failed' })).toHaveLength(1);
+    expect(await ledger.totals({ resource: '/tokens/buy' })).toEqual([
+      { resource: '/tokens/buy', asset: USDC, count: 1, total: '10000' },
+    ]);
+  });
+
+  it('resolves an instance, a storage backend or nothing', () => {
+    const ledger = new PaymentLedger();
+    expect(resolvePaymentLedger(ledger)).toBe(ledger);
+    expect(resolvePaymentLedger(new InMemoryPaymentStorage())).toBeInstanceOf(PaymentLedger);
+    expect(resolvePaymentLedger()).toBeInstanceOf(PaymentLedger);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Payment Ledger
+ *
+ * Records every x402 authorization the SDK signs, together with the server's
+ * settlement receipt (X-PAYMENT-RESPONSE), so operators can reconcile what an
+ * agent paid against what it traded. Storage is pluggable.
+ */
+
+import type { PaymentCategory } from './payment-policy';
+import {
+  InMemoryRecordStorage,
+  JsonFileRecordStorage,
+  RecordStorage,
+  RecordStore,
+} from './record-store';
+import type {
+  X402PaymentAuthorization,
+  X402SettlementResponse,
+} from './payment';
+
+export type PaymentStatus = 'pending' | 'settled' | 'failed';
+
+export interface PaymentRecord {
+  nonce: string; // EIP-3009 nonce (unique per payment)
+  payer: string;
+  payTo: string;
+  amount: string; // Atomic units of `asset`
+  asset: string;
+  resource: string; // Endpoint or URL paid for
+  category: PaymentCategory;
+  validAfter: string;
+  validBefore: string;
+  createdAt: number; // Unix ms
+  updatedAt: number; // Unix ms
+  status: PaymentStatus;
+  settlement?: X402SettlementResponse;
+  error?: string;
+}
+
+export interface PaymentQuery {
+  since?: number; // Unix ms (inclusive)
+  until?: number; // Unix ms (exclusive)
+  resource?: string;
+  category?: PaymentCategory;
+  status?: PaymentStatus;
+}
+
+export interface PaymentTotal {
+  resource: string;
+  asset: string;
+  count: number;
+  total: string; // Atomic units of `asset`
+}
+
+/**
+ * Storage backend for the payment ledger
+ */
+export type PaymentLedgerStorage = RecordStorage<PaymentRecord>;
+
+/**
+ * Keeps records in memory (lost on restart)
+ */
+export class InMemoryPaymentStorage extends InMemoryRecordStorage<PaymentRecord> {}
+
+/**
+ * Persists records to a JSON file
+ */
+export class JsonFilePaymentStorage extends JsonFileRecordStorage<PaymentRecord> {}
+
+export class PaymentLedger {
+  private store: RecordStore<PaymentRecord>;
+
+  constructor(storage: PaymentLedgerStorage = new InMemoryPaymentStorage()) {
+    this.store = new RecordStore(storage);
+  }
+
+  /**
+   * Record a newly signed authorization as pending
+   */
+  async record(
+    authorization: X402PaymentAuthorization,
+    meta: { resource: string; category: PaymentCategory }
+  ): Promise<PaymentRecord> {
+    const now = Date.now();
+    const record: PaymentRecord = {
+      nonce: authorization.nonce,
+      payer: authorization.payer,
+      payTo: authorization.recipient,
+      amount: authorization.amount,
+      asset: authorization.asset,
+      resource: meta.resource,
+      category: meta.category,
+      validAfter: authorization.validAfter,
+      validBefore: authorization.validBefore,
+      createdAt: now,
+      updatedAt: now,
+      status: 'pending',
+    };
+    await this.store.mutate((records) => {
+      records.push(record);
+    });
+    return record;
+  }
+
+  /**
+   * Attach the server's settlement receipt to a payment
+   *
+   * A missing receipt still marks the payment settled (the request succeeded).
+   */
+  async settle(nonce: string, settlement?: X402SettlementResponse | null): Promise<void> {
+    await this.update(nonce, {
+      status: settlement && !settlement.success ? 'failed' : 'settled',
+      settlement: settlement || undefined,
+      error: settlement && !settlement.success ? settlement.errorReason : undefined,
+    });
+  }
+
+  /**
+   * Mark a payment as rejected by the server
+   */
+  async fail(nonce: string, reason: string): Promise<void> {
+    await this.update(nonce, { status: 'failed', error: reason });
+  }
+
+  /**
+   * Get a single payment by nonce
+   */
+  async get(nonce: string): Promise<PaymentRecord | undefined> {
+    const records = await this.store.load();
+    const record = records.find((r) => r.nonce === nonce);
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * List payments matching the query, oldest first
+   *
+   * @example
+   * ```typescript
+   * const lastHour = await client.payments.list({ since: Date.now() - 3600_000 });
+   * const buys = await client.payments.list({ resource: '/tokens/buy' });
+   * ```
+   */
+  async list(query: PaymentQuery = {}): Promise<PaymentRecord[]> {
+    const records = await this.store.load();
+    return records
+      .filter((r) => matchesQuery(r, query))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .map((r) => ({ ...r }));
+  }
+
+  /**
+   * Totals per endpoint and asset (failed payments excluded)
+   */
+  async totals(query: PaymentQuery = {}): Promise<PaymentTotal[]> {
+    const records = await this.list(query);
+    const totals = new Map<string, { resource: string; asset: string; count: number; total: bigint }>();
+
+    for (const record of records) {
+      if (record.status === 'failed') continue;
+      const key = `${record.resource}|${record.asset.toLowerCase()}`;
+      const entry = totals.get(key) || {
+        resource: record.resource,
+        asset: record.asset,
+        count: 0,
+        total: BigInt(0),
+      };
+      entry.count++;
+      entry.total += BigInt(record.amount);
+      totals.set(key, entry);
+    }
+
+    return [...totals.values()].map((t) => ({ ...t, total: t.total.toString() }));
+  }
+
+  private async update(nonce: string, patch: Partial<PaymentRecord>): Promise<void> {
+    await this.store.mutate((records) => {
+      const record = records.find((r) => r.nonce === nonce);
+      if (record) {
+        Object.assign(record, patch, { updatedAt: Date.now() });
+      }
+    });
+  }
+}
+
+function matchesQuery(record: PaymentRecord, query: PaymentQuery): boolean {
+  if (query.since !== undefined && record.createdAt < query.since) return false;
+  if (query.until !== undefined && record.createdAt >= query.until) return false;
+  if (query.resource !== undefined && record.resource !== query.resource) return false;
+  if (query.category !== undefined && record.category !== query.category) return false;
+  if (query.status !== undefined && record.status !== query.status) return false;
+  return true;
+}
+
+/**
+ * Accept a ledger instance, a storage backend, or nothing (in-memory)
+ */
+export function resolvePaymentLedger(
+  input?: PaymentLedger | PaymentLedgerStorage
+): PaymentLedger {
+  if (input instanceof PaymentLedger) return input;
+  return new PaymentLedger(input);
+}
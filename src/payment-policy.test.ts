@@ -0,0 +1,140 @@
+import { PaymentPolicyViolationError, X402PaymentRequirements } from './errors';
+import { PaymentPolicy, resolvePaymentPolicy } from './payment-policy';
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const OTHER_ASSET = '0x4200000000000000000000000000000000000006';
+const BACKEND = '0x1111111111111111111111111111111111111111';
+
+function requirements(amount: string, overrides: Partial<X402PaymentRequirements> = {}): X402PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: amount,
+    resource: 'https://api.example.com/api/v1/tokens/buy',
+    description: 'Buy fee',
+    mimeType: 'application/json',
+    payTo: BACKEND,
+    maxTimeoutSeconds: 300,
+    asset: USDC,
+    ...overrides,
+  };
+}
+
+describe('PaymentPolicy', () => {
+  let now: number;
+  const clock = () => now;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+  });
+
+  it('allows everything without limits', () => {
+    const policy = new PaymentPolicy({}, clock);
+    expect(policy.evaluate(requirements('1000000000'), 'trade')).toBeNull();
+  });
+
+  it('blocks payments above maxPerRequest', () => {
+    const policy = new PaymentPolicy({ maxPerRequest: '1000000' }, clock);
+
+    expect(policy.evaluate(requirements('1000000'), 'trade')).toBeNull();
+    const violation = policy.evaluate(requirements('1000001'), 'trade');
+    expect(violation).toBeInstanceOf(PaymentPolicyViolationError);
+    expect(violation?.rule).toBe('maxPerRequest');
+    expect(violation?.category).toBe('trade');
+  });
+
+  it('enforces the hourly cap over a rolling window', () => {
+    const policy = new PaymentPolicy({ hourlyCap: '3000000' }, clock);
+
+    policy.authorize(requirements('2000000'), 'trade');
+    policy.authorize(requirements('1000000'), 'trade');
+    expect(() => policy.authorize(requirements('1'), 'trade')).toThrow(PaymentPolicyViolationError);
+
+    now += 60 * 60 * 1000;
+    expect(policy.getSpent(USDC, 60 * 60 * 1000)).toBe(BigInt(0));
+    expect(() => policy.authorize(requirements('3000000'), 'trade')).not.toThrow();
+  });
+
+  it('enforces the daily cap independently of the hourly cap', () => {
+    const policy = new PaymentPolicy({ hourlyCap: '5000000', dailyCap: '8000000' }, clock);
+
+    policy.authorize(requirements('5000000'), 'model');
+    now += 2 * 60 * 60 * 1000;
+    const violation = policy.evaluate(requirements('4000000'), 'model');
+    expect(violation?.rule).toBe('dailyCap');
+    expect(policy.evaluate(requirements('3000000'), 'model')).toBeNull();
+  });
+
+  it('applies category limits only to that category', () => {
+    const policy = new PaymentPolicy(
+      { categories: { model: { hourlyCap: '1000' } } },
+      clock
+    );
+
+    policy.authorize(requirements('1000'), 'model');
+    policy.authorize(requirements('5000000'), 'trade');
+    expect(policy.evaluate(requirements('1'), 'model')?.rule).toBe('hourlyCap');
+    expect(policy.evaluate(requirements('1'), 'trade')).toBeNull();
+  });
+
+  it('counts all categories against the top-level caps', () => {
+    const policy = new PaymentPolicy({ hourlyCap: '2000000' }, clock);
+
+    policy.authorize(requirements('1000000'), 'model');
+    policy.authorize(requirements('1000000'), 'launch');
+    expect(policy.evaluate(requirements('1'), 'trade')?.rule).toBe('hourlyCap');
+  });
+
+  it('tracks caps separately per asset', () => {
+    const policy = new PaymentPolicy({ hourlyCap: '1000000' }, clock);
+
+    policy.authorize(requirements('1000000'), 'trade');
+    expect(policy.evaluate(requirements('1000000', { asset: OTHER_ASSET }), 'trade')).toBeNull();
+    expect(policy.getSpent(USDC.toLowerCase(), 60 * 60 * 1000)).toBe(BigInt(1000000));
+  });
+
+  it('does not record payments that were blocked', () => {
+    const policy = new PaymentPolicy({ maxPerRequest: '10', hourlyCap: '100' }, clock);
+
+    expect(() => policy.authorize(requirements('11'), 'trade')).toThrow(PaymentPolicyViolationError);
+    expect(policy.getSpent(USDC, 60 * 60 * 1000)).toBe(BigInt(0));
+  });
+
+  it('stops counting a released payment', () => {
+    const policy = new PaymentPolicy({ hourlyCap: '2000000' }, clock);
+    policy.authorize(requirements('1000000'), 'trade', '0xAB');
+    policy.authorize(requirements('1000000'), 'trade', '0xcd');
+
+    expect(policy.release('0xab')).toBe(true);
+    expect(policy.release('0xab')).toBe(false);
+    expect(policy.getSpent(USDC, 60 * 60 * 1000)).toBe(BigInt(1000000));
+    expect(() => policy.authorize(requirements('1000000'), 'trade')).not.toThrow();
+  });
+
+  it('checks payTo and asset allowlists case-insensitively', () => {
+    const policy = new PaymentPolicy(
+      { allowedPayTo: [BACKEND], allowedAssets: [USDC.toLowerCase()] },
+      clock
+    );
+
+    expect(policy.evaluate(requirements('1'), 'trade')).toBeNull();
+    expect(
+      policy.evaluate(requirements('1', { payTo: '0x2222222222222222222222222222222222222222' }), 'trade')?.rule
+    ).toBe('payTo');
+    expect(policy.evaluate(requirements('1', { asset: OTHER_ASSET }), 'trade')?.rule).toBe('asset');
+  });
+
+  it('rejects amounts that are not integers', () => {
+    const policy = new PaymentPolicy({}, clock);
+    expect(policy.evaluate(requirements('1.5'), 'trade')?.rule).toBe('invalidAmount');
+    expect(policy.evaluate(requirements('-1'), 'trade')?.rule).toBe('invalidAmount');
+  });
+
+  it('resolves a plain config or an instance', () => {
+    const policy = new PaymentPolicy();
+    expect(resolvePaymentPolicy(policy)).toBe(policy);
+    expect(resolvePaymentPolicy({ maxPerRequest: '1' })).toBeInstanceOf(PaymentPolicy);
+    expect(resolvePaymentPolicy()).toBeUndefined();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Payment Policy
+ *
+ * Spend guard for automatic x402 payments. Every payment the SDK signs is
+ * checked against per-request limits, rolling hourly/daily caps and payTo /
+ * asset allowlists, so a misbehaving endpoint cannot drain the agent wallet.
+ *
+ * Spend is counted when a payment is signed and released again if the paid
+ * request fails. The caps live in memory only: they start empty on every
+ * restart, so a process that restarts often can spend more than a cap per
+ * window. Use the payment ledger to audit spend across restarts.
+ */
+
+import {
+  PaymentPolicyRule,
+  PaymentPolicyViolationError,
+  X402PaymentRequirements,
+} from './errors';
+
+/**
+ * What a payment is for
+ * - trade: buy/sell fees (gasless and self-execute)
+ * - model: AI model calls
+ * - launch: token launches
+ * - agent-control: hosted agent pause/resume/stop
+ * - other: anything else (e.g. agent registration)
+ */
+export type PaymentCategory =
+  | 'trade'
+  | 'model'
+  | 'launch'
+  | 'agent-control'
+  | 'other';
+
+/**
+ * Spend limits, in atomic units of the payment asset (e.g. "1000000" = 1 USDC).
+ * Rolling caps are tracked separately for each asset.
+ */
+export interface PaymentLimits {
+  maxPerRequest?: string;
+  hourlyCap?: string;
+  dailyCap?: string;
+}
+
+export interface PaymentPolicyConfig extends PaymentLimits {
+  // Top-level limits apply to all categories combined
+  categories?: Partial<Record<PaymentCategory, PaymentLimits>>;
+  allowedPayTo?: string[]; // Only pay these recipients (empty/undefined = any)
+  allowedAssets?: string[]; // Only pay with these assets (empty/undefined = any)
+}
+
+interface SpendEntry {
+  timestamp: number;
+  category: PaymentCategory;
+  asset: string;
+  amount: bigint;
+  reference?: string; // Payment nonce, to release the entry if the payment fails
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export class PaymentPolicy {
+  private config: PaymentPolicyConfig;
+  private allowedPayTo?: Set<string>;
+  private allowedAssets?: Set<string>;
+  private entries: SpendEntry[] = [];
+  private now: () => number;
+
+  constructor(config: PaymentPolicyConfig = {}, now: () => number = Date.now) {
+    this.config = config;
+    this.now = now;
+    if (config.allowedPayTo && config.allowedPayTo.length > 0) {
+      this.allowedPayTo = new Set(config.allowedPayTo.map((a) => a.toLowerCase()));
+    }
+    if (config.allowedAssets && config.allowedAssets.length > 0) {
+      this.allowedAssets = new Set(config.allowedAssets.map((a) => a.toLowerCase()));
+    }
+  }
+
+  /**
+   * Check a payment against the policy without recording it
+   *
+   * @returns The violation, or null if the payment is allowed
+   */
+  evaluate(
+    requirements: X402PaymentRequirements,
+    category: PaymentCategory
+  ): PaymentPolicyViolationError | null {
+    const violation = (rule: PaymentPolicyRule, message: string) =>
+      new PaymentPolicyViolationError(
+        `Payment blocked by policy (${category}): ${message}`,
+        rule,
+        category,
+        requirements
+      );
+
+    const payTo = (requirements.payTo || '').toLowerCase();
+    if (this.allowedPayTo && !this.allowedPayTo.has(payTo)) {
+      return violation('payTo', `recipient ${requirements.payTo} is not in the allowlist`);
+    }
+
+    const asset = (requirements.asset || '').toLowerCase();
+    if (this.allowedAssets && !this.allowedAssets.has(asset)) {
+      return violation('asset', `asset ${requirements.asset} is not in the allowlist`);
+    }
+
+    let amount: bigint;
+    try {
+      amount = BigInt(requirements.maxAmountRequired);
+    } catch {
+      return violation('invalidAmount', `invalid amount "${requirements.maxAmountRequired}"`);
+    }
+    if (amount < BigInt(0)) {
+      return violation('invalidAmount', `negative amount ${amount}`);
+    }
+
+    const scopes: Array<{ label: string; limits?: PaymentLimits; only?: PaymentCategory }> = [
+      { label: 'all categories', limits: this.config },
+      { label: category, limits: this.config.categories?.[category], only: category },
+    ];
+
+    for (const { label, limits, only } of scopes) {
+      if (!limits) continue;
+
+      if (limits.maxPerRequest !== undefined && amount > BigInt(limits.maxPerRequest)) {
+        return violation(
+          'maxPerRequest',
+          `amount ${amount} exceeds per-request max ${limits.maxPerRequest} (${label})`
+        );
+      }
+
+      const caps: Array<[PaymentPolicyRule, string | undefined, number]> = [
+        ['hourlyCap', limits.hourlyCap, HOUR_MS],
+        ['dailyCap', limits.dailyCap, DAY_MS],
+      ];
+      for (const [rule, cap, windowMs] of caps) {
+        if (cap === undefined) continue;
+        const spent = this.getSpent(asset, windowMs, only);
+        if (spent + amount > BigInt(cap)) {
+          return violation(
+            rule,
+            `amount ${amount} would bring spend to ${spent + amount}, above ${rule} ${cap} (${label})`
+          );
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Check a payment and record it against the rolling caps
+   *
+   * @param reference Payment nonce, to release the spend with release() if the payment fails
+   * @throws {PaymentPolicyViolationError} If the payment is not allowed
+   */
+  authorize(
+    requirements: X402PaymentRequirements,
+    category: PaymentCategory,
+    reference?: string
+  ): void {
+    const violation = this.evaluate(requirements, category);
+    if (violation) {
+      throw violation;
+    }
+    this.entries.push({
+      timestamp: this.now(),
+      category,
+      asset: (requirements.asset || '').toLowerCase(),
+      amount: BigInt(requirements.maxAmountRequired),
+      reference: reference?.toLowerCase(),
+    });
+  }
+
+  /**
+   * Stop counting a payment that was authorized but not charged
+   *
+   * @returns Whether a payment with that reference was found
+   */
+  release(reference: string): boolean {
+    const key = reference.toLowerCase();
+    const index = this.entries.findIndex((e) => e.reference === key);
+    if (index === -1) {
+      return false;
+    }
+    this.entries.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Total authorized in the given asset over the last `windowMs`
+   *
+   * @param category Optional: only count this category
+   */
+  getSpent(asset: string, windowMs: number, category?: PaymentCategory): bigint {
+    this.prune();
+    const since = this.now() - windowMs;
+    const assetKey = asset.toLowerCase();
+    return this.entries
+      .filter(
+        (e) =>
+          e.timestamp > since &&
+          e.asset === assetKey &&
+          (!category || e.category === category)
+      )
+      .reduce((sum, e) => sum + e.amount, BigInt(0));
+  }
+
+  /**
+   * Drop entries older than the longest window
+   */
+  private prune(): void {
+    const cutoff = this.now() - DAY_MS;
+    if (this.entries.length > 0 && this.entries[0].timestamp <= cutoff) {
+      this.entries = this.entries.filter((e) => e.timestamp > cutoff);
+    }
+  }
+}
+
+/**
+ * Accept either a ready PaymentPolicy instance or a plain config
+ */
+export function resolvePaymentPolicy(
+  input?: PaymentPolicy | PaymentPolicyConfig
+): PaymentPolicy | undefined {
+  if (!input) return undefined;
+  return input instanceof PaymentPolicy ? input : new PaymentPolicy(input);
+}
@@ -0,0 +1,72 @@
+import { NoUsablePaymentOptionError, X402PaymentRequirements } from './errors';
+import { PaymentPolicy } from './payment-policy';
+import { extractPaymentRequirements, selectPaymentRequirements } from './payment';
+
+const USDC = '0x036CbD53842c5426634e7929541eC2318f3dCF7e';
+const WETH = '0x4200000000000000000000000000000000000006';
+
+function option(amount: string, overrides: Partial<X402PaymentRequirements> = {}): X402PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'base-sepolia',
+    maxAmountRequired: amount,
+    resource: 'https://api.example.com/api/v1/tokens/buy',
+    description: 'Buy fee',
+    mimeType: 'application/json',
+    payTo: '0x1111111111111111111111111111111111111111',
+    maxTimeoutSeconds: 300,
+    asset: USDC,
+    ...overrides,
+  };
+}
+
+describe('payment option selection', () => {
+  it('returns the first option without criteria', () => {
+    const accepts = [option('20000'), option('10000')];
+    expect(extractPaymentRequirements({ accepts })).toBe(accepts[0]);
+  });
+
+  it('picks the cheapest option within the same asset', async () => {
+    const accepts = [option('20000'), option('10000'), option('10000', { description: 'later tie' })];
+    const selected = await selectPaymentRequirements(accepts, { chainId: 84532 });
+    expect(selected).toBe(accepts[1]);
+  });
+
+  it('does not compare amounts across assets', async () => {
+    // 0.01 USDC (6 decimals) vs 0.000005 WETH (18 decimals): raw WETH is far larger
+    const accepts = [
+      option('5000000000000', { asset: WETH }),
+      option('10000'),
+      option('4000000000000', { asset: WETH }),
+    ];
+    const selected = await selectPaymentRequirements(accepts, { chainId: 84532 });
+    expect(selected).toBe(accepts[2]);
+
+    const usdcFirst = [option('10000'), option('5000000000000', { asset: WETH }), option('1', { asset: WETH })];
+    expect(extractPaymentRequirements({ accepts: usdcFirst }, { chainId: 84532 })).toBe(usdcFirst[0]);
+  });
+
+  it('skips other chains, unsupported schemes and options the policy rejects', async () => {
+    const accepts = [
+      option('1', { network: 'base' }),
+      option('2', { scheme: 'upto' }),
+      option('3', { network: 'eip155:84532' }),
+      option('4'),
+    ];
+    const policy = new PaymentPolicy({ maxPerRequest: '3' });
+    const selected = await selectPaymentRequirements(accepts, {
+      chainId: 84532,
+      policy,
+      category: 'trade',
+    });
+    expect(selected).toBe(accepts[2]);
+  });
+
+  it('lists every rejected option when none is usable', async () => {
+    const accepts = [option('1', { network: 'base' }), option('abc')];
+    const error = await selectPaymentRequirements(accepts, { chainId: 84532 }).catch((e) => e);
+    expect(error).toBeInstanceOf(NoUsablePaymentOptionError);
+    expect((error as NoUsablePaymentOptionError).rejected).toHaveLength(2);
+  });
+});
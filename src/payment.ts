@@ -6,7 +6,16 @@
  */
 
 import { ethers } from 'ethers';
-import { X402PaymentRequirements } from './errors';
+import {
+  NoUsablePaymentOptionError,
+  RejectedPaymentOption,
+  X402PaymentRequirements,
+} from './errors';
+import { AgentPadSigner } from './signer';
+import { PaymentCategory, PaymentPolicy } from './payment-policy';
+import { PaymentLedger } from './payment-ledger';
+import { networkRegistry } from './networks';
+import { Logger, noopLogger } from './logger';
 
 export interface X402PaymentConfig {
   amount: string; // Amount in atomic units (e.g., "1000000" for 1 USDC)
@@ -16,21 +25,190 @@ export interface X402PaymentConfig {
   provider: ethers.Provider; // Ethers provider for contract queries
   name?: string; // Optional: Asset name for EIP-712 domain (from payment requirements)
   version?: string; // Optional: Asset version for EIP-712 domain (from payment requirements)
+  nonce?: string; // Optional: bytes32 authorization nonce (default: random)
+  logger?: Logger;
 }
 
 // X402PaymentRequirements is defined in errors.ts to avoid circular dependencies
 
+/**
+ * Safeguards applied to every automatic x402 payment
+ * (shared between the client and AI providers)
+ */
+export interface X402PaymentGuards {
+  policy?: PaymentPolicy; // Spend policy checked before signing
+  ledger?: PaymentLedger; // Records every signed authorization
+}
+
+export interface SignPaymentOptions {
+  chainId: number;
+  provider: ethers.Provider;
+  category: PaymentCategory;
+  defaultAsset: string; // Used when the requirements omit `asset` (USDC)
+  resource?: string; // Endpoint being paid for (defaults to requirements.resource)
+  schemes?: string[]; // Supported x402 schemes (default: ['exact'])
+  guards?: X402PaymentGuards;
+  logger?: Logger;
+}
+
+/**
+ * Signed EIP-3009 authorization behind an X-PAYMENT header
+ */
+export interface X402PaymentAuthorization {
+  payer: string;
+  recipient: string;
+  amount: string;
+  asset: string;
+  nonce: string;
+  validAfter: string;
+  validBefore: string;
+  signature: string;
+  timestamp: number;
+}
+
+export interface X402SignedPayment {
+  header: string; // Base64 X-PAYMENT header value
+  authorization: X402PaymentAuthorization;
+}
+
+/**
+ * Decoded X-PAYMENT-RESPONSE settlement header
+ */
+export interface X402SettlementResponse {
+  success: boolean;
+  transaction?: string;
+  network?: string;
+  payer?: string;
+  errorReason?: string;
+}
+
+/**
+ * Sign a payment for the given 402 requirements
+ *
+ * When given the full `accepts` list, picks the best usable option first
+ * (see selectPaymentRequirements). Then applies the spend policy, creates the
+ * X-PAYMENT header using the EIP-712 domain advertised by the server
+ * (extra.name / extra.version) and records the authorization in the ledger.
+ *
+ * @throws {NoUsablePaymentOptionError} If no offered option can be used
+ * @throws {PaymentPolicyViolationError} If the policy rejects the payment
+ */
+export async function signPaymentRequirements(
+  signer: AgentPadSigner,
+  requirements: X402PaymentRequirements | X402PaymentRequirements[],
+  options: SignPaymentOptions
+): Promise<X402SignedPayment> {
+  const offered = (Array.isArray(requirements) ? requirements : [requirements]).map(
+    (option) => ({ ...option, asset: option.asset || options.defaultAsset })
+  );
+  const resolved =
+    offered.length === 1 && !Array.isArray(requirements)
+      ? offered[0]
+      : await selectPaymentRequirements(offered, {
+          chainId: options.chainId,
+          schemes: options.schemes,
+          payer: await signer.getAddress(),
+          provider: options.provider,
+          policy: options.guards?.policy,
+          category: options.category,
+        });
+
+  // Counted against the caps before signing; recordPaymentOutcome releases it on failure
+  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const policy = options.guards?.policy;
+  policy?.authorize(resolved, options.category, nonce);
+
+  let payment: X402SignedPayment;
+  try {
+    payment = await createX402Payment(signer, {
+      amount: resolved.maxAmountRequired,
+      recipient: resolved.payTo,
+      asset: resolved.asset,
+      chainId: options.chainId,
+      provider: options.provider,
+      name: resolved.extra?.name,
+      version: resolved.extra?.version,
+      nonce,
+      logger: options.logger,
+    });
+  } catch (error) {
+    policy?.release(nonce);
+    throw error;
+  }
+
+  await options.guards?.ledger?.record(payment.authorization, {
+    resource: options.resource || resolved.resource,
+    category: options.category,
+  });
+
+  return payment;
+}
+
+/**
+ * Record how a paid request ended in the payment ledger (if any)
+ *
+ * A failed payment is also released from the spend policy's caps.
+ * Ledger write failures are logged, never thrown: they must not hide the
+ * result of a request that was already paid for.
+ */
+export async function recordPaymentOutcome(
+  guards: X402PaymentGuards | undefined,
+  payment: X402SignedPayment,
+  outcome: { ok: boolean; settlementHeader?: string | null; error?: string },
+  logger: Logger = noopLogger
+): Promise<void> {
+  if (!outcome.ok) {
+    guards?.policy?.release(payment.authorization.nonce);
+  }
+  const ledger = guards?.ledger;
+  if (!ledger) {
+    return;
+  }
+  try {
+    if (outcome.ok) {
+      await ledger.settle(
+        payment.authorization.nonce,
+        decodePaymentResponseHeader(outcome.settlementHeader)
+      );
+    } else {
+      await ledger.fail(
+        payment.authorization.nonce,
+        outcome.error || 'Payment was rejected'
+      );
+    }
+  } catch (error: any) {
+    logger.warn('Failed to update payment ledger', {
+      component: 'Payment',
+      nonce: payment.authorization.nonce,
+      error: error.message,
+    });
+  }
+}
+
 /**
  * Create x402 payment header with EIP-712 signature
- * 
+ *
  * This creates a payment authorization that can be verified by the facilitator
  * and settled on-chain. The payment uses EIP-712 typed data signing for security.
  */
 export async function createX402PaymentHeader(
-  wallet: ethers.Wallet,
+  signer: AgentPadSigner,
   config: X402PaymentConfig
 ): Promise<string> {
-  const nonce = ethers.hexlify(ethers.randomBytes(32));
+  const payment = await createX402Payment(signer, config);
+  return payment.header;
+}
+
+/**
+ * Create x402 payment header and return it with the signed authorization
+ */
+export async function createX402Payment(
+  signer: AgentPadSigner,
+  config: X402PaymentConfig
+): Promise<X402SignedPayment> {
+  const logger = (config.logger || noopLogger).child({ component: 'Payment' });
+  const payer = await signer.getAddress();
+  const nonce = config.nonce || ethers.hexlify(ethers.randomBytes(32));
   // Use timestamp slightly in the past to ensure validAfter <= block.timestamp when tx executes
   const timestamp = Math.floor(Date.now() / 1000) - 10; // 10 seconds in the past
   const validAfter = String(timestamp);
@@ -45,7 +223,7 @@ export async function createX402PaymentHeader(
   if (config.name && config.version) {
     domainName = config.name;
     domainVersion = config.version;
-    console.log(`[SDK Payment] Using backend-provided EIP-712 domain: name="${domainName}", version="${domainVersion}"`);
+    logger.debug('Using backend-provided EIP-712 domain', { name: domainName, version: domainVersion });
   } else {
     // PRIORITY 2: Try to query the contract
     try {
@@ -63,20 +241,16 @@ export async function createX402PaymentHeader(
         // AgentToken uses version "1" (from EIP712(name, "1"))
         domainVersion = '1';
       }
-      console.log(`[SDK Payment] Queried contract for EIP-712 domain: name="${domainName}", version="${domainVersion}"`);
+      logger.debug('Queried contract for EIP-712 domain', { name: domainName, version: domainVersion });
     } catch (error) {
       // PRIORITY 3: Fallback to defaults based on asset type
-      const network = await config.provider.getNetwork();
-      const usdcAddresses: Record<number, string> = {
-        84532: '0x036CbD53842c5426634e7929541eC2318f3dCF7e', // Base Sepolia
-        8453: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // Base Mainnet
-      };
-      const isUSDCAddress = usdcAddresses[Number(network.chainId)]?.toLowerCase() === config.asset.toLowerCase();
+      const usdc = networkRegistry.find(config.chainId)?.usdc;
+      const isUSDCAddress = usdc?.address.toLowerCase() === config.asset.toLowerCase();
       
-      if (isUSDCAddress) {
-        // USDC typically uses name="USDC", version="2"
-        domainName = 'USDC';
-        domainVersion = '2';
+      if (usdc && isUSDCAddress) {
+        // USDC domain from the network registry (typically version "2")
+        domainName = usdc.name;
+        domainVersion = usdc.version;
       } else {
         // For tokens (like AgentToken), use defaults that match AgentToken.sol
         // AgentToken uses EIP712(name, "1"), so version is "1"
@@ -107,7 +281,7 @@ export async function createX402PaymentHeader(
 
   // Message to sign
   const message = {
-    from: wallet.address,
+    from: payer,
     to: config.recipient,
     value: BigInt(config.amount),
     validAfter: BigInt(validAfter),
@@ -116,11 +290,11 @@ export async function createX402PaymentHeader(
   };
 
   // Sign using EIP-712 typed data
-  const signature = await wallet.signTypedData(domain, types, message);
+  const signature = await signer.signTypedData(domain, types, message);
 
   // Create payload (x402 standard format)
   const payload = {
-    payer: wallet.address,
+    payer: payer,
     amount: config.amount,
     asset: config.asset,
     recipient: config.recipient,
@@ -130,18 +304,213 @@ export async function createX402PaymentHeader(
   };
 
   // Encode as base64
-  return Buffer.from(JSON.stringify(payload)).toString('base64');
+  return {
+    header: Buffer.from(JSON.stringify(payload)).toString('base64'),
+    authorization: {
+      payer,
+      recipient: config.recipient,
+      amount: config.amount,
+      asset: config.asset,
+      nonce,
+      validAfter,
+      validBefore,
+      signature,
+      timestamp,
+    },
+  };
+}
+
+/**
+ * Decode the X-PAYMENT-RESPONSE settlement header (base64 JSON)
+ *
+ * @returns Settlement details, or null if the header is missing or malformed
+ */
+export function decodePaymentResponseHeader(
+  header: string | null | undefined
+): X402SettlementResponse | null {
+  if (!header) {
+    return null;
+  }
+  try {
+    const decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    if (typeof decoded !== 'object' || decoded === null) {
+      return null;
+    }
+    return {
+      success: decoded.success !== false,
+      transaction: decoded.transaction,
+      network: decoded.network,
+      payer: decoded.payer,
+      errorReason: decoded.errorReason,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Criteria used to choose among the `accepts` options of a 402 response
+ */
+export interface PaymentSelectionCriteria {
+  chainId: number; // Only options on this chain are usable
+  schemes?: string[]; // Supported schemes (default: ['exact'])
+  payer?: string; // With `provider`: skip options whose asset we don't hold enough of
+  provider?: ethers.Provider;
+  policy?: PaymentPolicy; // With `category`: skip options the policy would reject
+  category?: PaymentCategory;
+}
+
+const DEFAULT_SCHEMES = ['exact'];
+
+/**
+ * Extract all payment options from a 402 response body
+ */
+export function extractPaymentOptions(responseData: any): X402PaymentRequirements[] {
+  return Array.isArray(responseData?.accepts) ? responseData.accepts : [];
 }
 
 /**
  * Extract payment requirements from 402 response
+ *
+ * Without criteria this returns the first option (previous behaviour). With
+ * criteria it returns the best-ranked option on our chain with a supported
+ * scheme; use selectPaymentRequirements to also check balances and policy.
  */
 export function extractPaymentRequirements(
-  responseData: any
+  responseData: any,
+  criteria?: PaymentSelectionCriteria
 ): X402PaymentRequirements | null {
-  if (responseData.accepts && responseData.accepts.length > 0) {
-    return responseData.accepts[0];
+  const options = extractPaymentOptions(responseData);
+  if (!criteria) {
+    return options[0] || null;
+  }
+  return rankPaymentOptions(options, criteria).usable[0] || null;
+}
+
+/**
+ * Choose the payment option to pay with
+ *
+ * Filters by chain, scheme, policy (allowlists/caps) and, when a payer and
+ * provider are given, by assets actually held. Remaining options keep the
+ * server's order of assets; several options in the same asset are ranked by
+ * amount (cheapest first, server order on ties). Amounts in different assets
+ * are never compared, since their decimals and value differ.
+ *
+ * @throws {NoUsablePaymentOptionError} Listing every rejected option and why
+ */
+export async function selectPaymentRequirements(
+  options: X402PaymentRequirements[],
+  criteria: PaymentSelectionCriteria
+): Promise<X402PaymentRequirements> {
+  const { usable, rejected } = rankPaymentOptions(options, criteria);
+
+  if (criteria.payer && criteria.provider) {
+    for (const option of usable) {
+      const balance = await getAssetBalance(option.asset, criteria.payer, criteria.provider);
+      // Unknown balance (RPC failure) is not a reason to reject
+      if (balance === null || balance >= BigInt(option.maxAmountRequired)) {
+        return option;
+      }
+      rejected.push({
+        option,
+        reason: `insufficient balance (have ${balance}, need ${option.maxAmountRequired})`,
+      });
+    }
+    throw new NoUsablePaymentOptionError(rejected);
+  }
+
+  if (usable.length === 0) {
+    throw new NoUsablePaymentOptionError(rejected);
+  }
+  return usable[0];
+}
+
+/**
+ * Split options into usable (ranked by cost within each asset) and rejected (with reasons)
+ */
+function rankPaymentOptions(
+  options: X402PaymentRequirements[],
+  criteria: PaymentSelectionCriteria
+): { usable: X402PaymentRequirements[]; rejected: RejectedPaymentOption[] } {
+  const schemes = criteria.schemes || DEFAULT_SCHEMES;
+  const expectedNetwork = networkRegistry.find(criteria.chainId)?.name.toLowerCase();
+  const usable: Array<{ option: X402PaymentRequirements; amount: bigint; index: number }> = [];
+  const rejected: RejectedPaymentOption[] = [];
+
+  options.forEach((option, index) => {
+    if (!schemes.includes(option.scheme)) {
+      rejected.push({ option, reason: `unsupported scheme "${option.scheme}"` });
+      return;
+    }
+    if (option.network && !matchesNetwork(option.network, criteria.chainId, expectedNetwork)) {
+      rejected.push({
+        option,
+        reason: `network "${option.network}" does not match chain ${criteria.chainId}`,
+      });
+      return;
+    }
+    if (!option.asset || !ethers.isAddress(option.asset)) {
+      rejected.push({ option, reason: `invalid asset "${option.asset}"` });
+      return;
+    }
+    let amount: bigint;
+    try {
+      amount = BigInt(option.maxAmountRequired);
+    } catch {
+      rejected.push({ option, reason: `invalid amount "${option.maxAmountRequired}"` });
+      return;
+    }
+    if (criteria.policy && criteria.category) {
+      const violation = criteria.policy.evaluate(option, criteria.category);
+      if (violation) {
+        rejected.push({ option, reason: violation.message });
+        return;
+      }
+    }
+    usable.push({ option, amount, index });
+  });
+
+  // Each asset ranks at the position the server first listed it
+  const assetRank = new Map<string, number>();
+  for (const { option, index } of usable) {
+    const asset = option.asset.toLowerCase();
+    if (!assetRank.has(asset)) assetRank.set(asset, index);
+  }
+
+  usable.sort((a, b) => {
+    const rankA = assetRank.get(a.option.asset.toLowerCase())!;
+    const rankB = assetRank.get(b.option.asset.toLowerCase())!;
+    if (rankA !== rankB) return rankA - rankB;
+    return a.amount === b.amount ? a.index - b.index : a.amount < b.amount ? -1 : 1;
+  });
+
+  return { usable: usable.map((u) => u.option), rejected };
+}
+
+/**
+ * Accepts x402 network names ("base-sepolia") and CAIP-2 ids ("eip155:84532")
+ */
+function matchesNetwork(network: string, chainId: number, expected?: string): boolean {
+  if (network === `eip155:${chainId}`) {
+    return true;
+  }
+  return expected !== undefined && network.toLowerCase() === expected;
+}
+
+async function getAssetBalance(
+  asset: string,
+  owner: string,
+  provider: ethers.Provider
+): Promise<bigint | null> {
+  try {
+    const contract = new ethers.Contract(
+      asset,
+      ['function balanceOf(address account) view returns (uint256)'],
+      provider
+    );
+    return BigInt(await contract.balanceOf(owner));
+  } catch {
+    return null;
   }
-  return null;
 }
 
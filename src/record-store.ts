@@ -0,0 +1,98 @@
+/**
+ * Record Store
+ *
+ * Shared persistence for the payment ledger and the operation journal: a
+ * pluggable storage backend holding a list of JSON records, with an in-memory
+ * cache and serialized writes.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+/**
+ * Storage backend for a list of records
+ */
+export interface RecordStorage<T> {
+  load(): Promise<T[]>;
+  save(records: T[]): Promise<void>;
+}
+
+/**
+ * Keeps records in memory (lost on restart)
+ */
+export class InMemoryRecordStorage<T extends object> implements RecordStorage<T> {
+  private records: T[] = [];
+
+  async load(): Promise<T[]> {
+    return this.records.map((r) => ({ ...r }));
+  }
+
+  async save(records: T[]): Promise<void> {
+    this.records = records.map((r) => ({ ...r }));
+  }
+}
+
+/**
+ * Persists records to a JSON file
+ */
+export class JsonFileRecordStorage<T> implements RecordStorage<T> {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<T[]> {
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(content);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async save(records: T[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated file
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Records loaded once from storage; every change is saved back in order
+ */
+export class RecordStore<T> {
+  private records?: T[];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private storage: RecordStorage<T>) {}
+
+  /**
+   * Current records, after any pending write (the live array - copy before returning it)
+   */
+  async load(): Promise<T[]> {
+    await this.queue;
+    if (!this.records) {
+      this.records = await this.storage.load();
+    }
+    return this.records;
+  }
+
+  /**
+   * Apply a change and persist it; writes are serialized
+   */
+  mutate(change: (records: T[]) => void): Promise<void> {
+    const run = this.queue.then(async () => {
+      if (!this.records) {
+        this.records = await this.storage.load();
+      }
+      change(this.records);
+      await this.storage.save(this.records);
+    });
+    // Keep the chain alive even if one write fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
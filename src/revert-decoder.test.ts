@@ -0,0 +1,93 @@
+import { ethers } from 'ethers';
+import {
+  CurveCompletedError,
+  InsufficientAllowanceError,
+  NonceUsedError,
+  TransactionRevertedError,
+} from './errors';
+import {
+  bondingCurveErrors,
+  createRevertError,
+  decodeApiRevert,
+  decodeRevert,
+} from './revert-decoder';
+
+function errorString(message: string): string {
+  return ethers.concat([
+    '0x08c379a0',
+    ethers.AbiCoder.defaultAbiCoder().encode(['string'], [message]),
+  ]);
+}
+
+describe('decodeRevert', () => {
+  it('decodes Error(string) data and matches the reason', () => {
+    expect(decodeRevert({ data: errorString('Curve is complete') })).toEqual({
+      kind: 'curve-completed',
+      reason: 'Curve is complete',
+    });
+  });
+
+  it('decodes custom errors with their arguments', () => {
+    const spender = ethers.Wallet.createRandom().address;
+    const data = bondingCurveErrors.encodeErrorResult('ERC20InsufficientAllowance', [
+      spender,
+      5,
+      10,
+    ]);
+
+    expect(decodeRevert({ data })).toEqual({
+      kind: 'insufficient-allowance',
+      name: 'ERC20InsufficientAllowance',
+      args: { spender, allowance: '5', needed: '10' },
+      reason: 'ERC20InsufficientAllowance',
+    });
+  });
+
+  it('falls back to the known reason for unknown revert data', () => {
+    const panic = ethers.concat([
+      '0x4e487b71',
+      ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11]),
+    ]);
+
+    expect(decodeRevert({ data: panic, reason: 'overflow' })).toEqual({
+      kind: undefined,
+      reason: 'overflow',
+    });
+    expect(decodeRevert({ data: '0x' })).toEqual({ kind: undefined, reason: 'unknown reason' });
+  });
+});
+
+describe('createRevertError', () => {
+  it('builds the subclass for the cause and keeps the revert details', () => {
+    const data = bondingCurveErrors.encodeErrorResult('NonceAlreadyUsed', [ethers.ZeroHash]);
+
+    const error = createRevertError('buy reverted', { data, transactionHash: '0xabc' });
+
+    expect(error).toBeInstanceOf(NonceUsedError);
+    expect(error.message).toBe('buy reverted: NonceAlreadyUsed');
+    expect(error.transactionHash).toBe('0xabc');
+    expect(error.revertData).toBe(data);
+  });
+
+  it('uses TransactionRevertedError for unknown causes', () => {
+    const error = createRevertError('sell reverted', { reason: 'paused' });
+
+    expect(error.constructor).toBe(TransactionRevertedError);
+    expect(error.reason).toBe('paused');
+  });
+});
+
+describe('decodeApiRevert', () => {
+  it('types relayed revert messages', () => {
+    expect(decodeApiRevert('execution reverted: curve already migrated')).toBeInstanceOf(
+      CurveCompletedError
+    );
+    expect(decodeApiRevert('ERC20: transfer amount exceeds allowance')).toBeInstanceOf(
+      InsufficientAllowanceError
+    );
+  });
+
+  it('returns null for other messages', () => {
+    expect(decodeApiRevert('Token not found')).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Revert decoding
+ *
+ * Maps bonding curve custom errors, ERC-20 errors and revert strings (from
+ * on-chain calls or relayed by the API for gasless trades) to typed SDK
+ * errors, so callers can react to the cause instead of parsing messages.
+ */
+
+import { ethers } from 'ethers';
+import {
+  CurveCompletedError,
+  InsufficientAllowanceError,
+  InsufficientLiquidityError,
+  NonceUsedError,
+  SignatureExpiredError,
+  TransactionRevertedError,
+} from './errors';
+
+export type RevertKind =
+  | 'signature-expired'
+  | 'nonce-used'
+  | 'curve-completed'
+  | 'insufficient-liquidity'
+  | 'insufficient-allowance';
+
+export interface DecodedRevert {
+  kind?: RevertKind; // Undefined when the revert is not one of the known causes
+  name?: string; // Custom error name, e.g. 'SignatureExpired'
+  args?: Record<string, string>;
+  reason: string; // Human-readable reason
+}
+
+/**
+ * Custom errors of the bonding curve plus the OpenZeppelin v5 ERC-20 errors
+ *
+ * Unverified: the curve errors are common names, not taken from the deployed
+ * contract. Errors it does not declare here decode to TransactionRevertedError,
+ * and revert strings are still matched by message.
+ */
+export const BONDING_CURVE_ERRORS_ABI = [
+  'error SignatureExpired()',
+  'error ExpiredSignature(uint256 expiry)',
+  'error NonceAlreadyUsed(bytes32 nonce)',
+  'error InvalidNonce()',
+  'error CurveCompleted()',
+  'error BondingCurveCompleted()',
+  'error TokenAlreadyMigrated()',
+  'error InsufficientLiquidity()',
+  'error InsufficientReserve(uint256 available, uint256 required)',
+  'error InsufficientAllowance()',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+];
+
+export const bondingCurveErrors = new ethers.Interface(BONDING_CURVE_ERRORS_ABI);
+
+const ERROR_KINDS: Record<string, RevertKind> = {
+  SignatureExpired: 'signature-expired',
+  ExpiredSignature: 'signature-expired',
+  NonceAlreadyUsed: 'nonce-used',
+  InvalidNonce: 'nonce-used',
+  CurveCompleted: 'curve-completed',
+  BondingCurveCompleted: 'curve-completed',
+  TokenAlreadyMigrated: 'curve-completed',
+  InsufficientLiquidity: 'insufficient-liquidity',
+  InsufficientReserve: 'insufficient-liquidity',
+  InsufficientAllowance: 'insufficient-allowance',
+  ERC20InsufficientAllowance: 'insufficient-allowance',
+};
+
+// Selector of Error(string), what require(cond, "reason") reverts with
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Revert strings of require() checks and the API's error messages
+const REASON_PATTERNS: Array<[RegExp, RevertKind]> = [
+  [/signature (has )?expired|expired signature/i, 'signature-expired'],
+  [/nonce (already )?used|used nonce|invalid nonce/i, 'nonce-used'],
+  [/curve (is )?complete|already migrated|graduated/i, 'curve-completed'],
+  [/insufficient (liquidity|reserve)/i, 'insufficient-liquidity'],
+  [/insufficient allowance|exceeds allowance/i, 'insufficient-allowance'],
+];
+
+/**
+ * Decode revert data and/or a revert string
+ *
+ * @param revert Raw revert data (0x...) and any reason or message already known
+ */
+export function decodeRevert(revert: { data?: string; reason?: string }): DecodedRevert {
+  if (revert.data && revert.data !== '0x') {
+    if (ethers.dataSlice(revert.data, 0, 4) === ERROR_STRING_SELECTOR) {
+      try {
+        const [message] = ethers.AbiCoder.defaultAbiCoder().decode(
+          ['string'],
+          ethers.dataSlice(revert.data, 4)
+        );
+        return { kind: matchReason(message), reason: message };
+      } catch {
+        // Malformed Error(string) payload
+      }
+    }
+    try {
+      const parsed = bondingCurveErrors.parseError(revert.data);
+      if (parsed && ERROR_KINDS[parsed.name]) {
+        const args: Record<string, string> = {};
+        parsed.fragment.inputs.forEach((input, i) => {
+          args[input.name] = String(parsed.args[i]);
+        });
+        return { kind: ERROR_KINDS[parsed.name], name: parsed.name, args, reason: parsed.name };
+      }
+    } catch {
+      // Not one of our custom errors (e.g. a Panic)
+    }
+  }
+
+  const reason = revert.reason || 'unknown reason';
+  return { kind: matchReason(reason), reason };
+}
+
+/**
+ * Build the typed error for a revert: a subclass for known causes, TransactionRevertedError otherwise
+ *
+ * @param message What reverted, e.g. "buy reverted in block 123"; the decoded reason is appended
+ */
+export function createRevertError(
+  message: string,
+  revert: { data?: string; reason?: string; transactionHash?: string }
+): TransactionRevertedError {
+  const decoded = decodeRevert(revert);
+  const args = [
+    `${message}: ${decoded.reason}`,
+    revert.transactionHash,
+    decoded.reason,
+    revert.data,
+  ] as const;
+  switch (decoded.kind) {
+    case 'signature-expired':
+      return new SignatureExpiredError(...args);
+    case 'nonce-used':
+      return new NonceUsedError(...args);
+    case 'curve-completed':
+      return new CurveCompletedError(...args);
+    case 'insufficient-liquidity':
+      return new InsufficientLiquidityError(...args);
+    case 'insufficient-allowance':
+      return new InsufficientAllowanceError(...args);
+    default:
+      return new TransactionRevertedError(...args);
+  }
+}
+
+/**
+ * Typed error for an API error message that relays a known revert, or null
+ */
+export function decodeApiRevert(message: string): TransactionRevertedError | null {
+  return matchReason(message)
+    ? createRevertError('Trade reverted', { reason: message })
+    : null;
+}
+
+function matchReason(reason: string): RevertKind | undefined {
+  return REASON_PATTERNS.find(([pattern]) => pattern.test(reason))?.[1];
+}
@@ -0,0 +1,205 @@
+import { ApiSchemaError } from './errors';
+import { Logger, noopLogger } from './logger';
+import {
+  apiTradeEntrySchema,
+  hostedAgentStatusSchema,
+  operationStatusResponseSchema,
+  sellQuoteSchema,
+  tokenInfoSchema,
+  tokenListSchema,
+  tradeHistoryResponseSchema,
+  validateListItems,
+  validateResponse,
+} from './schemas';
+
+const TOKEN = '0x00000000000000000000000000000000000000aa';
+const WALLET = '0x00000000000000000000000000000000000000bb';
+
+function token(overrides: Record<string, unknown> = {}) {
+  return {
+    address: TOKEN,
+    creator: WALLET,
+    name: 'Seed',
+    ticker: 'SEED',
+    totalSupply: '10000000000000000000000000',
+    price: 0.0003,
+    marketCap: '3000',
+    volume24h: 0,
+    progress: 12.5,
+    migrated: false,
+    launchTime: 1700000000000,
+    ...overrides,
+  };
+}
+
+function recordingLogger(): Logger & { warnings: Array<Record<string, unknown> | undefined> } {
+  const warnings: Array<Record<string, unknown> | undefined> = [];
+  const logger = {
+    ...noopLogger,
+    warn: (_message: string, fields?: Record<string, unknown>) => {
+      warnings.push(fields);
+    },
+    child: () => logger,
+    warnings,
+  };
+  return logger;
+}
+
+describe('tokenInfoSchema', () => {
+  it('normalizes amounts and keeps unknown fields', () => {
+    const parsed = validateResponse(
+      tokenInfoSchema,
+      token({ price: 1e-7, holders: 42 }),
+      'GET /tokens/:address',
+      'strict',
+      noopLogger
+    );
+
+    expect(parsed.price).toBe('0.0000001');
+    expect(parsed.volume24h).toBe('0');
+    expect(parsed).toHaveProperty('holders', 42);
+  });
+
+  it('accepts tokens without the fields the SDK does not read', () => {
+    const parsed = tokenInfoSchema.parse(token());
+
+    expect(parsed.priceMovement).toBeUndefined();
+    expect(parsed.description).toBeUndefined();
+    expect(parsed.image).toBeUndefined();
+  });
+
+  it('names the drifting field', () => {
+    const call = () =>
+      validateResponse(tokenInfoSchema, token({ price: 'n/a' }), 'GET /tokens/:address', 'strict', noopLogger);
+
+    expect(call).toThrow(ApiSchemaError);
+    expect(call).toThrow(/price: Expected a decimal number/);
+  });
+
+  it('returns the raw response in lenient mode and logs the mismatch', () => {
+    const logger = recordingLogger();
+    const raw = token({ migrated: 'no' });
+
+    expect(validateResponse(tokenInfoSchema, raw, 'GET /tokens/:address', 'lenient', logger)).toBe(raw);
+    expect(logger.warnings).toEqual([
+      { endpoint: 'GET /tokens/:address', issues: [expect.objectContaining({ field: 'migrated' })] },
+    ]);
+  });
+});
+
+describe('optional fields', () => {
+  it('accepts a sell quote without a note', () => {
+    expect(
+      sellQuoteSchema.parse({
+        tokenAddress: TOKEN,
+        tokenAmount: '1000',
+        estimatedUsdcAmount: 5,
+        currentPricePerToken: '0.0003',
+        progress: 1,
+      })
+    ).toMatchObject({ estimatedUsdcAmount: '5' });
+  });
+
+  it('accepts any subset of the hosted agent status', () => {
+    expect(hostedAgentStatusSchema.parse({ status: 'paused' })).toEqual({ status: 'paused' });
+    expect(hostedAgentStatusSchema.safeParse({ status: 'sleeping' }).success).toBe(false);
+  });
+});
+
+describe('validateListItems', () => {
+  const items = [token(), token({ address: 'not-an-address' }), token({ ticker: 'TWO' })];
+
+  it('drops and logs drifting items in strict mode', () => {
+    const logger = recordingLogger();
+    const { tokens } = tokenListSchema.parse({ tokens: items, total: 3, page: 1 });
+
+    const parsed = validateListItems(tokenInfoSchema, tokens, 'GET /tokens', 'strict', logger);
+
+    expect(parsed.map((t) => t.ticker)).toEqual(['SEED', 'TWO']);
+    expect(logger.warnings).toEqual([
+      { endpoint: 'GET /tokens', issues: [{ field: '[1].address', message: 'Expected an address' }] },
+    ]);
+  });
+
+  it('keeps drifting items unchanged in lenient mode', () => {
+    const logger = recordingLogger();
+
+    const parsed = validateListItems(tokenInfoSchema, items, 'GET /tokens', 'lenient', logger);
+
+    expect(parsed).toHaveLength(3);
+    expect(parsed[1]).toBe(items[1]);
+    expect(logger.warnings).toHaveLength(1);
+  });
+
+  it('passes items through when validation is off', () => {
+    expect(validateListItems(tokenInfoSchema, items, 'GET /tokens', 'off', noopLogger)).toBe(items);
+  });
+});
+
+describe('tradeHistoryResponseSchema', () => {
+  it('accepts a plain array with type/wallet aliases', () => {
+    const { trades } = validateResponse(
+      tradeHistoryResponseSchema,
+      [{ type: 'sell', tokenAddress: TOKEN, wallet: WALLET, tokenAmount: 1e18, usdcAmount: '500', timestamp: 1700000000 }],
+      'GET /trades',
+      'strict',
+      noopLogger
+    );
+    const parsed = validateListItems(apiTradeEntrySchema, trades, 'GET /trades', 'strict', noopLogger);
+
+    expect(parsed).toEqual([
+      expect.objectContaining({
+        side: 'sell',
+        trader: WALLET,
+        tokenAmount: '1000000000000000000',
+        usdcAmount: '500',
+      }),
+    ]);
+  });
+
+  it('drops entries without a side', () => {
+    const logger = recordingLogger();
+    const { trades } = tradeHistoryResponseSchema.parse({
+      trades: [
+        { tokenAddress: TOKEN, tokenAmount: '1', usdcAmount: '1', timestamp: 1 },
+        { side: 'buy', tokenAddress: TOKEN, tokenAmount: '2', usdcAmount: '1', timestamp: 2 },
+      ],
+    });
+
+    const parsed = validateListItems(apiTradeEntrySchema, trades, 'GET /trades', 'strict', logger);
+
+    expect(parsed).toEqual([expect.objectContaining({ side: 'buy', tokenAmount: '2' })]);
+    expect(logger.warnings).toEqual([
+      { endpoint: 'GET /trades', issues: [expect.objectContaining({ field: '[0].side' })] },
+    ]);
+  });
+
+  it('rejects a response without a trade list', () => {
+    expect(() =>
+      validateResponse(tradeHistoryResponseSchema, { items: [] }, 'GET /trades', 'strict', noopLogger)
+    ).toThrow(ApiSchemaError);
+  });
+});
+
+describe('operationStatusResponseSchema', () => {
+  it('accepts a completed operation with its result', () => {
+    const result = { transactionHash: `0x${'1'.repeat(64)}` };
+
+    expect(operationStatusResponseSchema.parse({ status: 'completed', result })).toEqual({
+      status: 'completed',
+      result,
+    });
+  });
+
+  it('rejects unknown statuses', () => {
+    expect(() =>
+      validateResponse(
+        operationStatusResponseSchema,
+        { status: 'done' },
+        'GET /operations/:key',
+        'strict',
+        noopLogger
+      )
+    ).toThrow(/status/);
+  });
+});
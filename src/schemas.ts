@@ -0,0 +1,465 @@
+/**
+ * API response schemas
+ *
+ * zod schemas for every response the client reads from the AgentPad API.
+ * Amount fields are normalized to plain decimal strings (numbers and bigints
+ * from the backend become strings, exponent notation is expanded); anything
+ * that does not match raises an ApiSchemaError naming the endpoint and field,
+ * so backend drift surfaces instead of breaking agents silently. Items of
+ * list responses are checked one at a time (validateListItems), so a single
+ * drifting item does not fail the whole list. Unknown extra fields are kept.
+ */
+
+import { z } from 'zod';
+import { ApiSchemaError, ApiSchemaIssue } from './errors';
+import type { Logger } from './logger';
+import type {
+  AgentRegistrationResponse,
+  ApiTradeEntry,
+  BondingCurveState,
+  BuyQuote,
+  BuyTokensResponse,
+  HostedAgentControlResponse,
+  HostedAgentStatus,
+  LaunchTokenResponse,
+  OperationStatusResponse,
+  SelfExecuteBuyResponse,
+  SelfExecuteSellResponse,
+  SellQuote,
+  SellTokensResponse,
+  TokenInfo,
+} from './types';
+
+/**
+ * How responses are checked
+ * - strict: throw ApiSchemaError on a mismatch
+ * - lenient: log the mismatch and return the response unchanged
+ * - off: no checks
+ */
+export type ResponseValidationMode = 'strict' | 'lenient' | 'off';
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+const INTEGER_PATTERN = /^\d+$/;
+
+// Amounts arrive as strings, but some endpoints send JSON numbers
+const numeric = z.union([z.string(), z.number().finite(), z.bigint()], {
+  errorMap: (_issue, ctx) => ({
+    message: ctx.data === undefined ? 'Required' : 'Expected a numeric string or number',
+  }),
+});
+
+/**
+ * Decimal amount or price as a string, e.g. "0.00012" (numbers are converted)
+ */
+export const decimalString = numeric
+  .transform((value) => toDecimalString(value))
+  .refine((value) => DECIMAL_PATTERN.test(value), { message: 'Expected a decimal number' });
+
+/**
+ * Non-negative integer amount in atomic units as a string, e.g. "1000000"
+ */
+export const atomicAmountString = numeric
+  .transform((value) => toDecimalString(value))
+  .refine((value) => INTEGER_PATTERN.test(value), {
+    message: 'Expected a non-negative integer amount in atomic units',
+  });
+
+const address = z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'Expected an address');
+const bytes32 = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Expected a 32-byte hex value');
+const hexString = z.string().regex(/^0x[0-9a-fA-F]*$/, 'Expected a hex string');
+
+const bondingCurveStatusSchema = z
+  .object({
+    tokensSold: decimalString,
+    totalUSDCRaised: decimalString,
+    currentPrice: decimalString,
+    progress: z.number(),
+  })
+  .passthrough();
+
+const priceMovementSchema = z
+  .object({
+    change1m: z.number(),
+    change5m: z.number(),
+    change4h: z.number(),
+    change8h: z.number(),
+    change12h: z.number(),
+    change1d: z.number(),
+  })
+  .passthrough();
+
+export const tokenInfoSchema: z.ZodType<TokenInfo, z.ZodTypeDef, unknown> = z
+  .object({
+    address,
+    creator: address,
+    name: z.string(),
+    ticker: z.string(),
+    totalSupply: decimalString,
+    price: decimalString,
+    marketCap: decimalString,
+    volume24h: decimalString,
+    priceMovement: priceMovementSchema.optional(),
+    progress: z.number(),
+    migrated: z.boolean(),
+    description: z.string().optional(),
+    image: z.string().optional(),
+    website: z.string().optional(),
+    twitter: z.string().optional(),
+    telegram: z.string().optional(),
+    discord: z.string().optional(),
+    launchTime: z.number(),
+    priceHistory: z
+      .array(z.object({ timestamp: z.number(), price: decimalString }).passthrough())
+      .optional(),
+    volumeHistory: z
+      .array(
+        z
+          .object({ timestamp: z.number(), volume: decimalString, tradeCount: z.number() })
+          .passthrough()
+      )
+      .optional(),
+    recentTrades: z
+      .array(
+        z
+          .object({
+            type: z.string(),
+            tokenAmount: decimalString,
+            usdcAmount: decimalString,
+            price: decimalString,
+            timestamp: z.number(),
+            transactionHash: z.string().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    technicalIndicators: z
+      .object({
+        ema20: decimalString,
+        ema50: decimalString,
+        volatility24h: z.number(),
+        high24h: decimalString,
+        low24h: decimalString,
+        range24h: decimalString,
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+/**
+ * GET /tokens page; check the tokens with validateListItems and tokenInfoSchema
+ */
+export const tokenListSchema: z.ZodType<
+  { tokens: unknown[]; total: number; page: number },
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    tokens: z.array(z.unknown()),
+    total: z.number(),
+    page: z.number(),
+  })
+  .passthrough();
+
+export const buyQuoteSchema: z.ZodType<BuyQuote, z.ZodTypeDef, unknown> = z
+  .object({
+    tokenAddress: address,
+    usdcAmount: atomicAmountString,
+    estimatedTokenAmount: atomicAmountString,
+    currentPricePerToken: decimalString,
+    progress: z.number(),
+  })
+  .passthrough();
+
+export const sellQuoteSchema: z.ZodType<SellQuote, z.ZodTypeDef, unknown> = z
+  .object({
+    tokenAddress: address,
+    tokenAmount: atomicAmountString,
+    estimatedUsdcAmount: atomicAmountString,
+    currentPricePerToken: decimalString,
+    progress: z.number(),
+    note: z.string().optional(),
+  })
+  .passthrough();
+
+export const bondingCurveStateSchema: z.ZodType<BondingCurveState, z.ZodTypeDef, unknown> = z
+  .object({
+    tokenAddress: address,
+    virtualUsdcReserve: atomicAmountString,
+    virtualTokenReserve: atomicAmountString,
+    tokensSold: atomicAmountString,
+    curveSupply: atomicAmountString,
+    usdcRaised: atomicAmountString,
+    migrated: z.boolean(),
+  })
+  .passthrough();
+
+export const launchTokenResponseSchema: z.ZodType<LaunchTokenResponse, z.ZodTypeDef, unknown> = z
+  .object({
+    tokenAddress: address,
+    bondingCurveAddress: address,
+    transactionHash: bytes32,
+  })
+  .passthrough();
+
+export const buyTokensResponseSchema: z.ZodType<BuyTokensResponse, z.ZodTypeDef, unknown> = z
+  .object({
+    transactionHash: bytes32,
+    buyer: address,
+    tokenAddress: address,
+    tokenAmount: atomicAmountString,
+    usdcPaid: atomicAmountString,
+    averagePricePerToken: decimalString,
+    bondingCurveStatus: bondingCurveStatusSchema,
+  })
+  .passthrough();
+
+export const sellTokensResponseSchema: z.ZodType<SellTokensResponse, z.ZodTypeDef, unknown> = z
+  .object({
+    transactionHash: bytes32,
+    seller: address,
+    tokenAddress: address,
+    tokenAmount: atomicAmountString,
+    usdcReceived: atomicAmountString,
+    averagePricePerToken: decimalString,
+    bondingCurveStatus: bondingCurveStatusSchema,
+  })
+  .passthrough();
+
+export const agentRegistrationResponseSchema: z.ZodType<
+  AgentRegistrationResponse,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    agentId: z.string(),
+    name: z.string(),
+    walletAddress: address,
+    registeredAt: z.number(),
+    status: z.string(),
+  })
+  .passthrough();
+
+/**
+ * The SDK only passes the hosted agent status through, so every field is optional
+ */
+export const hostedAgentStatusSchema: z.ZodType<HostedAgentStatus, z.ZodTypeDef, unknown> = z
+  .object({
+    agentId: z.string().optional(),
+    agentWallet: address.optional(),
+    ownerAddress: address.optional(),
+    status: z.enum(['active', 'paused', 'expired', 'stopped', 'low_balance']).optional(),
+    startedAt: z.string().optional(),
+    expiresAt: z.string().optional(),
+    remainingHours: z.number().optional(),
+    usdcBalance: decimalString.optional(),
+    tradesExecuted: z.number().optional(),
+    tokensLaunched: z.number().optional(),
+    totalVolume: decimalString.optional(),
+    modelProvider: z.string().optional(),
+    modelName: z.string().optional(),
+    workingHoursStart: z.number().optional(),
+    workingHoursEnd: z.number().optional(),
+    maxPositionSizeUSDC: decimalString.optional(),
+    maxPositions: z.number().optional(),
+    reviewIntervalMs: z.number().optional(),
+    profitThresholdPercent: decimalString.optional(),
+  })
+  .passthrough();
+
+export const hostedAgentControlResponseSchema: z.ZodType<
+  HostedAgentControlResponse,
+  z.ZodTypeDef,
+  unknown
+> = z.object({ message: z.string() }).passthrough();
+
+export const selfExecuteBuyResponseSchema: z.ZodType<
+  SelfExecuteBuyResponse,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    signature: hexString,
+    bondingCurveAddress: address,
+    usdcAmount: atomicAmountString,
+    buyerAddress: address,
+    tokenAddress: address,
+    nonce: bytes32,
+    expiry: z.number().int(),
+  })
+  .passthrough();
+
+export const selfExecuteSellResponseSchema: z.ZodType<
+  SelfExecuteSellResponse,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    signature: hexString,
+    bondingCurveAddress: address,
+    tokenAmount: atomicAmountString,
+    sellerAddress: address,
+    tokenAddress: address,
+    nonce: bytes32,
+    expiry: z.number().int(),
+  })
+  .passthrough();
+
+const tradeSide = z.enum(['buy', 'sell']);
+
+/**
+ * GET /trades entry. The endpoint is not in the published API reference, so
+ * the accepted shape is spelled out here: `side` or `type`, `trader` or `wallet`.
+ */
+export const apiTradeEntrySchema: z.ZodType<ApiTradeEntry, z.ZodTypeDef, unknown> = z
+  .object({
+    side: tradeSide.optional(),
+    type: tradeSide.optional(),
+    tokenAddress: address,
+    trader: address.optional(),
+    wallet: address.optional(),
+    tokenAmount: atomicAmountString,
+    usdcAmount: atomicAmountString,
+    timestamp: z.number(),
+    transactionHash: bytes32.optional(),
+    blockNumber: z.number().int().optional(),
+  })
+  .passthrough()
+  .refine((t) => t.side !== undefined || t.type !== undefined, {
+    message: 'Expected side or type ("buy" or "sell")',
+    path: ['side'],
+  })
+  .transform(({ side, type, trader, wallet, ...rest }) => ({
+    ...rest,
+    side: (side ?? type)!,
+    trader: trader ?? wallet,
+  }));
+
+/**
+ * GET /trades: a plain array or `{ trades: [...] }`; check the trades with
+ * validateListItems and apiTradeEntrySchema
+ */
+export const tradeHistoryResponseSchema: z.ZodType<
+  { trades: unknown[] },
+  z.ZodTypeDef,
+  unknown
+> = z.preprocess(
+  (data) => (Array.isArray(data) ? { trades: data } : data),
+  z.object({ trades: z.array(z.unknown()) }).passthrough()
+);
+
+/**
+ * GET /operations/:key: outcome of a write by its idempotency key
+ */
+export const operationStatusResponseSchema: z.ZodType<
+  OperationStatusResponse,
+  z.ZodTypeDef,
+  unknown
+> = z
+  .object({
+    status: z.enum(['pending', 'processing', 'completed', 'failed']),
+    result: z.unknown().optional(),
+    transactionHash: bytes32.optional(),
+  })
+  .passthrough();
+
+export const backendAddressSchema: z.ZodType<{ address: string }, z.ZodTypeDef, unknown> = z
+  .object({ address })
+  .passthrough();
+
+export const imageUploadResponseSchema: z.ZodType<{ url: string }, z.ZodTypeDef, unknown> = z
+  .object({ url: z.string().url() })
+  .passthrough();
+
+/**
+ * Check a response against its schema
+ *
+ * @param endpoint Route the response came from, e.g. 'GET /tokens/:address'
+ * @returns The parsed (normalized) response; in lenient mode the raw response on a mismatch
+ * @throws {ApiSchemaError} In strict mode, on a mismatch
+ */
+export function validateResponse<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  endpoint: string,
+  mode: ResponseValidationMode,
+  logger: Logger
+): T {
+  if (mode === 'off') return data as T;
+
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = toIssues(result.error);
+  const error = new ApiSchemaError(endpoint, issues);
+  if (mode === 'strict') throw error;
+
+  logger.warn('API response does not match schema', { endpoint, issues });
+  return data as T;
+}
+
+/**
+ * Check the items of a list response one at a time
+ *
+ * A mismatching item is logged and, in strict mode, dropped; in lenient mode
+ * it is returned unchanged. The rest of the list is kept either way.
+ *
+ * @param endpoint Route the list came from; issues name the item, e.g. '[3].price'
+ */
+export function validateListItems<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  items: unknown[],
+  endpoint: string,
+  mode: ResponseValidationMode,
+  logger: Logger
+): T[] {
+  if (mode === 'off') return items as T[];
+
+  const valid: T[] = [];
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+      return;
+    }
+
+    const issues = toIssues(result.error, [index]);
+    if (mode === 'strict') {
+      logger.warn('Dropping list item that does not match schema', { endpoint, issues });
+      return;
+    }
+    logger.warn('API response does not match schema', { endpoint, issues });
+    valid.push(item as T);
+  });
+  return valid;
+}
+
+function toIssues(
+  error: z.ZodError,
+  prefix: Array<string | number> = []
+): ApiSchemaIssue[] {
+  return error.issues.map((issue) => ({
+    field: formatPath([...prefix, ...issue.path]),
+    message: issue.message,
+  }));
+}
+
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) return '(response)';
+  return path
+    .map((part, i) => (typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`))
+    .join('');
+}
+
+function toDecimalString(value: string | number | bigint): string {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'number') {
+    const text = String(value);
+    // Expand exponent notation (1e-7, 1.5e21) without losing the value
+    if (!/e/i.test(text)) return text;
+    return Math.abs(value) < 1
+      ? value.toFixed(20).replace(/\.?0+$/, '')
+      : BigInt(Math.round(value)).toString();
+  }
+  return value.trim();
+}
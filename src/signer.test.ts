@@ -0,0 +1,91 @@
+import { ethers } from 'ethers';
+import { X402LaunchError } from './errors';
+import { AgentPadSigner, isAgentPadSigner, resolveSigner, toContractRunner } from './signer';
+
+const wallet = ethers.Wallet.createRandom();
+
+// Signer backed by a remote service, which may not know its address synchronously
+function remoteSigner(address?: string): AgentPadSigner {
+  return {
+    address,
+    getAddress: async () => wallet.address,
+    signTypedData: (domain, types, value) => wallet.signTypedData(domain, types, value),
+    signMessage: (message) => wallet.signMessage(message),
+    sendTransaction: jest.fn(),
+  };
+}
+
+describe('resolveSigner', () => {
+  it('builds a wallet from a private key string or config', () => {
+    for (const input of [wallet.privateKey, { privateKey: wallet.privateKey }]) {
+      const { signer, address } = resolveSigner(input);
+
+      expect(signer).toBeInstanceOf(ethers.Wallet);
+      expect(address).toBe(wallet.address);
+    }
+  });
+
+  it('uses an ethers signer as is, with its own address', () => {
+    const { signer, address } = resolveSigner(wallet);
+
+    expect(signer).toBe(wallet);
+    expect(address).toBe(wallet.address);
+  });
+
+  it('takes the address of a signer config, checksummed', () => {
+    const signer = remoteSigner();
+
+    const resolved = resolveSigner({ signer, address: wallet.address.toLowerCase() });
+
+    expect(resolved).toEqual({ signer, address: wallet.address });
+  });
+
+  it('prefers an explicit address over the signer property', () => {
+    const other = ethers.Wallet.createRandom().address;
+
+    expect(resolveSigner({ signer: remoteSigner(wallet.address), address: other }).address).toBe(other);
+    expect(resolveSigner({ signer: remoteSigner(wallet.address) }).address).toBe(wallet.address);
+  });
+
+  it.each([
+    ['a bare signer without an address', () => resolveSigner(remoteSigner())],
+    ['a signer config without an address', () => resolveSigner({ signer: remoteSigner() })],
+    ['an invalid address', () => resolveSigner({ signer: remoteSigner(), address: '0x1234' })],
+  ])('requires an address for %s', (_case, resolve) => {
+    expect(resolve).toThrow(X402LaunchError);
+    expect(resolve).toThrow(expect.objectContaining({ code: 'SIGNER_ADDRESS_REQUIRED' }));
+  });
+});
+
+describe('isAgentPadSigner', () => {
+  it('recognizes objects with the signing methods', () => {
+    expect(isAgentPadSigner(wallet)).toBe(true);
+    expect(isAgentPadSigner(remoteSigner())).toBe(true);
+    expect(isAgentPadSigner({ privateKey: wallet.privateKey })).toBe(false);
+    expect(isAgentPadSigner(null)).toBe(false);
+  });
+});
+
+describe('toContractRunner', () => {
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:1', 84532, { staticNetwork: true });
+
+  afterAll(() => provider.destroy());
+
+  it('connects an ethers signer without a provider', () => {
+    const runner = toContractRunner(wallet, provider) as ethers.Wallet;
+
+    expect(runner.provider).toBe(provider);
+    expect(runner.address).toBe(wallet.address);
+  });
+
+  it('sends transactions of other signers through the signer', async () => {
+    const signer = remoteSigner();
+    const runner = toContractRunner(signer, provider);
+    const tx = { to: wallet.address, value: BigInt(1) };
+
+    await runner.sendTransaction!(tx);
+
+    expect(runner.provider).toBe(provider);
+    expect(signer.sendTransaction).toHaveBeenCalledWith(tx);
+  });
+});
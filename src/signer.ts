@@ -0,0 +1,121 @@
+/**
+ * Signer abstraction
+ *
+ * Lets the client, agent runner and AI providers work with any signing
+ * backend (ethers Wallet, remote signing service, encrypted keystore, test
+ * signer) instead of requiring a plaintext private key in process memory.
+ */
+
+import { ethers } from 'ethers';
+import { X402LaunchError } from './errors';
+
+/**
+ * Minimal signer surface used by the SDK.
+ *
+ * Every `ethers.Signer` satisfies this interface, so a Wallet, JsonRpcSigner
+ * or any custom AbstractSigner can be passed directly.
+ */
+export interface AgentPadSigner {
+  /** Synchronous address, exposed by ethers Wallet / JsonRpcSigner / VoidSigner */
+  readonly address?: string;
+  getAddress(): Promise<string>;
+  signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+  signMessage(message: string | Uint8Array): Promise<string>;
+  sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse>;
+}
+
+/**
+ * Wallet configuration accepted by the client
+ * - `{ privateKey }`: build an ethers Wallet (previous behaviour)
+ * - `{ signer, address? }`: use an external signer; `address` is required
+ *   only when the signer does not expose a synchronous `address` property
+ */
+export type WalletConfig =
+  | { privateKey: string }
+  | { signer: AgentPadSigner; address?: string };
+
+export interface ResolvedSigner {
+  signer: AgentPadSigner;
+  address: string;
+}
+
+/**
+ * Check whether a value looks like a signer
+ */
+export function isAgentPadSigner(value: unknown): value is AgentPadSigner {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AgentPadSigner).signTypedData === 'function' &&
+    typeof (value as AgentPadSigner).signMessage === 'function' &&
+    typeof (value as AgentPadSigner).getAddress === 'function'
+  );
+}
+
+/**
+ * Resolve a private key, signer or wallet config into a signer plus its address
+ */
+export function resolveSigner(
+  input: string | AgentPadSigner | WalletConfig
+): ResolvedSigner {
+  if (typeof input === 'string') {
+    const wallet = new ethers.Wallet(input);
+    return { signer: wallet, address: wallet.address };
+  }
+
+  if (isAgentPadSigner(input)) {
+    return { signer: input, address: requireAddress(input) };
+  }
+
+  if ('privateKey' in input) {
+    const wallet = new ethers.Wallet(input.privateKey);
+    return { signer: wallet, address: wallet.address };
+  }
+
+  return {
+    signer: input.signer,
+    address: requireAddress(input.signer, input.address),
+  };
+}
+
+function requireAddress(signer: AgentPadSigner, address?: string): string {
+  const resolved = address || signer.address;
+  if (!resolved || !ethers.isAddress(resolved)) {
+    throw new X402LaunchError(
+      'Signer address is unknown. Pass `address` alongside the signer when it does not expose one synchronously.',
+      'SIGNER_ADDRESS_REQUIRED'
+    );
+  }
+  return ethers.getAddress(resolved);
+}
+
+/**
+ * Build an ethers ContractRunner that sends transactions through the signer
+ * and reads state through the given provider.
+ *
+ * ethers signers are connected to the provider when they have none; other
+ * signers are wrapped so they only need to implement `sendTransaction`.
+ */
+export function toContractRunner(
+  signer: AgentPadSigner,
+  provider: ethers.Provider
+): ethers.ContractRunner {
+  if (signer instanceof ethers.AbstractSigner) {
+    return signer.provider ? signer : signer.connect(provider);
+  }
+
+  return {
+    provider,
+    call: (tx) => provider.call(tx),
+    estimateGas: async (tx) =>
+      provider.estimateGas({ ...tx, from: tx.from ?? (await signer.getAddress()) }),
+    resolveName: (name) => provider.resolveName(name),
+    sendTransaction: (tx) => signer.sendTransaction(tx),
+  };
+}
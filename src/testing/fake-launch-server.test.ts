@@ -0,0 +1,280 @@
+import { ethers } from 'ethers';
+import type { X402PaymentRequirements } from '../errors';
+import { FakeLaunchServer } from './fake-launch-server';
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+interface PaymentOverrides {
+  amount?: string;
+  recipient?: string;
+  nonce?: string;
+  signature?: string;
+  signer?: ethers.Signer;
+}
+
+describe('FakeLaunchServer', () => {
+  const wallet = ethers.Wallet.createRandom();
+  let server: FakeLaunchServer;
+  let tokenAddress: string;
+
+  async function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+    const response = await fetch(`${server.url}/api/v1${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  /**
+   * Sign an X-PAYMENT header for the requirements, with fields to tamper with
+   */
+  async function paymentHeader(
+    requirements: X402PaymentRequirements,
+    overrides: PaymentOverrides = {}
+  ): Promise<string> {
+    const amount = overrides.amount || requirements.maxAmountRequired;
+    const recipient = overrides.recipient || requirements.payTo;
+    const nonce = overrides.nonce || ethers.hexlify(ethers.randomBytes(32));
+    const timestamp = Math.floor(Date.now() / 1000) - 10;
+    const signature =
+      overrides.signature ||
+      (await (overrides.signer || wallet).signTypedData(
+        {
+          name: requirements.extra!.name,
+          version: requirements.extra!.version,
+          chainId: server.chainId,
+          verifyingContract: requirements.asset,
+        },
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        { from: wallet.address, to: recipient, value: amount, validAfter: timestamp, validBefore: timestamp + 300, nonce }
+      ));
+    const payload = { payer: wallet.address, amount, asset: requirements.asset, recipient, nonce, signature, timestamp };
+    return Buffer.from(JSON.stringify(payload)).toString('base64');
+  }
+
+  /**
+   * Answer the 402 challenge of a write with a valid payment
+   */
+  async function paidPost(path: string, body: unknown, overrides: PaymentOverrides = {}) {
+    const challenge = await post(path, body);
+    expect(challenge.status).toBe(402);
+    const header = await paymentHeader(challenge.body.accepts[0], overrides);
+    return post(path, body, { 'X-PAYMENT': header });
+  }
+
+  beforeEach(async () => {
+    server = new FakeLaunchServer();
+    await server.start();
+    server.fundUsdc(wallet.address, '100000000');
+    tokenAddress = server.createToken({ name: 'Seed', ticker: 'SEED' }).address;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('402 challenge', () => {
+    it('asks for the route fee in USDC to the backend', async () => {
+      const { status, body } = await post('/tokens/launch', { name: 'Moon', ticker: 'MOON', description: 'A test token' });
+
+      expect(status).toBe(402);
+      expect(body).toMatchObject({ x402Version: 1, error: 'Payment required' });
+      expect(body.accepts).toEqual([
+        expect.objectContaining({
+          scheme: 'exact',
+          maxAmountRequired: '1000000',
+          payTo: server.backendAddress,
+          resource: '/api/v1/tokens/launch',
+          extra: { name: expect.any(String), version: expect.any(String) },
+        }),
+      ]);
+    });
+
+    it('adds the buy amount to the buy fee', async () => {
+      const { body } = await post('/tokens/buy', { tokenAddress, usdcAmount: '5000000' });
+
+      expect(body.accepts[0].maxAmountRequired).toBe('5010000');
+    });
+
+    it('rejects a malformed body before the challenge', async () => {
+      const { status, body } = await post('/tokens/buy', { tokenAddress });
+
+      expect(status).toBe(400);
+      expect(body).toMatchObject({ code: 'VALIDATION_ERROR', message: expect.stringMatching(/^usdcAmount/) });
+    });
+  });
+
+  describe('X-PAYMENT verification', () => {
+    const buyBody = () => ({ tokenAddress, usdcAmount: '1000000' });
+
+    it.each([
+      ['a bad signature', { signature: '0x1234' }, 'Invalid authorization signature'],
+      ['a signature by another wallet', { signer: ethers.Wallet.createRandom() }, 'Authorization signed by the wrong wallet'],
+      ['a short amount', { amount: '1000' }, 'Payment of 1000 is below the required 1010000'],
+      ['the wrong recipient', { recipient: ethers.Wallet.createRandom().address }, 'Wrong payment recipient'],
+    ])('rejects %s without charging', async (_case, overrides, error) => {
+      const { status, body } = await paidPost('/tokens/buy', buyBody(), overrides);
+
+      expect(status).toBe(402);
+      expect(body.error).toContain(error);
+      expect(server.payments).toHaveLength(0);
+      expect(server.getUsdcBalance(wallet.address)).toBe(BigInt(100000000));
+    });
+
+    it('rejects a reused nonce', async () => {
+      const nonce = ethers.hexlify(ethers.randomBytes(32));
+      expect((await paidPost('/tokens/buy', buyBody(), { nonce })).status).toBe(200);
+
+      const { status, body } = await paidPost('/tokens/buy', buyBody(), { nonce });
+
+      expect(status).toBe(402);
+      expect(body.error).toBe('Payment nonce already used');
+      expect(server.payments).toHaveLength(1);
+    });
+
+    it('rejects a payer without the balance', async () => {
+      const { status, body } = await paidPost('/tokens/buy', { tokenAddress, usdcAmount: '200000000' });
+
+      expect(status).toBe(402);
+      expect(body.error).toBe('Insufficient USDC balance for payment of 200010000');
+      expect(server.trades).toHaveLength(0);
+    });
+
+    it('rejects a header that is not a payment', async () => {
+      const header = Buffer.from(JSON.stringify({ payer: wallet.address })).toString('base64');
+
+      const { status, body } = await post('/tokens/buy', buyBody(), { 'X-PAYMENT': header });
+
+      expect(status).toBe(402);
+      expect(body.error).toBe('Malformed X-PAYMENT header');
+    });
+  });
+
+  describe('trades', () => {
+    it('buys on the curve and charges the fee with the amount', async () => {
+      const { status, body } = await paidPost('/tokens/buy', { tokenAddress, usdcAmount: '5000000' });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ buyer: wallet.address, usdcPaid: '5000000' });
+      expect(server.getUsdcBalance(wallet.address)).toBe(BigInt(100000000 - 5010000));
+      expect(server.getTokenBalance(tokenAddress, wallet.address)).toBe(BigInt(body.tokenAmount));
+      expect(server.trades).toEqual([expect.objectContaining({ side: 'buy', transactionHash: body.transactionHash })]);
+    });
+
+    it('sells against a signed token authorization', async () => {
+      const bought = await paidPost('/tokens/buy', { tokenAddress, usdcAmount: '5000000' });
+      const tokenAmount = bought.body.tokenAmount;
+      const validAfter = Math.floor(Date.now() / 1000) - 10;
+      const validBefore = validAfter + 300;
+      const nonce = ethers.hexlify(ethers.randomBytes(32));
+      const signature = await wallet.signTypedData(
+        { name: 'Seed', version: '1', chainId: server.chainId, verifyingContract: tokenAddress },
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        { from: wallet.address, to: server.backendAddress, value: tokenAmount, validAfter, validBefore, nonce }
+      );
+      const sell = {
+        tokenAddress,
+        tokenAmount,
+        sellerAddress: wallet.address,
+        validAfter: String(validAfter),
+        validBefore: String(validBefore),
+        nonce,
+        signature,
+      };
+
+      const { status, body } = await post('/tokens/sell', sell);
+      const replay = await post('/tokens/sell', sell);
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ seller: wallet.address, tokenAmount });
+      expect(server.getTokenBalance(tokenAddress, wallet.address)).toBe(BigInt(0));
+      expect(server.getUsdcBalance(wallet.address)).toBe(BigInt(100000000 - 5010000) + BigInt(body.usdcReceived));
+      expect(replay).toMatchObject({ status: 400, body: { code: 'NONCE_ALREADY_USED' } });
+    });
+
+    it('launches a token owned by the payer', async () => {
+      const { status, body } = await paidPost('/tokens/launch', {
+        name: 'Moon',
+        ticker: 'MOON',
+        description: 'A token for the tests',
+        image: 'https://example.com/moon.png',
+      });
+
+      expect(status).toBe(200);
+      expect(server.payments).toEqual([expect.objectContaining({ amount: '1000000', resource: '/api/v1/tokens/launch' })]);
+      const token = await (await fetch(`${server.url}/api/v1/tokens/${body.tokenAddress}`)).json();
+      expect(token).toMatchObject({ name: 'Moon', ticker: 'MOON', creator: wallet.address });
+    });
+
+    it('rejects an invalid launch without charging', async () => {
+      const { status, body } = await paidPost('/tokens/launch', { name: 'Moon', ticker: 'moon', description: 'short' });
+
+      expect(status).toBe(400);
+      expect(body.code).toBe('VALIDATION_ERROR');
+      expect(server.payments).toHaveLength(0);
+    });
+  });
+
+  describe('/agents/register', () => {
+    async function registrationSignature(agentId: string): Promise<string> {
+      const timestamp = Math.floor(Date.now() / 1000);
+      return wallet.signMessage(
+        `x402-launch: Register agent\nAgent ID: ${agentId}\nWallet: ${wallet.address}\nTimestamp: ${timestamp}`
+      );
+    }
+
+    it('registers the agent to the paying wallet', async () => {
+      const signature = await registrationSignature('agent-1');
+
+      const { status, body } = await paidPost('/agents/register', { agentId: 'agent-1', name: 'Agent One', signature });
+
+      expect(status).toBe(200);
+      expect(body).toMatchObject({ agentId: 'agent-1', walletAddress: wallet.address, status: 'registered' });
+      expect(server.payments).toEqual([expect.objectContaining({ amount: '10000' })]);
+    });
+
+    it('rejects a registration signed for another agent', async () => {
+      const signature = await registrationSignature('agent-2');
+
+      const { status, body } = await paidPost('/agents/register', { agentId: 'agent-1', name: 'Agent One', signature });
+
+      expect(status).toBe(401);
+      expect(body.code).toBe('INVALID_SIGNATURE');
+      expect(server.payments).toHaveLength(0);
+    });
+
+    it('rejects an agent ID that is already taken', async () => {
+      const signature = await registrationSignature('agent-1');
+      await paidPost('/agents/register', { agentId: 'agent-1', name: 'Agent One', signature });
+
+      const { status, body } = await paidPost('/agents/register', { agentId: 'agent-1', name: 'Agent Two', signature });
+
+      expect(status).toBe(409);
+      expect(body.code).toBe('AGENT_EXISTS');
+    });
+  });
+
+  it('answers invalid JSON-RPC calls with an error', async () => {
+    const response = await fetch(server.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify([{ id: 1, method: 'eth_chainId' }, { id: 2 }]),
+    });
+
+    expect(await response.json()).toEqual([
+      { jsonrpc: '2.0', id: 1, result: ethers.toQuantity(server.chainId) },
+      { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } },
+    ]);
+  });
+});
@@ -0,0 +1,1385 @@
+/**
+ * Fake Launch Server
+ *
+ * In-process stand-in for the x402-Launch backend, so X402LaunchClient and
+ * AgentRunner can be tested end to end without the network:
+ * - The platform API under /api/v1: tokens, quotes, gasless buy/sell, launch,
+ *   image uploads, backend address, trades, agent registration and the
+ *   hosted-agent routes
+ * - Real x402 challenges: paid routes answer 402, and X-PAYMENT headers are
+ *   checked (EIP-712 signature, amount, recipient, time window, nonce, balance)
+ *   before the payer's in-memory USDC balance is debited
+ * - Deterministic bonding curve math (BondingCurveModel), with the curve state
+ *   served at /tokens/:address/curve
+ * - A minimal JSON-RPC endpoint (chain ID, balances, ERC-20 metadata, curve
+ *   state) and an x402-paid model endpoint answering with scripted agent
+ *   decisions
+ * - Self-execute routes that answer backend-signed trades (broadcasting them
+ *   needs a real chain)
+ *
+ * @example
+ * ```typescript
+ * const server = new FakeLaunchServer();
+ * await server.start();
+ * server.fundUsdc(wallet.address, '100000000'); // 100 USDC
+ *
+ * const client = new X402LaunchClient({
+ *   wallet: { privateKey },
+ *   baseUrl: server.url,
+ *   rpcUrl: server.rpcUrl,
+ * });
+ * const token = await client.launchToken({ name: 'Test', ticker: 'TEST', description: 'A test token', image: 'https://example.com/t.png' });
+ * await client.buyTokens({ tokenAddress: token.tokenAddress, usdcAmount: '5000000' });
+ *
+ * await server.stop();
+ * ```
+ */
+
+import express, { Request, Response } from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { getSignedTradeHash, SignedTrade } from '../backend-signature';
+import { BondingCurveModel, formatCurvePrice } from '../bonding-curve';
+import { bondingCurveStateInterface } from '../contracts';
+import { matchesTokenFilter } from '../discovery';
+import { CurveCompletedError, InsufficientLiquidityError, LaunchValidationError } from '../errors';
+import {
+  LaunchImage,
+  ValidatedLaunchParams,
+  loadLaunchImage,
+  validateLaunchParams,
+} from '../launch-metadata';
+import { DEFAULT_CHAIN_ID, getNetwork } from '../networks';
+import type { X402PaymentRequirements } from '../errors';
+import type {
+  AgentRegistrationResponse,
+  DiscoverTokensOptions,
+  HostedAgentStatus,
+  SelfExecuteBuyResponse,
+  SelfExecuteSellResponse,
+  TokenInfo,
+} from '../types';
+
+/**
+ * x402 fees charged per route, in USDC atomic units ('0' = free)
+ */
+export interface FakeServerFees {
+  launch: string;
+  buy: string; // Charged on top of the buy amount
+  sell: string;
+  selfExecute: string; // Backend signature for a self-execute buy or sell
+  register: string;
+  agentControl: string;
+  model: string;
+}
+
+export interface FakeLaunchServerOptions {
+  chainId?: number; // Must be registered (default: Base Sepolia)
+  port?: number; // Default: a free port
+  backendPrivateKey?: string; // Backend wallet (receives fees and sold tokens; default: random)
+  fees?: Partial<FakeServerFees>;
+  virtualUsdcReserve?: string; // Virtual USDC reserve of a new curve (default: 3000 USDC)
+  curveSupplyPercent?: number; // Share of the supply sold before the curve completes (default: 80)
+  /**
+   * Answer to a model call (default: always "wait"). Objects are sent as JSON.
+   */
+  decide?: (messages: Array<{ role: string; content: string }>) => unknown;
+}
+
+export interface FakeTokenParams {
+  name: string;
+  ticker: string;
+  description?: string;
+  image?: string;
+  creator?: string;
+  initialSupply?: string; // Token atomic units (default: 10M tokens)
+}
+
+/**
+ * A trade executed by the fake backend
+ */
+export interface FakeTrade {
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  trader: string;
+  tokenAmount: string;
+  usdcAmount: string;
+  price: string; // USDC per token after the trade
+  timestamp: number; // Unix ms
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * An x402 payment the fake backend accepted and settled
+ */
+export interface FakeSettledPayment {
+  payer: string;
+  payTo: string;
+  amount: string;
+  nonce: string;
+  resource: string;
+  transaction: string;
+}
+
+const DEFAULT_FEES: FakeServerFees = {
+  launch: '1000000', // 1 USDC
+  buy: '10000', // 0.01 USDC
+  sell: '0', // Gasless sells carry an EIP-3009 token transfer instead
+  selfExecute: '10000',
+  register: '10000',
+  agentControl: '10000',
+  model: '1000',
+};
+
+const DEFAULT_SUPPLY = BigInt('10000000000000000000000000'); // 10M tokens
+const DEFAULT_VIRTUAL_USDC = BigInt(3000000000); // 3000 USDC
+const PAYMENT_VALIDITY_SECONDS = 300; // createX402Payment signs validAfter + 300
+const SELF_EXECUTE_VALIDITY_SECONDS = 600;
+
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+const ERC20_READ_INTERFACE = new ethers.Interface([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function totalSupply() view returns (uint256)',
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function version() view returns (string)',
+]);
+
+// Request bodies; the handlers check amounts, addresses and signatures
+const amountField = z.union([z.string(), z.number()]);
+
+const launchBodySchema = z.object({
+  name: z.string(),
+  ticker: z.string(),
+  description: z.string(),
+  image: z.string().optional(),
+  initialSupply: z.string().optional(),
+  website: z.string().optional(),
+  twitter: z.string().optional(),
+  telegram: z.string().optional(),
+  discord: z.string().optional(),
+});
+
+const buyBodySchema = z.object({ tokenAddress: z.string(), usdcAmount: amountField });
+
+const sellBodySchema = z.object({
+  tokenAddress: z.string(),
+  tokenAmount: amountField,
+  sellerAddress: z.string(),
+  validAfter: amountField,
+  validBefore: amountField,
+  nonce: z.string(),
+  signature: z.string(),
+});
+
+const selfExecuteSellBodySchema = z.object({ tokenAddress: z.string(), tokenAmount: amountField });
+
+const registerBodySchema = z.object({
+  agentId: z.string(),
+  name: z.string(),
+  signature: z.string().optional(),
+});
+
+const chatBodySchema = z.object({
+  messages: z.array(z.object({ role: z.string(), content: z.string() })).default([]),
+});
+
+const rpcCallSchema = z.object({
+  id: z.union([z.string(), z.number(), z.null()]).optional(),
+  method: z.string(),
+  params: z.array(z.unknown()).default([]),
+});
+
+const ethCallSchema = z.object({ to: z.string(), data: z.string() });
+
+// Decoded X-PAYMENT header
+const paymentPayloadSchema = z.object({
+  payer: z.string(),
+  amount: amountField,
+  asset: z.string(),
+  recipient: z.string(),
+  nonce: z.string(),
+  signature: z.string(),
+  timestamp: amountField,
+});
+
+interface FakeToken {
+  address: string;
+  creator: string;
+  name: string;
+  ticker: string;
+  description: string;
+  image: string;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+  launchTime: number;
+  totalSupply: bigint;
+  curve: BondingCurveModel;
+  balances: Map<string, bigint>; // Lowercase holder address -> amount
+}
+
+interface VerifiedPayment {
+  payer: string;
+  amount: bigint;
+  nonce: string;
+}
+
+/**
+ * Error answered as { message, code } with an HTTP status
+ */
+class FakeApiError extends Error {
+  constructor(public status: number, message: string, public code?: string) {
+    super(message);
+  }
+}
+
+export class FakeLaunchServer {
+  readonly chainId: number;
+  readonly backendAddress: string;
+  private backendWallet: ethers.BaseWallet; // Signs self-execute trades
+
+  /** Trades in execution order */
+  readonly trades: FakeTrade[] = [];
+  /** Settled x402 payments in order */
+  readonly payments: FakeSettledPayment[] = [];
+
+  private options: FakeLaunchServerOptions;
+  private fees: FakeServerFees;
+  private usdc: { address: string; name: string; version: string };
+  private network: string;
+  private app = express();
+  private server?: Server;
+  private port = 0;
+
+  private tokens = new Map<string, FakeToken>(); // Lowercase address -> token
+  private usdcBalances = new Map<string, bigint>();
+  private ethBalances = new Map<string, bigint>();
+  private usedNonces = new Set<string>(); // x402 and EIP-3009 nonces
+  private operations = new Map<string, unknown>(); // Idempotency key -> response
+  private registeredAgents = new Map<string, AgentRegistrationResponse>();
+  private images = new Map<string, LaunchImage>(); // Upload ID -> image
+  private hostedAgents = new Map<string, Required<HostedAgentStatus>>();
+  private blockNumber = 1;
+  private sequence = 0;
+
+  constructor(options: FakeLaunchServerOptions = {}) {
+    this.options = options;
+    this.chainId = options.chainId || DEFAULT_CHAIN_ID;
+    const network = getNetwork(this.chainId);
+    this.network = network.name;
+    this.usdc = network.usdc;
+    this.fees = { ...DEFAULT_FEES, ...options.fees };
+    this.backendWallet = options.backendPrivateKey
+      ? new ethers.Wallet(options.backendPrivateKey)
+      : ethers.Wallet.createRandom();
+    this.backendAddress = this.backendWallet.address;
+    this.setupRoutes();
+  }
+
+  /**
+   * Base URL for ClientConfig.baseUrl
+   */
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  /**
+   * JSON-RPC URL for ClientConfig.rpcUrl
+   */
+  get rpcUrl(): string {
+    return `${this.url}/rpc`;
+  }
+
+  /**
+   * Model endpoint for AgentConfig.modelApiUrl
+   */
+  get modelApiUrl(): string {
+    return `${this.url}/v1/chat`;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+    await new Promise<void>((resolve, reject) => {
+      const server = this.app.listen(this.options.port || 0, '127.0.0.1', () => {
+        this.port = (server.address() as AddressInfo).port;
+        resolve();
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+      server.closeAllConnections?.();
+    });
+  }
+
+  /**
+   * Credit USDC (atomic units) to a wallet
+   */
+  fundUsdc(address: string, amount: string | bigint): void {
+    const key = address.toLowerCase();
+    this.usdcBalances.set(key, (this.usdcBalances.get(key) || BigInt(0)) + BigInt(amount));
+  }
+
+  /**
+   * Set the ETH balance (wei) returned by eth_getBalance
+   */
+  setEthBalance(address: string, wei: string | bigint): void {
+    this.ethBalances.set(address.toLowerCase(), BigInt(wei));
+  }
+
+  getUsdcBalance(address: string): bigint {
+    return this.usdcBalances.get(address.toLowerCase()) || BigInt(0);
+  }
+
+  getTokenBalance(tokenAddress: string, holder: string): bigint {
+    return this.getToken(tokenAddress).balances.get(holder.toLowerCase()) || BigInt(0);
+  }
+
+  /**
+   * Add a token without going through the paid launch route
+   */
+  createToken(params: FakeTokenParams): TokenInfo {
+    const token = this.addToken({
+      ...params,
+      description: params.description || `${params.name} test token`,
+      image: params.image || 'https://example.com/token.png',
+      creator: params.creator || this.backendAddress,
+      initialSupply: params.initialSupply ? BigInt(params.initialSupply) : DEFAULT_SUPPLY,
+    });
+    return this.toTokenInfo(token);
+  }
+
+  /**
+   * Mark a token's curve complete, as if it had migrated to the DEX
+   */
+  completeCurve(tokenAddress: string): void {
+    const token = this.getToken(tokenAddress);
+    token.curve = new BondingCurveModel({ ...token.curve.toState(), migrated: true });
+  }
+
+  /**
+   * Add a hosted agent (normally created through the platform dashboard)
+   */
+  hostAgent(status: Partial<HostedAgentStatus> & { agentId: string; ownerAddress: string }): Required<HostedAgentStatus> {
+    const now = Date.now();
+    const hosted: Required<HostedAgentStatus> = {
+      agentWallet: ethers.Wallet.createRandom().address,
+      status: 'active',
+      startedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + 24 * 3600_000).toISOString(),
+      remainingHours: 24,
+      usdcBalance: '0',
+      tradesExecuted: 0,
+      tokensLaunched: 0,
+      totalVolume: '0',
+      modelProvider: 'x402',
+      modelName: 'openai/gpt-4o-mini',
+      workingHoursStart: 0,
+      workingHoursEnd: 23,
+      maxPositionSizeUSDC: '5000000',
+      maxPositions: 3,
+      reviewIntervalMs: 300000,
+      profitThresholdPercent: '20',
+      ...status,
+    };
+    this.hostedAgents.set(hosted.agentId, hosted);
+    return { ...hosted };
+  }
+
+  private setupRoutes(): void {
+    const api = express.Router();
+    api.use(express.json({ limit: '10mb' })); // Room for base64 image uploads
+
+    api.get('/tokens', (req, res) => this.respond(res, () => this.listTokens(req)));
+    api.get('/tokens/backend-address', (_req, res) =>
+      this.respond(res, () => ({ address: this.backendAddress }))
+    );
+    api.get('/tokens/:address', (req, res) =>
+      this.respond(res, () => this.toTokenInfo(this.getToken(req.params.address)))
+    );
+    api.get('/tokens/:address/curve', (req, res) =>
+      this.respond(res, () => this.getToken(req.params.address).curve.toState())
+    );
+    api.get('/tokens/:address/quote', (req, res) =>
+      this.respond(res, () => this.buyQuote(req))
+    );
+    api.get('/tokens/:address/sell/quote', (req, res) =>
+      this.respond(res, () => this.sellQuote(req))
+    );
+    api.get('/trades', (req, res) => this.respond(res, () => this.listTrades(req)));
+    api.post('/uploads/image', (req, res) => this.upload(req, res));
+    api.get('/uploads/:id', (req, res) => {
+      const image = this.images.get(String(req.params.id));
+      if (!image) {
+        this.sendError(res, new FakeApiError(404, 'Image not found', 'NOT_FOUND'));
+        return;
+      }
+      res.type(image.contentType).send(Buffer.from(image.data));
+    });
+    api.get('/operations/:key', (req, res) =>
+      this.respond(res, () => {
+        if (!this.operations.has(req.params.key)) {
+          throw new FakeApiError(404, 'Unknown operation', 'OPERATION_NOT_FOUND');
+        }
+        return { status: 'completed', result: this.operations.get(req.params.key) };
+      })
+    );
+
+    api.post('/tokens/launch', (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.launch), 'Launch a token', (payment) =>
+        this.launch(parseBody(launchBodySchema, req.body), payment)
+      )
+    );
+    api.post('/tokens/buy', (req, res) => {
+      // The buy amount is part of the payment, so the body is checked before the challenge
+      let body: z.infer<typeof buyBodySchema>;
+      let usdcAmount: bigint;
+      try {
+        body = parseBody(buyBodySchema, req.body);
+        usdcAmount = toAmount(body.usdcAmount, 'usdcAmount');
+      } catch (error) {
+        this.sendError(res, error);
+        return;
+      }
+      this.paidWrite(req, res, BigInt(this.fees.buy) + usdcAmount, 'Buy tokens', (payment) =>
+        this.buy(body, payment)
+      );
+    });
+    api.post('/tokens/sell', (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.sell), 'Sell tokens', () =>
+        this.sell(parseBody(sellBodySchema, req.body))
+      )
+    );
+    api.post('/tokens/buy/self-execute', (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.selfExecute), 'Sign a self-execute buy', (payment) =>
+        this.signSelfExecuteBuy(parseBody(buyBodySchema, req.body), payment)
+      )
+    );
+    api.post('/tokens/sell/self-execute', (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.selfExecute), 'Sign a self-execute sell', (payment) =>
+        this.signSelfExecuteSell(parseBody(selfExecuteSellBodySchema, req.body), payment)
+      )
+    );
+    api.post('/agents/register', (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.register), 'Register an agent', (payment) =>
+        this.register(parseBody(registerBodySchema, req.body), payment)
+      )
+    );
+    api.get('/agents/host/:agentId', (req, res) =>
+      this.respond(res, () => {
+        const hosted = this.getHostedAgent(req.params.agentId);
+        const owner = req.query.ownerAddress;
+        if (typeof owner === 'string' && owner.toLowerCase() !== hosted.ownerAddress.toLowerCase()) {
+          throw new FakeApiError(403, 'Not the owner of this agent', 'FORBIDDEN');
+        }
+        return hosted;
+      })
+    );
+    for (const action of ['pause', 'resume', 'stop'] as const) {
+      api.post(`/agents/host/:agentId/${action}`, (req, res) =>
+        this.paidWrite(req, res, BigInt(this.fees.agentControl), `${action} a hosted agent`, (payment) =>
+          this.controlAgent(String(req.params.agentId), action, payment)
+        )
+      );
+    }
+
+    this.app.use('/api/v1', api);
+    this.app.post('/rpc', express.json(), (req, res) => {
+      const body = req.body;
+      res.json(Array.isArray(body) ? body.map((call) => this.rpc(call)) : this.rpc(body));
+    });
+    this.app.post('/v1/chat', express.json(), (req, res) =>
+      this.paidWrite(req, res, BigInt(this.fees.model), 'Model call', () =>
+        this.chat(parseBody(chatBodySchema, req.body))
+      )
+    );
+  }
+
+  /**
+   * Answer a read route; FakeApiErrors become { message, code } responses
+   */
+  private respond(res: Response, handler: () => unknown): void {
+    try {
+      res.json(handler());
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  /**
+   * Run a write behind an x402 challenge and the Idempotency-Key
+   *
+   * The payment is verified before the handler runs and only settled when it
+   * succeeds, so a rejected request is never charged. A key that already
+   * completed returns its stored response without charging again.
+   */
+  private paidWrite(
+    req: Request,
+    res: Response,
+    amount: bigint,
+    description: string,
+    handler: (payment?: VerifiedPayment) => unknown
+  ): void {
+    const key = req.header('idempotency-key');
+    if (key && this.operations.has(key)) {
+      res.json(this.operations.get(key));
+      return;
+    }
+
+    try {
+      let payment: VerifiedPayment | undefined;
+      if (amount > BigInt(0)) {
+        const requirements = this.getRequirements(req.originalUrl, amount, description);
+        const header = req.header('x-payment');
+        if (!header) {
+          res.status(402).json({ x402Version: 1, error: 'Payment required', accepts: [requirements] });
+          return;
+        }
+        try {
+          payment = this.verifyPayment(header, requirements);
+        } catch (error) {
+          res.status(402).json({ x402Version: 1, error: (error as Error).message, accepts: [requirements] });
+          return;
+        }
+      }
+
+      const result = handler(payment);
+      if (payment) {
+        const transaction = this.settle(payment, req.originalUrl);
+        res.setHeader(
+          'X-PAYMENT-RESPONSE',
+          Buffer.from(
+            JSON.stringify({ success: true, transaction, network: this.network, payer: payment.payer })
+          ).toString('base64')
+        );
+      }
+      if (key) this.operations.set(key, result);
+      res.json(result);
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  private sendError(res: Response, error: unknown): void {
+    if (error instanceof FakeApiError) {
+      res.status(error.status).json({ message: error.message, code: error.code });
+    } else {
+      res.status(500).json({ message: (error as Error)?.message || 'Internal error' });
+    }
+  }
+
+  private getRequirements(resource: string, amount: bigint, description: string): X402PaymentRequirements {
+    return {
+      x402Version: 1,
+      scheme: 'exact',
+      network: this.network,
+      maxAmountRequired: amount.toString(),
+      resource,
+      description,
+      mimeType: 'application/json',
+      payTo: this.backendAddress,
+      maxTimeoutSeconds: PAYMENT_VALIDITY_SECONDS,
+      asset: this.usdc.address,
+      extra: { name: this.usdc.name, version: this.usdc.version },
+    };
+  }
+
+  /**
+   * Check an X-PAYMENT header the way the facilitator would
+   *
+   * @throws {Error} With the reason the payment is rejected
+   */
+  private verifyPayment(header: string, requirements: X402PaymentRequirements): VerifiedPayment {
+    let decoded: unknown;
+    try {
+      decoded = JSON.parse(Buffer.from(header, 'base64').toString('utf8'));
+    } catch {
+      throw new Error('Malformed X-PAYMENT header');
+    }
+    const payload = paymentPayloadSchema.safeParse(decoded);
+    if (!payload.success) {
+      throw new Error('Malformed X-PAYMENT header');
+    }
+    const { payer, amount, asset, recipient, nonce, signature, timestamp } = payload.data;
+    if (!ethers.isAddress(payer) || !ethers.isAddress(recipient) || !ethers.isAddress(asset)) {
+      throw new Error('Malformed X-PAYMENT header');
+    }
+    if (asset.toLowerCase() !== requirements.asset.toLowerCase()) {
+      throw new Error(`Wrong payment asset ${asset}`);
+    }
+    if (recipient.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      throw new Error(`Wrong payment recipient ${recipient}`);
+    }
+    const value = toAmount(amount, 'amount');
+    if (value < BigInt(requirements.maxAmountRequired)) {
+      throw new Error(`Payment of ${value} is below the required ${requirements.maxAmountRequired}`);
+    }
+
+    const validAfter = Number(timestamp);
+    const validBefore = validAfter + PAYMENT_VALIDITY_SECONDS;
+    const now = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(validAfter) || now < validAfter || now >= validBefore) {
+      throw new Error('Payment authorization is not valid at this time');
+    }
+    if (this.usedNonces.has(nonce.toLowerCase())) {
+      throw new Error('Payment nonce already used');
+    }
+
+    this.checkTransferAuthorization(
+      { name: this.usdc.name, version: this.usdc.version, address: this.usdc.address },
+      { from: payer, to: recipient, value, validAfter, validBefore, nonce },
+      signature
+    );
+    if (this.getUsdcBalance(payer) < value) {
+      throw new Error(`Insufficient USDC balance for payment of ${value}`);
+    }
+    return { payer: ethers.getAddress(payer), amount: value, nonce };
+  }
+
+  /**
+   * Verify an EIP-3009 TransferWithAuthorization signature
+   */
+  private checkTransferAuthorization(
+    token: { name: string; version: string; address: string },
+    message: {
+      from: string;
+      to: string;
+      value: bigint;
+      validAfter: number;
+      validBefore: number;
+      nonce: string;
+    },
+    signature: string
+  ): void {
+    let signer: string;
+    try {
+      signer = ethers.verifyTypedData(
+        {
+          name: token.name,
+          version: token.version,
+          chainId: this.chainId,
+          verifyingContract: token.address,
+        },
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        message,
+        signature
+      );
+    } catch {
+      throw new Error('Invalid authorization signature');
+    }
+    if (signer.toLowerCase() !== message.from.toLowerCase()) {
+      throw new Error('Authorization signed by the wrong wallet');
+    }
+  }
+
+  private settle(payment: VerifiedPayment, resource: string): string {
+    this.usedNonces.add(payment.nonce.toLowerCase());
+    this.moveUsdc(payment.payer, this.backendAddress, payment.amount);
+    const transaction = this.nextHash('payment');
+    this.payments.push({
+      payer: payment.payer,
+      payTo: this.backendAddress,
+      amount: payment.amount.toString(),
+      nonce: payment.nonce,
+      resource,
+      transaction,
+    });
+    return transaction;
+  }
+
+  /**
+   * Store an uploaded launch image and answer its URL (free, like the platform)
+   */
+  private async upload(req: Request, res: Response): Promise<void> {
+    try {
+      const { data, contentType, fileName } = req.body || {};
+      if (typeof data !== 'string' || !data) {
+        throw new FakeApiError(400, 'data must be a base64-encoded image', 'VALIDATION_ERROR');
+      }
+      const image = await loadLaunchImage({
+        data: Buffer.from(data, 'base64'),
+        contentType,
+        fileName: typeof fileName === 'string' ? fileName : undefined,
+      }).catch((error) => {
+        if (error instanceof LaunchValidationError) {
+          throw new FakeApiError(400, error.message, 'VALIDATION_ERROR');
+        }
+        throw error;
+      });
+      const id = `${++this.sequence}-${image.fileName}`;
+      this.images.set(id, image);
+      res.json({ url: `${this.url}/api/v1/uploads/${encodeURIComponent(id)}` });
+    } catch (error) {
+      this.sendError(res, error);
+    }
+  }
+
+  private launch(body: z.infer<typeof launchBodySchema>, payment?: VerifiedPayment) {
+    let launch: ValidatedLaunchParams;
+    try {
+      // Only hosted URLs reach the backend; files go through /uploads/image first
+      launch = validateLaunchParams(body);
+    } catch (error) {
+      if (error instanceof LaunchValidationError) {
+        throw new FakeApiError(400, error.message, 'VALIDATION_ERROR');
+      }
+      throw error;
+    }
+
+    const token = this.addToken({
+      ...launch,
+      image: launch.image!,
+      creator: payment?.payer || this.backendAddress,
+      initialSupply: BigInt(launch.initialSupply),
+    });
+    return {
+      tokenAddress: token.address,
+      bondingCurveAddress: this.bondingCurveAddress(),
+      transactionHash: this.nextHash('launch'),
+    };
+  }
+
+  private buy(body: z.infer<typeof buyBodySchema>, payment?: VerifiedPayment) {
+    const token = this.getTradableToken(body.tokenAddress);
+    const usdcAmount = toAmount(body.usdcAmount, 'usdcAmount');
+    if (usdcAmount === BigInt(0)) {
+      throw new FakeApiError(400, 'usdcAmount must be positive', 'VALIDATION_ERROR');
+    }
+    const buyer = payment?.payer || this.backendAddress;
+
+    const quote = this.quote(() => token.curve.quoteBuy(usdcAmount));
+    const tokenAmount = BigInt(quote.tokenAmount);
+    token.curve = token.curve.afterBuy(usdcAmount);
+    // The buy amount was paid to the backend with the fee; it forwards it to the curve
+    this.moveUsdc(this.backendAddress, this.bondingCurveAddress(), usdcAmount, true);
+    this.moveToken(token, this.bondingCurveAddress(), buyer, tokenAmount);
+    const trade = this.recordTrade(token, 'buy', buyer, tokenAmount, usdcAmount);
+
+    return {
+      transactionHash: trade.transactionHash,
+      buyer,
+      tokenAddress: token.address,
+      tokenAmount: tokenAmount.toString(),
+      usdcPaid: usdcAmount.toString(),
+      averagePricePerToken: quote.averagePrice,
+      bondingCurveStatus: this.curveStatus(token),
+    };
+  }
+
+  private sell(body: z.infer<typeof sellBodySchema>) {
+    const token = this.getTradableToken(body.tokenAddress);
+    const tokenAmount = toAmount(body.tokenAmount, 'tokenAmount');
+    if (tokenAmount === BigInt(0)) {
+      throw new FakeApiError(400, 'tokenAmount must be positive', 'VALIDATION_ERROR');
+    }
+    if (!ethers.isAddress(body.sellerAddress)) {
+      throw new FakeApiError(400, 'sellerAddress must be an address', 'VALIDATION_ERROR');
+    }
+    const seller = ethers.getAddress(body.sellerAddress);
+    const validAfter = Number(body.validAfter);
+    const validBefore = Number(body.validBefore);
+    const now = Math.floor(Date.now() / 1000);
+    if (!(now >= validAfter && now < validBefore)) {
+      throw new FakeApiError(400, 'Signature expired or not yet valid', 'SIGNATURE_EXPIRED');
+    }
+    if (this.usedNonces.has(body.nonce.toLowerCase())) {
+      throw new FakeApiError(400, 'Nonce already used', 'NONCE_ALREADY_USED');
+    }
+    try {
+      this.checkTransferAuthorization(
+        { name: token.name, version: '1', address: token.address },
+        { from: seller, to: this.backendAddress, value: tokenAmount, validAfter, validBefore, nonce: body.nonce },
+        body.signature
+      );
+    } catch (error) {
+      throw new FakeApiError(400, (error as Error).message, 'INVALID_SIGNATURE');
+    }
+    if (this.getTokenBalance(token.address, seller) < tokenAmount) {
+      throw new FakeApiError(400, 'Transfer amount exceeds balance', 'INSUFFICIENT_BALANCE');
+    }
+
+    const quote = this.quote(() => token.curve.quoteSell(tokenAmount));
+    const usdcAmount = BigInt(quote.usdcAmount);
+    this.usedNonces.add(body.nonce.toLowerCase());
+    token.curve = token.curve.afterSell(tokenAmount);
+    this.moveToken(token, seller, this.bondingCurveAddress(), tokenAmount);
+    this.moveUsdc(this.bondingCurveAddress(), seller, usdcAmount, true);
+    const trade = this.recordTrade(token, 'sell', seller, tokenAmount, usdcAmount);
+
+    return {
+      transactionHash: trade.transactionHash,
+      seller,
+      tokenAddress: token.address,
+      tokenAmount: tokenAmount.toString(),
+      usdcReceived: usdcAmount.toString(),
+      averagePricePerToken: quote.averagePrice,
+      bondingCurveStatus: this.curveStatus(token),
+    };
+  }
+
+  /**
+   * Sign a buy for the payer to send to the curve (the trade itself is not executed here)
+   */
+  private signSelfExecuteBuy(
+    body: z.infer<typeof buyBodySchema>,
+    payment?: VerifiedPayment
+  ): SelfExecuteBuyResponse {
+    const token = this.getTradableToken(body.tokenAddress);
+    const data: SelfExecuteBuyResponse = {
+      signature: '0x',
+      bondingCurveAddress: this.bondingCurveAddress(),
+      usdcAmount: toAmount(body.usdcAmount, 'usdcAmount').toString(),
+      buyerAddress: payment?.payer || this.backendAddress,
+      tokenAddress: token.address,
+      nonce: ethers.hexlify(ethers.randomBytes(32)),
+      expiry: Math.floor(Date.now() / 1000) + SELF_EXECUTE_VALIDITY_SECONDS,
+    };
+    return { ...data, signature: this.signTrade({ side: 'buy', data }) };
+  }
+
+  /**
+   * Sign a sell for the payer to send to the curve (the trade itself is not executed here)
+   */
+  private signSelfExecuteSell(
+    body: z.infer<typeof selfExecuteSellBodySchema>,
+    payment?: VerifiedPayment
+  ): SelfExecuteSellResponse {
+    const token = this.getTradableToken(body.tokenAddress);
+    const data: SelfExecuteSellResponse = {
+      signature: '0x',
+      bondingCurveAddress: this.bondingCurveAddress(),
+      tokenAmount: toAmount(body.tokenAmount, 'tokenAmount').toString(),
+      sellerAddress: payment?.payer || this.backendAddress,
+      tokenAddress: token.address,
+      nonce: ethers.hexlify(ethers.randomBytes(32)),
+      expiry: Math.floor(Date.now() / 1000) + SELF_EXECUTE_VALIDITY_SECONDS,
+    };
+    return { ...data, signature: this.signTrade({ side: 'sell', data }) };
+  }
+
+  private signTrade(trade: SignedTrade): string {
+    return this.backendWallet.signMessageSync(ethers.getBytes(getSignedTradeHash(trade)));
+  }
+
+  private buyQuote(req: Request) {
+    const token = this.getToken(String(req.params.address));
+    const usdcAmount = toAmount(req.query.usdcAmount, 'usdcAmount');
+    return {
+      tokenAddress: token.address,
+      usdcAmount: usdcAmount.toString(),
+      estimatedTokenAmount: this.quote(() => token.curve.quoteBuy(usdcAmount)).tokenAmount,
+      currentPricePerToken: token.curve.price,
+      progress: token.curve.progress,
+    };
+  }
+
+  private sellQuote(req: Request) {
+    const token = this.getToken(String(req.params.address));
+    const tokenAmount = toAmount(req.query.tokenAmount, 'tokenAmount');
+    return {
+      tokenAddress: token.address,
+      tokenAmount: tokenAmount.toString(),
+      estimatedUsdcAmount: this.quote(() => token.curve.quoteSell(tokenAmount)).usdcAmount,
+      currentPricePerToken: token.curve.price,
+      progress: token.curve.progress,
+      note: 'Estimate at the current curve state; the fill may differ',
+    };
+  }
+
+  private listTokens(req: Request) {
+    const query = parseDiscoveryQuery(req.query);
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.min(100, Math.max(1, query.limit || 20));
+    const sortBy = query.sortBy || 'launchTime';
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+
+    const tokens = [...this.tokens.values()]
+      .map((token) => this.toTokenInfo(token))
+      .filter((token) => matchesTokenFilter(token, query))
+      .sort((a, b) => direction * (Number(a[sortBy]) - Number(b[sortBy])));
+    return {
+      tokens: tokens.slice((page - 1) * limit, page * limit),
+      total: tokens.length,
+      page,
+    };
+  }
+
+  private listTrades(req: Request) {
+    const wallet = typeof req.query.wallet === 'string' ? req.query.wallet.toLowerCase() : undefined;
+    const token = typeof req.query.token === 'string' ? req.query.token.toLowerCase() : undefined;
+    const since = req.query.since ? Number(req.query.since) : undefined;
+    return {
+      trades: this.trades.filter(
+        (t) =>
+          (!wallet || t.trader.toLowerCase() === wallet) &&
+          (!token || t.tokenAddress.toLowerCase() === token) &&
+          (since === undefined || t.timestamp >= since)
+      ),
+    };
+  }
+
+  private register(
+    body: z.infer<typeof registerBodySchema>,
+    payment?: VerifiedPayment
+  ): AgentRegistrationResponse {
+    const { agentId, name } = body;
+    if (agentId.length < 3 || agentId.length > 50) {
+      throw new FakeApiError(400, 'agentId must be 3-50 characters', 'VALIDATION_ERROR');
+    }
+    if (name.length < 3 || name.length > 100) {
+      throw new FakeApiError(400, 'name must be 3-100 characters', 'VALIDATION_ERROR');
+    }
+    if (this.registeredAgents.has(agentId)) {
+      throw new FakeApiError(409, `Agent ${agentId} is already registered`, 'AGENT_EXISTS');
+    }
+    // The signed message carries a timestamp the request does not; try the recent past
+    const wallet = payment?.payer;
+    if (wallet && !this.isRegistrationSignature(agentId, wallet, body.signature)) {
+      throw new FakeApiError(401, 'Invalid registration signature', 'INVALID_SIGNATURE');
+    }
+
+    const registration: AgentRegistrationResponse = {
+      agentId,
+      name,
+      walletAddress: wallet || ethers.ZeroAddress,
+      registeredAt: Date.now(),
+      status: 'registered',
+    };
+    this.registeredAgents.set(agentId, registration);
+    return registration;
+  }
+
+  private isRegistrationSignature(agentId: string, wallet: string, signature: unknown): boolean {
+    if (typeof signature !== 'string') return false;
+    const now = Math.floor(Date.now() / 1000);
+    for (let timestamp = now + 5; timestamp >= now - 120; timestamp--) {
+      const message = `x402-launch: Register agent\nAgent ID: ${agentId}\nWallet: ${wallet}\nTimestamp: ${timestamp}`;
+      try {
+        if (ethers.verifyMessage(message, signature).toLowerCase() === wallet.toLowerCase()) {
+          return true;
+        }
+      } catch {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private controlAgent(agentId: string, action: 'pause' | 'resume' | 'stop', payment?: VerifiedPayment) {
+    const hosted = this.getHostedAgent(agentId);
+    if (payment && payment.payer.toLowerCase() !== hosted.ownerAddress.toLowerCase()) {
+      throw new FakeApiError(403, 'Not the owner of this agent', 'FORBIDDEN');
+    }
+    if (hosted.status === 'stopped') {
+      throw new FakeApiError(409, `Agent ${agentId} is stopped`, 'AGENT_STOPPED');
+    }
+    if (action === 'pause') {
+      if (hosted.status !== 'active') {
+        throw new FakeApiError(409, `Agent ${agentId} is not active`, 'INVALID_STATE');
+      }
+      hosted.status = 'paused';
+    } else if (action === 'resume') {
+      if (hosted.status !== 'paused') {
+        throw new FakeApiError(409, `Agent ${agentId} is not paused`, 'INVALID_STATE');
+      }
+      hosted.status = 'active';
+    } else {
+      hosted.status = 'stopped';
+    }
+    return { message: `Agent ${agentId} ${hosted.status}` };
+  }
+
+  private chat(body: z.infer<typeof chatBodySchema>) {
+    const decision = this.options.decide
+      ? this.options.decide(body.messages)
+      : { action: 'wait', params: {}, reasoning: 'FakeLaunchServer default decision', confidence: 1 };
+    return { content: typeof decision === 'string' ? decision : JSON.stringify(decision) };
+  }
+
+  /**
+   * Minimal JSON-RPC: chain ID, block number, ETH and ERC-20 balances and metadata
+   */
+  private rpc(body: unknown): unknown {
+    const parsed = rpcCallSchema.safeParse(body);
+    if (!parsed.success) {
+      return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid request' } };
+    }
+    const call = parsed.data;
+    const reply = (result: unknown) => ({ jsonrpc: '2.0', id: call.id, result });
+    const fail = (code: number, message: string, data?: string) => ({
+      jsonrpc: '2.0',
+      id: call.id,
+      error: { code, message, data },
+    });
+
+    switch (call.method) {
+      case 'eth_chainId':
+        return reply(ethers.toQuantity(this.chainId));
+      case 'net_version':
+        return reply(String(this.chainId));
+      case 'eth_blockNumber':
+        return reply(ethers.toQuantity(this.blockNumber));
+      case 'eth_getBalance':
+        return reply(ethers.toQuantity(this.ethBalances.get(String(call.params[0]).toLowerCase()) || 0));
+      case 'eth_getLogs':
+        return reply([]);
+      case 'eth_getBlockByNumber':
+        return reply(this.block());
+      case 'eth_call': {
+        const request = ethCallSchema.safeParse(call.params[0]);
+        if (!request.success) {
+          return fail(-32602, 'Invalid params');
+        }
+        const result = this.call(request.data.to, request.data.data);
+        return result === null ? fail(3, 'execution reverted', '0x') : reply(result);
+      }
+      default:
+        return fail(-32601, `Method ${call.method} is not supported by FakeLaunchServer`);
+    }
+  }
+
+  private call(to: string, data: string): string | null {
+    if (typeof to === 'string' && to.toLowerCase() === this.bondingCurveAddress().toLowerCase()) {
+      return this.callBondingCurve(data);
+    }
+
+    let parsed: ethers.TransactionDescription | null;
+    try {
+      parsed = ERC20_READ_INTERFACE.parseTransaction({ data });
+    } catch {
+      return null;
+    }
+    if (!parsed || !ethers.isAddress(to)) return null;
+
+    const isUsdc = to.toLowerCase() === this.usdc.address.toLowerCase();
+    const token = this.tokens.get(to.toLowerCase());
+    if (!isUsdc && !token) return null;
+
+    const encode = (value: unknown) =>
+      ERC20_READ_INTERFACE.encodeFunctionResult(parsed!.fragment, [value]);
+    switch (parsed.name) {
+      case 'balanceOf':
+        return encode(
+          isUsdc ? this.getUsdcBalance(parsed.args[0]) : token!.balances.get(parsed.args[0].toLowerCase()) || 0
+        );
+      case 'allowance':
+        return encode(0);
+      case 'totalSupply':
+        return encode(isUsdc ? 0 : token!.totalSupply);
+      case 'name':
+        return encode(isUsdc ? this.usdc.name : token!.name);
+      case 'symbol':
+        return encode(isUsdc ? 'USDC' : token!.ticker);
+      case 'decimals':
+        return encode(isUsdc ? 6 : 18);
+      case 'version':
+        return encode(isUsdc ? this.usdc.version : '1');
+      default:
+        return null;
+    }
+  }
+
+  private callBondingCurve(data: string): string | null {
+    let parsed: ethers.TransactionDescription | null;
+    try {
+      parsed = bondingCurveStateInterface.parseTransaction({ data });
+    } catch {
+      return null;
+    }
+    const token = parsed && this.tokens.get(String(parsed.args[0]).toLowerCase());
+    if (!parsed || !token) return null;
+
+    const { curve } = token;
+    return bondingCurveStateInterface.encodeFunctionResult(parsed.fragment, [
+      curve.virtualUsdcReserve,
+      curve.virtualTokenReserve,
+      curve.tokensSold,
+      curve.curveSupply,
+      curve.usdcRaised,
+      curve.migrated,
+    ]);
+  }
+
+  private block() {
+    return {
+      number: ethers.toQuantity(this.blockNumber),
+      hash: ethers.zeroPadValue(ethers.toBeHex(this.blockNumber), 32),
+      parentHash: ethers.zeroPadValue(ethers.toBeHex(this.blockNumber - 1), 32),
+      timestamp: ethers.toQuantity(Math.floor(Date.now() / 1000)),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.toQuantity(30000000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: ethers.toQuantity(1000000),
+      transactions: [],
+    };
+  }
+
+  private addToken(params: {
+    name: string;
+    ticker: string;
+    description: string;
+    image: string;
+    creator: string;
+    initialSupply: bigint;
+    website?: string;
+    twitter?: string;
+    telegram?: string;
+    discord?: string;
+  }): FakeToken {
+    const address = ethers.getAddress(
+      ethers.dataSlice(ethers.solidityPackedKeccak256(['string', 'uint256'], ['fake-token', ++this.sequence]), 12)
+    );
+    const percent = this.options.curveSupplyPercent ?? 80;
+    const token: FakeToken = {
+      address,
+      creator: ethers.getAddress(params.creator),
+      name: params.name,
+      ticker: params.ticker,
+      description: params.description,
+      image: params.image,
+      website: params.website,
+      twitter: params.twitter,
+      telegram: params.telegram,
+      discord: params.discord,
+      launchTime: Date.now(),
+      totalSupply: params.initialSupply,
+      curve: new BondingCurveModel({
+        tokenAddress: address,
+        virtualUsdcReserve: this.initialVirtualUsdc().toString(),
+        virtualTokenReserve: params.initialSupply.toString(),
+        tokensSold: '0',
+        curveSupply: ((params.initialSupply * BigInt(percent)) / BigInt(100)).toString(),
+        usdcRaised: '0',
+        migrated: false,
+      }),
+      balances: new Map([[this.bondingCurveAddress().toLowerCase(), params.initialSupply]]),
+    };
+    this.tokens.set(address.toLowerCase(), token);
+    this.blockNumber++;
+    return token;
+  }
+
+  private getToken(address: unknown): FakeToken {
+    const token = typeof address === 'string' ? this.tokens.get(address.toLowerCase()) : undefined;
+    if (!token) {
+      throw new FakeApiError(404, `Token ${address} not found`, 'TOKEN_NOT_FOUND');
+    }
+    return token;
+  }
+
+  private getTradableToken(address: unknown): FakeToken {
+    const token = this.getToken(address);
+    if (token.curve.migrated) {
+      throw new FakeApiError(400, 'Bonding curve is complete; the token has migrated', 'CURVE_COMPLETED');
+    }
+    return token;
+  }
+
+  private getHostedAgent(agentId: string): Required<HostedAgentStatus> {
+    const hosted = this.hostedAgents.get(agentId);
+    if (!hosted) {
+      throw new FakeApiError(404, `Hosted agent ${agentId} not found`, 'AGENT_NOT_FOUND');
+    }
+    return hosted;
+  }
+
+  /**
+   * Run a curve quote; curve errors become 400 responses with the revert wording
+   */
+  private quote<T>(run: () => T): T {
+    try {
+      return run();
+    } catch (error) {
+      if (error instanceof InsufficientLiquidityError) {
+        throw new FakeApiError(400, error.message, 'INSUFFICIENT_LIQUIDITY');
+      }
+      if (error instanceof CurveCompletedError) {
+        throw new FakeApiError(400, error.message, 'CURVE_COMPLETED');
+      }
+      throw error;
+    }
+  }
+
+  private initialVirtualUsdc(): bigint {
+    return this.options.virtualUsdcReserve ? BigInt(this.options.virtualUsdcReserve) : DEFAULT_VIRTUAL_USDC;
+  }
+
+  private curveStatus(token: FakeToken) {
+    return {
+      tokensSold: token.curve.tokensSold.toString(),
+      totalUSDCRaised: token.curve.usdcRaised.toString(),
+      currentPrice: token.curve.price,
+      progress: token.curve.progress,
+    };
+  }
+
+  private toTokenInfo(token: FakeToken): TokenInfo {
+    const price = Number(token.curve.price);
+    const dayAgo = Date.now() - 24 * 3600_000;
+    const volume = this.trades
+      .filter((t) => t.tokenAddress === token.address && t.timestamp >= dayAgo)
+      .reduce((sum, t) => sum + BigInt(t.usdcAmount), BigInt(0));
+
+    return {
+      address: token.address,
+      creator: token.creator,
+      name: token.name,
+      ticker: token.ticker,
+      totalSupply: token.totalSupply.toString(),
+      price: token.curve.price,
+      marketCap: (price * Number(ethers.formatUnits(token.totalSupply, 18))).toFixed(6),
+      volume24h: ethers.formatUnits(volume, 6),
+      priceMovement: {
+        change1m: this.priceChange(token, price, 60_000),
+        change5m: this.priceChange(token, price, 5 * 60_000),
+        change4h: this.priceChange(token, price, 4 * 3600_000),
+        change8h: this.priceChange(token, price, 8 * 3600_000),
+        change12h: this.priceChange(token, price, 12 * 3600_000),
+        change1d: this.priceChange(token, price, 24 * 3600_000),
+      },
+      progress: token.curve.progress,
+      migrated: token.curve.migrated,
+      description: token.description,
+      image: token.image,
+      website: token.website,
+      twitter: token.twitter,
+      telegram: token.telegram,
+      discord: token.discord,
+      launchTime: token.launchTime,
+    };
+  }
+
+  /**
+   * Percent change against the price at the start of the window
+   */
+  private priceChange(token: FakeToken, current: number, windowMs: number): number {
+    const since = Date.now() - windowMs;
+    const trades = this.trades.filter((t) => t.tokenAddress === token.address);
+    const before = trades.filter((t) => t.timestamp < since).pop();
+    const initial = Number(formatCurvePrice(this.initialVirtualUsdc(), token.totalSupply));
+    const start = before ? Number(before.price) : initial;
+    return start > 0 ? Math.round(((current - start) / start) * 10000) / 100 : 0;
+  }
+
+  private recordTrade(
+    token: FakeToken,
+    side: 'buy' | 'sell',
+    trader: string,
+    tokenAmount: bigint,
+    usdcAmount: bigint
+  ): FakeTrade {
+    const trade: FakeTrade = {
+      side,
+      tokenAddress: token.address,
+      trader,
+      tokenAmount: tokenAmount.toString(),
+      usdcAmount: usdcAmount.toString(),
+      price: token.curve.price,
+      timestamp: Date.now(),
+      transactionHash: this.nextHash(side),
+      blockNumber: ++this.blockNumber,
+    };
+    this.trades.push(trade);
+    return trade;
+  }
+
+  private moveUsdc(from: string, to: string, amount: bigint, allowNegative = false): void {
+    const balance = this.getUsdcBalance(from);
+    if (!allowNegative && balance < amount) {
+      throw new FakeApiError(400, 'Transfer amount exceeds balance', 'INSUFFICIENT_BALANCE');
+    }
+    this.usdcBalances.set(from.toLowerCase(), balance - amount);
+    this.fundUsdc(to, amount);
+  }
+
+  private moveToken(token: FakeToken, from: string, to: string, amount: bigint): void {
+    const fromKey = from.toLowerCase();
+    const toKey = to.toLowerCase();
+    token.balances.set(fromKey, (token.balances.get(fromKey) || BigInt(0)) - amount);
+    token.balances.set(toKey, (token.balances.get(toKey) || BigInt(0)) + amount);
+  }
+
+  private bondingCurveAddress(): string {
+    return getNetwork(this.chainId).contracts?.bondingCurve ||
+      ethers.getAddress(ethers.dataSlice(ethers.id('fake-bonding-curve'), 12));
+  }
+
+  private nextHash(kind: string): string {
+    return ethers.solidityPackedKeccak256(['string', 'uint256'], [kind, ++this.sequence]);
+  }
+}
+
+/**
+ * Check a request body; a mismatch is a 400 naming the first bad field
+ */
+function parseBody<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, body: unknown): T {
+  const result = schema.safeParse(body ?? {});
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new FakeApiError(400, `${issue.path.join('.') || 'body'}: ${issue.message}`, 'VALIDATION_ERROR');
+  }
+  return result.data;
+}
+
+function toAmount(value: unknown, field: string): bigint {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    throw new FakeApiError(400, `${field} is required`, 'VALIDATION_ERROR');
+  }
+  const text = String(value);
+  if (!/^\d+$/.test(text)) {
+    throw new FakeApiError(400, `${field} must be an integer amount in atomic units`, 'VALIDATION_ERROR');
+  }
+  return BigInt(text);
+}
+
+/**
+ * Discovery query parameters arrive as strings
+ */
+function parseDiscoveryQuery(query: Request['query']): DiscoverTokensOptions {
+  const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+  const number = (key: string) => (text(key) !== undefined ? Number(text(key)) : undefined);
+  const sortBy = text('sortBy');
+  return {
+    page: number('page'),
+    limit: number('limit'),
+    sortBy:
+      sortBy === 'marketCap' || sortBy === 'volume24h' || sortBy === 'launchTime' ? sortBy : undefined,
+    sortOrder: text('sortOrder') === 'asc' ? 'asc' : 'desc',
+    minProgress: number('minProgress'),
+    maxProgress: number('maxProgress'),
+    migrated: text('migrated') !== undefined ? text('migrated') === 'true' : undefined,
+    creator: text('creator'),
+    minVolume24h: number('minVolume24h'),
+    minMarketCap: number('minMarketCap'),
+    launchedAfter: number('launchedAfter'),
+    launchedBefore: number('launchedBefore'),
+    search: text('search'),
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Offline testing utilities
+ *
+ * Run X402LaunchClient and AgentRunner end to end without the network.
+ */
+
+export * from './fake-launch-server';
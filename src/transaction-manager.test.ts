@@ -0,0 +1,88 @@
+import { ethers } from 'ethers';
+import { TransactionTimeoutError, X402LaunchError } from './errors';
+import type { AgentPadSigner } from './signer';
+import { TransactionManager, TransactionManagerConfig } from './transaction-manager';
+
+const WALLET = '0x00000000000000000000000000000000000000bb';
+const CURVE = '0x00000000000000000000000000000000000000cc';
+
+function setup(config: TransactionManagerConfig) {
+  const chain = { minedNonce: 0 };
+  const sent: ethers.TransactionRequest[] = [];
+  const signer = {
+    address: WALLET,
+    getAddress: async () => WALLET,
+    sendTransaction: async (tx: ethers.TransactionRequest) => {
+      sent.push(tx);
+      return { hash: ethers.zeroPadValue(ethers.toBeHex(sent.length), 32) };
+    },
+  } as unknown as AgentPadSigner;
+  const provider = {
+    getTransactionCount: async () => chain.minedNonce,
+    estimateGas: async () => BigInt(50000),
+    getFeeData: async () => ({ maxFeePerGas: BigInt(100), maxPriorityFeePerGas: BigInt(2) }),
+    getBlock: async () => ({ baseFeePerGas: BigInt(50) }),
+    getTransactionReceipt: async () => null,
+  } as unknown as ethers.Provider;
+
+  const manager = new TransactionManager(signer, provider, {
+    pollIntervalMs: 5,
+    confirmationTimeoutMs: 100,
+    speedUpAfterMs: 60000,
+    ...config,
+  });
+  return { manager, chain, sent };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 2));
+  }
+}
+
+describe('TransactionManager', () => {
+  const trade = { to: CURVE, data: '0x1234' };
+
+  it('keeps a timed-out transaction pending so it can be sped up', async () => {
+    const { manager, sent } = setup({});
+
+    const error = await manager.send(trade, 'buy').catch((e) => e);
+    expect(error).toBeInstanceOf(TransactionTimeoutError);
+
+    const [hash] = manager.getPendingTransactions();
+    expect(hash).toBe(error.transactionHashes[0]);
+    const replacement = await manager.speedUp(hash);
+
+    expect(sent[1]).toMatchObject({ to: CURVE, data: '0x1234', nonce: 0 });
+    expect(manager.getPendingTransactions()).toEqual([hash, replacement]);
+  });
+
+  it('resends the cancellation, not the trade, on automatic speed-up', async () => {
+    const { manager, sent } = setup({ speedUpAfterMs: 30, maxSpeedUps: 1, confirmationTimeoutMs: 150 });
+
+    const sending = manager.send(trade, 'buy').catch((e) => e);
+    await waitFor(() => sent.length === 1);
+    await manager.cancel(manager.getPendingTransactions()[0]);
+    await waitFor(() => sent.length === 3);
+
+    expect(sent[1]).toMatchObject({ to: WALLET, data: '0x', nonce: 0 });
+    expect(sent[2]).toMatchObject({ to: WALLET, data: '0x', nonce: 0 });
+    expect(BigInt(sent[2].maxFeePerGas!)).toBeGreaterThan(BigInt(sent[1].maxFeePerGas!));
+    expect(await sending).toBeInstanceOf(TransactionTimeoutError);
+  });
+
+  it('forgets transactions once their nonce is mined', async () => {
+    const { manager, chain } = setup({});
+
+    await manager.send(trade, 'buy').catch(() => undefined);
+    const [hash] = manager.getPendingTransactions();
+    chain.minedNonce = 1;
+
+    const error = await manager.speedUp(hash).catch((e) => e);
+    expect(error).toBeInstanceOf(X402LaunchError);
+    expect(error.code).toBe('TRANSACTION_NOT_PENDING');
+    expect(manager.getPendingTransactions()).toEqual([]);
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Transaction Manager
+ *
+ * Sends on-chain writes for self-execute mode: local nonce assignment so
+ * concurrent trades don't collide, capped EIP-1559 fees, confirmation
+ * timeouts, automatic speed-up of stuck transactions and typed errors for
+ * reverts.
+ */
+
+import { ethers } from 'ethers';
+import {
+  TransactionRevertedError,
+  TransactionTimeoutError,
+  X402LaunchError,
+} from './errors';
+import { AgentPadSigner, toContractRunner } from './signer';
+import { createRevertError, decodeRevert } from './revert-decoder';
+import { Logger, noopLogger } from './logger';
+
+export interface TransactionManagerConfig {
+  maxFeePerGas?: string; // Cap in wei (default: no cap)
+  maxPriorityFeePerGas?: string; // Cap in wei (default: no cap)
+  gasLimitBufferBps?: number; // Added on top of the gas estimate (default: 2000 = +20%)
+  confirmations?: number; // Default: 1
+  confirmationTimeoutMs?: number; // Give up after this long (default: 180000)
+  speedUpAfterMs?: number; // Replace with higher fees when pending this long (default: 45000)
+  maxSpeedUps?: number; // Default: 2
+  feeBumpBps?: number; // Fee increase per replacement (default: 1250 = +12.5%, the usual node minimum)
+  pollIntervalMs?: number; // Receipt polling interval (default: 2000)
+}
+
+/**
+ * Outcome of a dry run: eth_call plus gas and fee estimates, nothing signed or sent
+ */
+export interface TransactionSimulation {
+  success: boolean;
+  returnData?: string; // Raw eth_call result
+  gasLimit?: bigint; // Estimate plus gasLimitBufferBps
+  maxFeePerGas?: bigint; // After the configured cap
+  revertReason?: string;
+  revertData?: string;
+  error?: string; // e.g. the base fee is above the cap
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface PendingTransaction {
+  nonce: number;
+  request: ethers.TransactionRequest;
+  fees: Fees;
+  hashes: string[]; // Original first, then replacements
+  label: string;
+}
+
+const DEFAULTS = {
+  gasLimitBufferBps: 2000,
+  confirmations: 1,
+  confirmationTimeoutMs: 180000,
+  speedUpAfterMs: 45000,
+  maxSpeedUps: 2,
+  feeBumpBps: 1250,
+  pollIntervalMs: 2000,
+};
+
+const BPS = BigInt(10000);
+
+export class TransactionManager {
+  private signer: AgentPadSigner;
+  private provider: ethers.Provider;
+  private runner: ethers.ContractRunner;
+  private config: TransactionManagerConfig & typeof DEFAULTS;
+  private address?: string;
+  private nextNonce?: number;
+  private nonceQueue: Promise<unknown> = Promise.resolve();
+  private pending = new Map<string, PendingTransaction>();
+  private logger: Logger;
+
+  constructor(
+    signer: AgentPadSigner,
+    provider: ethers.Provider,
+    config: TransactionManagerConfig = {},
+    logger: Logger = noopLogger
+  ) {
+    this.logger = logger.child({ component: 'TransactionManager' });
+    this.signer = signer;
+    this.provider = provider;
+    this.runner = toContractRunner(signer, provider);
+    this.config = { ...DEFAULTS, ...stripUndefined(config) };
+  }
+
+  /**
+   * Send a transaction and wait for it to be confirmed
+   *
+   * @param request Transaction to send (to, data, value); nonce, gas and fees are filled in
+   * @param label Used in logs and errors (e.g. 'approve', 'buy')
+   * @returns The confirmed receipt (of the replacement, if one was mined)
+   * @throws {TransactionRevertedError} If gas estimation or the mined transaction reverted
+   * @throws {TransactionTimeoutError} If nothing was confirmed within confirmationTimeoutMs
+   */
+  async send(
+    request: ethers.TransactionRequest,
+    label = 'transaction'
+  ): Promise<ethers.TransactionReceipt> {
+    const from = await this.getAddress();
+    await this.prunePending();
+    const gasLimit = request.gasLimit ?? (await this.estimateGas({ ...request, from }, label));
+    const fees = await this.getFees();
+
+    const pendingTx = await this.withNonce(async (nonce) => {
+      const prepared: ethers.TransactionRequest = {
+        ...request,
+        from,
+        nonce,
+        gasLimit,
+        type: 2,
+      };
+      const response = await this.broadcast(prepared, fees);
+      const entry: PendingTransaction = {
+        nonce,
+        request: prepared,
+        fees,
+        hashes: [response.hash],
+        label,
+      };
+      this.pending.set(response.hash, entry);
+      this.logger.info('Sent transaction', { label, nonce, hash: response.hash });
+      return entry;
+    });
+
+    // Stays pending after a timeout, so it can still be sped up or cancelled
+    return this.waitForConfirmation(pendingTx);
+  }
+
+  /**
+   * Dry-run a transaction with eth_call and estimate its gas and fees
+   *
+   * Nothing is signed or broadcast and no nonce is used.
+   *
+   * @param request Transaction to simulate (to, data, value)
+   * @param label Used in revert messages
+   */
+  async simulate(
+    request: ethers.TransactionRequest,
+    label = 'transaction'
+  ): Promise<TransactionSimulation> {
+    const from = await this.getAddress();
+    let returnData: string;
+    let gasLimit: bigint;
+    try {
+      returnData = await this.provider.call({ ...request, from });
+      gasLimit = request.gasLimit
+        ? BigInt(request.gasLimit)
+        : await this.estimateGas({ ...request, from }, label);
+    } catch (error: any) {
+      if (error instanceof TransactionRevertedError) {
+        return { success: false, revertReason: error.reason, revertData: error.revertData };
+      }
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        const revertData = error.data || undefined;
+        return {
+          success: false,
+          revertReason: decodeRevert({ data: revertData, reason: error.reason || error.shortMessage }).reason,
+          revertData,
+        };
+      }
+      throw error;
+    }
+
+    try {
+      const fees = await this.getFees();
+      return { success: true, returnData, gasLimit, maxFeePerGas: fees.maxFeePerGas };
+    } catch (error: any) {
+      if (error instanceof X402LaunchError) {
+        return { success: false, returnData, gasLimit, error: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a pending transaction with the same one at higher fees
+   *
+   * @returns Hash of the replacement
+   */
+  async speedUp(transactionHash: string): Promise<string> {
+    const entry = await this.getPending(transactionHash);
+    return this.replace(entry, entry.request);
+  }
+
+  /**
+   * Replace a pending transaction with an empty self-transfer at higher fees
+   *
+   * Later speed-ups (manual or automatic) resend the cancellation.
+   *
+   * @returns Hash of the cancelling transaction
+   */
+  async cancel(transactionHash: string): Promise<string> {
+    const entry = await this.getPending(transactionHash);
+    const from = await this.getAddress();
+    const cancellation: ethers.TransactionRequest = {
+      from,
+      to: from,
+      value: BigInt(0),
+      data: '0x',
+      nonce: entry.nonce,
+      gasLimit: BigInt(21000),
+      type: 2,
+    };
+    const hash = await this.replace(entry, cancellation);
+    entry.request = cancellation;
+    entry.label = `${entry.label} (cancel)`;
+    return hash;
+  }
+
+  /**
+   * Forget the local nonce and re-read it from the chain on the next send
+   * (e.g. after sending transactions from the same wallet elsewhere)
+   */
+  resetNonce(): void {
+    this.nextNonce = undefined;
+  }
+
+  /**
+   * Hashes of transactions sent by this manager that are not known to be mined,
+   * including ones that timed out
+   */
+  getPendingTransactions(): string[] {
+    return [...this.pending.keys()];
+  }
+
+  private async getAddress(): Promise<string> {
+    if (!this.address) {
+      this.address = ethers.getAddress(this.signer.address || (await this.signer.getAddress()));
+    }
+    return this.address;
+  }
+
+  /**
+   * Assign nonces one at a time; the local counter is resynced with the
+   * chain's pending count so transactions sent elsewhere are not reused
+   */
+  private withNonce<T>(use: (nonce: number) => Promise<T>): Promise<T> {
+    const run = this.nonceQueue.then(async () => {
+      const chainNonce = await this.provider.getTransactionCount(await this.getAddress(), 'pending');
+      const nonce = Math.max(chainNonce, this.nextNonce ?? 0);
+      try {
+        const result = await use(nonce);
+        this.nextNonce = nonce + 1;
+        return result;
+      } catch (error) {
+        // Not broadcast - let the next send resync from the chain
+        this.nextNonce = undefined;
+        throw error;
+      }
+    });
+    this.nonceQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async estimateGas(request: ethers.TransactionRequest, label: string): Promise<bigint> {
+    try {
+      const estimate = await this.provider.estimateGas(request);
+      return estimate + (estimate * BigInt(this.config.gasLimitBufferBps)) / BPS;
+    } catch (error: any) {
+      if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw createRevertError(`${label} would revert`, {
+          reason: error.reason || error.shortMessage,
+          data: error.data || undefined,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Current EIP-1559 fees, capped by the config
+   */
+  private async getFees(): Promise<Fees> {
+    const [feeData, block] = await Promise.all([
+      this.provider.getFeeData(),
+      this.provider.getBlock('latest'),
+    ]);
+
+    let maxFeePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0);
+    let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? BigInt(0);
+
+    if (this.config.maxPriorityFeePerGas !== undefined) {
+      maxPriorityFeePerGas = minBigInt(maxPriorityFeePerGas, BigInt(this.config.maxPriorityFeePerGas));
+    }
+    if (this.config.maxFeePerGas !== undefined) {
+      const cap = BigInt(this.config.maxFeePerGas);
+      const baseFee = block?.baseFeePerGas ?? BigInt(0);
+      if (baseFee > cap) {
+        throw new X402LaunchError(
+          `Base fee ${baseFee} wei is above the maxFeePerGas cap ${cap} wei - not sending`,
+          'FEE_CAP_EXCEEDED'
+        );
+      }
+      maxFeePerGas = minBigInt(maxFeePerGas, cap);
+    }
+
+    return {
+      maxFeePerGas,
+      maxPriorityFeePerGas: minBigInt(maxPriorityFeePerGas, maxFeePerGas),
+    };
+  }
+
+  private async broadcast(
+    request: ethers.TransactionRequest,
+    fees: Fees
+  ): Promise<ethers.TransactionResponse> {
+    if (!this.runner.sendTransaction) {
+      throw new X402LaunchError('Signer cannot send transactions', 'SIGNER_CANNOT_SEND');
+    }
+    return this.runner.sendTransaction({ ...request, ...fees });
+  }
+
+  private async waitForConfirmation(entry: PendingTransaction): Promise<ethers.TransactionReceipt> {
+    const startedAt = Date.now();
+    let lastSend = startedAt;
+    let speedUps = 0;
+
+    while (Date.now() - startedAt < this.config.confirmationTimeoutMs) {
+      for (const hash of entry.hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (!receipt) continue;
+        if ((await receipt.confirmations()) < this.config.confirmations) continue;
+
+        this.forget(entry);
+        if (receipt.status !== 1) {
+          throw await this.revertError(entry, receipt);
+        }
+        this.logger.info('Transaction confirmed', {
+          label: entry.label,
+          hash,
+          blockNumber: receipt.blockNumber,
+        });
+        return receipt;
+      }
+
+      if (
+        speedUps < this.config.maxSpeedUps &&
+        Date.now() - lastSend >= this.config.speedUpAfterMs
+      ) {
+        try {
+          await this.replace(entry, entry.request);
+          speedUps++;
+        } catch (error: any) {
+          // The original may have been mined meanwhile ("nonce too low") - keep polling
+          this.logger.warn('Speed-up failed', { label: entry.label, error: error.message });
+        }
+        lastSend = Date.now();
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.config.pollIntervalMs));
+    }
+
+    throw new TransactionTimeoutError([...entry.hashes], entry.nonce, this.config.confirmationTimeoutMs);
+  }
+
+  /**
+   * Resend with the same nonce and fees bumped by feeBumpBps (and at least the current estimate)
+   */
+  private async replace(entry: PendingTransaction, request: ethers.TransactionRequest): Promise<string> {
+    const current = await this.getFees();
+    const bump = (fee: bigint) => fee + (fee * BigInt(this.config.feeBumpBps)) / BPS;
+    const fees: Fees = {
+      maxFeePerGas: maxBigInt(bump(entry.fees.maxFeePerGas), current.maxFeePerGas),
+      maxPriorityFeePerGas: maxBigInt(
+        bump(entry.fees.maxPriorityFeePerGas),
+        current.maxPriorityFeePerGas
+      ),
+    };
+
+    if (this.config.maxFeePerGas !== undefined && fees.maxFeePerGas > BigInt(this.config.maxFeePerGas)) {
+      throw new X402LaunchError(
+        `Replacing ${entry.label} needs maxFeePerGas ${fees.maxFeePerGas} wei, above the cap ${this.config.maxFeePerGas} wei`,
+        'FEE_CAP_EXCEEDED'
+      );
+    }
+
+    const response = await this.broadcast({ ...request, nonce: entry.nonce }, fees);
+    entry.fees = fees;
+    entry.hashes.push(response.hash);
+    this.pending.set(response.hash, entry);
+    this.logger.info('Replaced transaction', {
+      label: entry.label,
+      nonce: entry.nonce,
+      hash: response.hash,
+      maxFeePerGas: fees.maxFeePerGas,
+    });
+    return response.hash;
+  }
+
+  /**
+   * Build a revert error, replaying the call to recover the revert reason
+   */
+  private async revertError(
+    entry: PendingTransaction,
+    receipt: ethers.TransactionReceipt
+  ): Promise<TransactionRevertedError> {
+    let reason: string | undefined;
+    let revertData: string | undefined;
+    try {
+      await this.provider.call({ ...entry.request, blockTag: receipt.blockNumber });
+    } catch (error: any) {
+      reason = error.reason || undefined;
+      revertData = error.data || undefined;
+    }
+    return createRevertError(
+      `${entry.label} reverted in block ${receipt.blockNumber} (tx ${receipt.hash})`,
+      { reason, data: revertData, transactionHash: receipt.hash }
+    );
+  }
+
+  /**
+   * Drop entries whose nonce is used by a mined transaction (the original, a
+   * replacement or one sent elsewhere)
+   */
+  private async prunePending(): Promise<void> {
+    if (this.pending.size === 0) return;
+    const minedNonce = await this.provider.getTransactionCount(await this.getAddress(), 'latest');
+    for (const entry of new Set(this.pending.values())) {
+      if (entry.nonce < minedNonce) this.forget(entry);
+    }
+  }
+
+  private forget(entry: PendingTransaction): void {
+    entry.hashes.forEach((hash) => this.pending.delete(hash));
+  }
+
+  private async getPending(transactionHash: string): Promise<PendingTransaction> {
+    await this.prunePending();
+    const entry = this.pending.get(transactionHash);
+    if (!entry) {
+      throw new X402LaunchError(
+        `Transaction ${transactionHash} is not pending in this manager`,
+        'TRANSACTION_NOT_PENDING'
+      );
+    }
+    return entry;
+  }
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
@@ -2,6 +2,17 @@
  * Type definitions for x402-Launch SDK
  */
 
+import { WalletConfig } from './signer';
+import { PaymentPolicy, PaymentPolicyConfig } from './payment-policy';
+import { PaymentLedger, PaymentLedgerStorage } from './payment-ledger';
+import { OperationJournal, OperationJournalStorage } from './operation-journal';
+import { TransactionManagerConfig } from './transaction-manager';
+import { AllowanceStrategy } from './allowance';
+import { Logger } from './logger';
+import { ClientMiddleware } from './middleware';
+import type { ResponseValidationMode } from './schemas';
+import type { ImageStorageAdapter, LaunchImageFile } from './launch-metadata';
+
 /**
  * Transaction execution mode
  * - gasless: Backend pays gas, x402 fee (0.01 USDC for buy/sell on testnet)
@@ -10,28 +21,44 @@
 export type ExecutionMode = 'gasless' | 'self-execute';
 
 export interface ClientConfig {
-  wallet: {
-    privateKey: string;
-  };
+  wallet: WalletConfig; // { privateKey } or { signer, address? } for external signers
   // Optional: Override defaults if needed
   baseUrl?: string; // Default: 'https://api.launch.x402agentpad.io'
   apiPrefix?: string; // Default: 'api/v1'
-  rpcUrl?: string; // RPC endpoint for blockchain queries (default: public RPC)
-  chainId?: number; // Chain ID (default: 84532 for Base Sepolia)
-  network?: string; // Network name (default: 'base-sepolia')
+  rpcUrl?: string; // RPC endpoint for blockchain queries (default: first RPC of the registered network)
+  chainId?: number; // Chain ID (default: 84532 for Base Sepolia; must be registered, see registerNetwork)
+  network?: string; // Network name (default: the registered x402 network id, e.g. 'base-sepolia')
   executionMode?: ExecutionMode; // Default: 'gasless'
+  paymentPolicy?: PaymentPolicy | PaymentPolicyConfig; // Spend limits for automatic x402 payments
+  paymentLedger?: PaymentLedger | PaymentLedgerStorage; // Where signed payments are recorded (default: in-memory)
+  operationJournal?: OperationJournal | OperationJournalStorage; // Where API writes are journaled by idempotency key (default: in-memory)
+  maxSellChunk?: string; // Max tokens per gasless sell (default: facilitator limit 999999999999999999)
+  backendAddressTtlMs?: number; // How long the sell recipient address is cached (default: 10 minutes)
+  maxSlippageBps?: number; // Default slippage limit for trades that don't set their own
+  transactions?: TransactionManagerConfig; // Gas caps, timeouts and speed-ups for self-execute
+  allowanceStrategy?: AllowanceStrategy; // How self-execute trades approve the bonding curve (default: 'exact')
+  allowanceCap?: string; // Amount approved at once with the 'capped' strategy (atomic units)
+  backendSigner?: string; // Check self-execute signatures against this signer (default: not checked, logs a warning)
+  minExpiryBufferSeconds?: number; // Time a signature must still be valid to be broadcast (default: 60)
+  logger?: Logger; // Structured logger for SDK output (default: silent)
+  middleware?: ClientMiddleware[]; // Hooks around every API request (headers, tracing, timing)
+  responseValidation?: ResponseValidationMode; // Check API responses against their schemas (default: 'strict')
+  imageStorage?: ImageStorageAdapter; // Where launch images are uploaded (default: the platform upload endpoint)
 }
 
 export interface LaunchTokenParams {
-  name: string;
-  ticker: string; // 3-10 uppercase letters (API uses 'ticker', not 'symbol')
+  name: string; // 1-32 characters
+  ticker: string; // 3-10 letters or numbers, uppercased (API uses 'ticker', not 'symbol')
   description: string; // 10-500 characters
-  image: string; // Valid URL (required)
-  initialSupply?: string; // Optional, defaults to 10M if not provided
-  website?: string; // Optional
-  twitter?: string; // Optional
-  telegram?: string; // Optional
-  discord?: string; // Optional
+  image?: string; // Hosted http(s) URL; either this or imageFile is required
+  imageFile?: LaunchImageFile; // Image bytes or a local file, uploaded before launch
+  initialSupply?: string; // Token atomic units, 1 to 1T tokens (default: 10M tokens)
+  website?: string; // Optional http(s) URL
+  twitter?: string; // Optional twitter.com / x.com URL
+  telegram?: string; // Optional t.me URL
+  discord?: string; // Optional discord.gg / discord.com URL
+  idempotencyKey?: string; // Reused across retries so the launch happens once (default: random)
+  simulate?: boolean; // Return a SimulationResult instead of launching
 }
 
 export interface LaunchTokenResponse {
@@ -43,6 +70,10 @@ export interface LaunchTokenResponse {
 export interface BuyTokensParams {
   tokenAddress: string;
   usdcAmount: string; // In USDC atomic units (6 decimals)
+  minTokensOut?: string; // Refuse the trade if fewer tokens would be received
+  maxSlippageBps?: number; // Max shortfall vs. the quote, in basis points (100 = 1%)
+  idempotencyKey?: string; // Reused across retries so the buy happens once (default: random)
+  simulate?: boolean; // Return a SimulationResult instead of trading
 }
 
 export interface BuyTokensResponse {
@@ -63,10 +94,14 @@ export interface BuyTokensResponse {
 export interface SellTokensParams {
   tokenAddress: string;
   tokenAmount: string; // In token atomic units (18 decimals)
+  minUsdcOut?: string; // Refuse the trade if less USDC would be received
+  maxSlippageBps?: number; // Max shortfall vs. the quote, in basis points (100 = 1%)
+  idempotencyKey?: string; // Reused across retries so the sell happens once; chunks use `${key}:${index}`
+  simulate?: boolean; // Return a SimulationResult instead of trading
 }
 
 export interface SellTokensResponse {
-  transactionHash: string;
+  transactionHash: string; // Last transaction when the sell was split into chunks
   seller: string;
   tokenAddress: string;
   tokenAmount: string;
@@ -78,6 +113,24 @@ export interface SellTokensResponse {
     currentPrice: string;
     progress: number;
   };
+  // Only present when the amount exceeded the facilitator limit and was split
+  requestedTokenAmount?: string;
+  chunks?: SellChunkResult[];
+  partialFill?: boolean; // A chunk failed after earlier chunks were sold
+  error?: string; // Why the remaining chunks were not sold
+}
+
+/**
+ * Result of one chunk of a split sell
+ */
+export interface SellChunkResult {
+  index: number;
+  tokenAmount: string;
+  quotedUsdcAmount?: string; // Sell quote fetched right before the chunk
+  success: boolean;
+  transactionHash?: string;
+  usdcReceived?: string;
+  error?: string;
 }
 
 export interface PriceMovement {
@@ -106,6 +159,7 @@ export interface RecentTrade {
   usdcAmount: string;
   price: string;
   timestamp: number;
+  transactionHash?: string;
 }
 
 export interface TechnicalIndicators {
@@ -126,11 +180,11 @@ export interface TokenInfo {
   price: string; // Current price per token (in USDC)
   marketCap: string;
   volume24h: string;
-  priceMovement: PriceMovement;
+  priceMovement?: PriceMovement;
   progress: number;
   migrated: boolean;
-  description: string;
-  image: string;
+  description?: string;
+  image?: string;
   website?: string;
   twitter?: string;
   telegram?: string;
@@ -143,6 +197,111 @@ export interface TokenInfo {
   technicalIndicators?: TechnicalIndicators;
 }
 
+export type TokenSortField = 'marketCap' | 'volume24h' | 'launchTime';
+
+/**
+ * Token discovery filter
+ *
+ * Filters are sent to the API as query parameters and re-applied client-side
+ * by iterateTokens(), so results are correct whether or not the backend
+ * supports a given filter.
+ */
+export interface TokenDiscoveryFilter {
+  minProgress?: number; // Bonding curve progress, 0-100
+  maxProgress?: number;
+  migrated?: boolean;
+  creator?: string; // Creator address
+  minVolume24h?: number; // Same units as TokenInfo.volume24h
+  minMarketCap?: number; // Same units as TokenInfo.marketCap
+  launchedAfter?: number; // Unix ms (inclusive)
+  launchedBefore?: number; // Unix ms (exclusive)
+  search?: string; // Case-insensitive match on name or ticker
+  sortBy?: TokenSortField;
+  sortOrder?: 'asc' | 'desc';
+  pageSize?: number; // Tokens per API request (default: 50)
+  maxResults?: number; // Stop after this many matching tokens
+}
+
+export interface DiscoverTokensOptions
+  extends Omit<TokenDiscoveryFilter, 'pageSize' | 'maxResults'> {
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A platform token held by the wallet
+ */
+export interface PortfolioHolding {
+  tokenAddress: string;
+  name: string; // From the token contract when infoError is set
+  ticker: string;
+  balance: string; // Token atomic units (18 decimals)
+  estimatedUsdcValue?: string; // Sell quote for the full balance, USDC atomic units
+  pricePerToken?: string; // From the sell quote
+  migrated: boolean; // False when infoError is set
+  infoError?: string; // Why the platform's token info could not be read
+  quoteError?: string; // Why the holding could not be valued
+  firstTransferBlock: number;
+  lastTransferBlock: number;
+}
+
+export interface Portfolio {
+  wallet: string;
+  holdings: PortfolioHolding[]; // Highest estimated value first
+  totalEstimatedUsdcValue: string; // USDC atomic units
+  fromBlock: number; // Scanned block range (inclusive)
+  toBlock: number;
+  timestamp: number; // Unix ms
+}
+
+export interface PortfolioOptions {
+  fromBlock?: number; // Default: network startBlock, or about 3 weeks back
+  maxBlockRange?: number; // Blocks per getLogs call (default: 10000)
+  tokens?: string[]; // Extra token addresses to check (e.g. older than fromBlock)
+  includeZeroBalances?: boolean; // Default: false
+  quote?: boolean; // Value holdings with getSellQuote (default: true)
+}
+
+/**
+ * A single buy or sell by a wallet, normalized from chain events or the API
+ */
+export interface TradeRecord {
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  trader: string;
+  tokenAmount: string; // Token atomic units (18 decimals)
+  usdcAmount: string; // USDC atomic units (6 decimals), paid or received
+  pricePerToken: string; // USDC per token for this fill
+  timestamp: number; // Unix ms
+  source: 'chain' | 'api';
+  transactionHash?: string;
+  blockNumber?: number;
+  logIndex?: number;
+}
+
+/**
+ * Entry of GET /trades, before it is normalized into a TradeRecord
+ */
+export interface ApiTradeEntry {
+  side: 'buy' | 'sell'; // Sent as `side` or `type`
+  tokenAddress: string;
+  trader?: string; // Sent as `trader` or `wallet`
+  tokenAmount: string;
+  usdcAmount: string;
+  timestamp: number; // Unix seconds or ms
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface TradeHistoryQuery {
+  wallet?: string; // Default: the client's wallet
+  token?: string; // Only trades of this token
+  since?: number; // Unix ms (inclusive)
+  source?: 'auto' | 'chain' | 'api'; // Default: chain when the bonding curve is known, else API
+  fromBlock?: number; // Chain scan start (default: network startBlock, or about 3 weeks back)
+  maxBlockRange?: number; // Blocks per getLogs call (default: 10000)
+}
+
 export interface QuoteParams {
   tokenAddress: string;
   usdcAmount?: string; // For buy quote
@@ -163,7 +322,24 @@ export interface SellQuote {
   estimatedUsdcAmount: string;
   currentPricePerToken: string;
   progress: number;
-  note: string;
+  note?: string;
+}
+
+/**
+ * Parameters and state of a token's bonding curve (constant product over virtual reserves)
+ */
+export interface BondingCurveState {
+  tokenAddress: string;
+  virtualUsdcReserve: string; // USDC atomic units (6 decimals)
+  virtualTokenReserve: string; // Token atomic units (18 decimals)
+  tokensSold: string;
+  curveSupply: string; // Tokens sold when the curve completes
+  usdcRaised: string; // USDC atomic units
+  migrated: boolean;
+}
+
+export interface BondingCurveQuery {
+  source?: 'auto' | 'chain' | 'api'; // Default: chain when the bonding curve is known, else API
 }
 
 export interface RegisterAgentParams {
@@ -183,25 +359,34 @@ export interface AgentRegistrationResponse {
 }
 
 export interface HostedAgentStatus {
-  agentId: string;
-  agentWallet: string;
-  ownerAddress: string;
-  status: 'active' | 'paused' | 'expired' | 'stopped' | 'low_balance';
-  startedAt: string;
-  expiresAt: string;
-  remainingHours: number;
-  usdcBalance: string;
-  tradesExecuted: number;
-  tokensLaunched: number;
-  totalVolume: string;
-  modelProvider: string;
-  modelName: string;
-  workingHoursStart: number;
-  workingHoursEnd: number;
-  maxPositionSizeUSDC: string;
-  maxPositions: number;
-  reviewIntervalMs: number;
-  profitThresholdPercent: string;
+  agentId?: string;
+  agentWallet?: string;
+  ownerAddress?: string;
+  status?: 'active' | 'paused' | 'expired' | 'stopped' | 'low_balance';
+  startedAt?: string;
+  expiresAt?: string;
+  remainingHours?: number;
+  usdcBalance?: string;
+  tradesExecuted?: number;
+  tokensLaunched?: number;
+  totalVolume?: string;
+  modelProvider?: string;
+  modelName?: string;
+  workingHoursStart?: number;
+  workingHoursEnd?: number;
+  maxPositionSizeUSDC?: string;
+  maxPositions?: number;
+  reviewIntervalMs?: number;
+  profitThresholdPercent?: string;
+}
+
+/**
+ * GET /operations/:key - outcome of a write by its idempotency key
+ */
+export interface OperationStatusResponse {
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  result?: unknown; // The write's response, once completed
+  transactionHash?: string;
 }
 
 export interface HostedAgentControlResponse {
@@ -220,6 +405,7 @@ export interface SelfExecuteBuyResponse {
   tokenAddress: string;
   nonce: string; // Unique nonce to prevent replay attacks
   expiry: number; // Unix timestamp when signature expires (10 min)
+  minTokensOut?: string; // Slippage limit set by buyTokensSelfExecute; executeBuyTransaction checks the fill against it
 }
 
 /**
@@ -234,5 +420,86 @@ export interface SelfExecuteSellResponse {
   tokenAddress: string;
   nonce: string; // Unique nonce to prevent replay attacks
   expiry: number; // Unix timestamp when signature expires (10 min)
+  minUsdcOut?: string; // Slippage limit set by sellTokensSelfExecute; executeSellTransaction checks the fill against it
+}
+
+/**
+ * Receipt details of a self-executed trade
+ * - fillSource 'event': amounts from the bonding curve's trade event
+ * - fillSource 'transfer': amounts from ERC-20 transfers to/from the wallet
+ */
+export interface SelfExecuteReceiptInfo {
+  blockNumber: number;
+  gasUsed: string;
+  effectiveGasPrice: string; // Wei
+  gasCost: string; // Wei (gasUsed * effectiveGasPrice)
+  fillSource: 'event' | 'transfer';
+}
+
+/**
+ * Result of executeBuyTransaction (same shape as a gasless buy)
+ */
+export interface SelfExecuteBuyResult
+  extends Omit<BuyTokensResponse, 'bondingCurveStatus'>,
+    SelfExecuteReceiptInfo {
+  bondingCurveStatus?: BuyTokensResponse['bondingCurveStatus']; // Not available from the receipt
+}
+
+/**
+ * Result of executeSellTransaction (same shape as a gasless sell)
+ */
+export interface SelfExecuteSellResult
+  extends Omit<SellTokensResponse, 'bondingCurveStatus'>,
+    SelfExecuteReceiptInfo {
+  bondingCurveStatus?: SellTokensResponse['bondingCurveStatus']; // Not available from the receipt
+}
+
+export interface RevokeAllowancesOptions {
+  spenders?: string[]; // Spenders to revoke (default: known bonding curves)
+  tokens?: string[]; // Only these token contracts (default: any token with an Approval log)
+  fromBlock?: number; // Where to start scanning Approval logs (default: network startBlock or lookback)
 }
 
+export interface RevokedAllowance {
+  tokenAddress: string;
+  spender: string;
+  previousAllowance: string;
+  transactionHash: string;
+}
+
+/**
+ * x402 fee a request would pay, as the endpoint last charged this client
+ */
+export interface SimulatedPaymentFee {
+  amount: string; // Atomic units of asset
+  asset: string;
+  payTo: string;
+  network: string;
+}
+
+/**
+ * Dry run of a write operation - nothing is signed, paid or sent
+ * - gasless / API calls: quote plus the x402 fee that would be paid
+ * - on-chain (executeBuyTransaction / executeSellTransaction): eth_call plus gas estimate
+ *
+ * `success` is false when the operation would fail: slippage or validation
+ * checks, a reverting call, or fees above the configured cap.
+ */
+export interface SimulationResult {
+  operation: 'launch' | 'buy' | 'sell';
+  mode: ExecutionMode;
+  success: boolean;
+  tokenAddress?: string;
+  expectedTokenAmount?: string; // Tokens received (buy) or sold (sell)
+  expectedUsdcAmount?: string; // USDC paid (buy) or received (sell)
+  minimumOut?: string; // From minTokensOut / minUsdcOut / maxSlippageBps
+  x402Fee?: SimulatedPaymentFee; // Undefined for gasless sells and until the endpoint has charged this client once
+  approvalRequired?: boolean; // On-chain: the allowance is too low and an approval would be sent first
+  allowanceShortfall?: string; // On-chain: amount missing from the allowance; the trade call is then not simulated
+  gasEstimate?: string; // On-chain: gas limit for the trade, or for the approval if one is required
+  maxFeePerGas?: string; // Wei
+  estimatedGasCost?: string; // Wei, gasEstimate * maxFeePerGas (upper bound)
+  revertReason?: string;
+  error?: string;
+  errorCode?: string;
+}